@@ -1,21 +1,90 @@
 import React, { useState } from 'react';
 import GalaxyScene from './components/GalaxyScene';
+import VideoExportPanel from './components/VideoExportPanel';
+import ThemePicker from './components/ThemePicker';
+import SettingsPanel from './components/SettingsPanel';
+import SharedSettingsNotice from './components/SharedSettingsNotice';
+import { PARTICLE_COUNT } from './scene/galaxy';
+import { BUILT_IN_THEMES, DEFAULT_THEME, GalaxyTheme } from './scene/themes';
+import { ReplayProvider, VoiceSessionProvider } from './services/voice';
+import { parseRecording, RECORDING_EXTENSION } from './services/recording/recording';
+import { clearSharedSettings, loadSettings, readSharedSettings, saveSettings, sessionKey, SessionSettings } from './services/settings/sessionSettings';
+import { DEFAULT_DEVICE_ID, micConstraints } from './services/audio/devices';
 
 export default function App() {
   const [hasStarted, setHasStarted] = useState(false);
   const [micError, setMicError] = useState<string | null>(null);
+  const [micDenied, setMicDenied] = useState(false);
+  const [useMicrophone, setUseMicrophone] = useState(true);
+  // The stream opened while asking permission, handed to the scene so it doesn't prompt again
+  const [micStream, setMicStream] = useState<MediaStream | null>(null);
+  const [provider, setProvider] = useState<VoiceSessionProvider | undefined>(undefined);
+  const [themes, setThemes] = useState<GalaxyTheme[]>(BUILT_IN_THEMES);
+  const [theme, setTheme] = useState<GalaxyTheme>(DEFAULT_THEME);
+  const [settings, setSettings] = useState<SessionSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  // A shared link's settings wait for the visitor to accept them
+  const [sharedSettings, setSharedSettings] = useState<Partial<SessionSettings>>(() => readSharedSettings(settings));
+
+  const handleImportTheme = (imported: GalaxyTheme) => {
+    // Re-importing a theme with the same id replaces it
+    setThemes(current => [...current.filter(t => t.id !== imported.id), imported]);
+    setTheme(imported);
+  };
+
+  const handleApplySettings = (next: SessionSettings) => {
+    saveSettings(next);
+    // Mid-session this remounts GalaxyScene (keyed on the settings), restarting the session
+    setSettings(next);
+    setShowSettings(false);
+  };
+
+  const handleSharedSettings = (accept: boolean) => {
+    if (accept) {
+      const next = { ...settings, ...sharedSettings };
+      saveSettings(next);
+      setSettings(next);
+    }
+    setSharedSettings({});
+    clearSharedSettings();
+  };
 
   const handleStart = async () => {
     try {
       // Prompt for microphone permission early to catch errors
-      await navigator.mediaDevices.getUserMedia({ audio: true });
+      setMicStream(await navigator.mediaDevices.getUserMedia(micConstraints(DEFAULT_DEVICE_ID)));
+      setUseMicrophone(true);
+      setShowSettings(false);
       setHasStarted(true);
     } catch (err) {
-      setMicError("Microphone access is required for this experience.");
+      setMicError("Microphone access was denied. You can still talk to the entity by typing.");
+      setMicDenied(true);
       console.error("Mic access error:", err);
     }
   };
 
+  const handleStartText = () => {
+    setUseMicrophone(false);
+    setShowSettings(false);
+    setHasStarted(true);
+  };
+
+  const handleReplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const recording = parseRecording(await file.text());
+      setProvider(new ReplayProvider(recording));
+      setShowSettings(false);
+      setHasStarted(true);
+    } catch (err) {
+      setMicError((err instanceof Error && err.message) || "Couldn't read that recording.");
+      setMicDenied(false);
+      console.error("Replay load error:", err);
+    }
+  };
+
   return (
     <div className="relative w-screen h-screen bg-[#030308] font-sans text-white overflow-hidden">
       {!hasStarted ? (
@@ -27,14 +96,48 @@ export default function App() {
             >
               Sonic Entity
             </h1>
-            <p className="text-lg md:text-xl text-gray-300 mb-12 font-light leading-relaxed">
-              A vibrant, swirling galaxy of 40,000 glowing particles. <br/>
+            <p className="text-lg md:text-xl text-gray-300 mb-10 font-light leading-relaxed">
+              {/* The quality setting draws fewer on slower devices */}
+              A vibrant, swirling galaxy of up to {PARTICLE_COUNT.toLocaleString('en-US')} glowing particles. <br/>
               Speak to the AI entity. As it replies, its words will echo sharply into the space.
             </p>
             
+            {Object.keys(sharedSettings).length > 0 && (
+              <SharedSettingsNotice
+                shared={sharedSettings}
+                onApply={() => handleSharedSettings(true)}
+                onDismiss={() => handleSharedSettings(false)}
+              />
+            )}
+
+            <ThemePicker themes={themes} selected={theme} onSelect={setTheme} onImport={handleImportTheme} />
+
+            <div className="flex flex-col items-center w-full mb-10">
+              <button
+                onClick={() => setShowSettings(open => !open)}
+                aria-expanded={showSettings}
+                className="text-xs text-gray-400 tracking-widest uppercase underline decoration-dotted underline-offset-4 hover:text-[#FFD54F] transition-colors"
+              >
+                {showSettings ? 'Hide settings' : `Voice: ${settings.voice} · Settings`}
+              </button>
+              {showSettings && (
+                <div className="mt-4 w-full flex justify-center">
+                  <SettingsPanel settings={settings} onApply={handleApplySettings} applyLabel="Save" />
+                </div>
+              )}
+            </div>
+
             {micError ? (
               <div className="bg-red-900/50 border border-red-500 text-red-200 px-6 py-4 rounded-lg mb-8 shadow-lg shadow-red-500/20">
                 {micError}
+                {micDenied && (
+                  <button
+                    onClick={handleStartText}
+                    className="block mx-auto mt-3 text-xs text-red-100 tracking-widest uppercase underline decoration-dotted underline-offset-4 hover:text-[#FFD54F] transition-colors"
+                  >
+                    Continue with text chat
+                  </button>
+                )}
               </div>
             ) : null}
 
@@ -45,11 +148,46 @@ export default function App() {
               <span className="relative z-10">Start Experience</span>
               <div className="absolute inset-0 h-full w-full scale-0 rounded-full transition-all duration-300 ease-out group-hover:scale-100 group-hover:bg-white/20 z-0"></div>
             </button>
-            <p className="mt-6 text-xs text-gray-500 tracking-wide uppercase">Requires Microphone</p>
+            <p className="mt-6 text-xs text-gray-500 tracking-wide uppercase">Best with a microphone · typing works too</p>
+
+            <label className="mt-8 text-xs text-gray-400 tracking-widest uppercase cursor-pointer underline decoration-dotted underline-offset-4 hover:text-[#FFD54F] transition-colors">
+              Or replay a recording
+              <input type="file" accept={`${RECORDING_EXTENSION},application/json`} onChange={handleReplay} className="hidden" />
+            </label>
+            <VideoExportPanel theme={theme} />
           </div>
         </div>
       ) : (
-        <GalaxyScene />
+        <>
+          <React.Fragment key={sessionKey(settings)}>
+            <GalaxyScene provider={provider} theme={theme} settings={settings} themes={themes} onThemeChange={setTheme} microphone={useMicrophone} micStream={micStream} />
+          </React.Fragment>
+
+          {/* Settings only shape live sessions, not replays */}
+          {!provider && (
+            <>
+              <button
+                onClick={() => setShowSettings(open => !open)}
+                aria-expanded={showSettings}
+                className="absolute bottom-8 right-6 z-40 bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[#2a1a3a]/60 text-[#F8F9FA] font-mono text-xs uppercase tracking-widest hover:border-[#FFD54F]/60 transition-colors"
+              >
+                Settings
+              </button>
+              {showSettings && (
+                <div className="absolute inset-0 z-50 flex items-center justify-center p-4 bg-black/60" onClick={() => setShowSettings(false)}>
+                  <div className="w-full flex justify-center" onClick={e => e.stopPropagation()}>
+                    <SettingsPanel
+                      settings={settings}
+                      onApply={handleApplySettings}
+                      applyLabel="Apply & restart"
+                      onCancel={() => setShowSettings(false)}
+                    />
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { AudioDevices, deviceLabel, supportsOutputSelection } from '../services/audio/devices';
+
+interface AudioDevicePanelProps {
+  devices: AudioDevices;
+  inputDeviceId: string;
+  outputDeviceId: string;
+  onInputDevice: (deviceId: string) => void;
+  onOutputDevice: (deviceId: string) => void;
+  /** Linear input gain, 1 being unchanged. */
+  inputGain: number;
+  onInputGain: (gain: number) => void;
+  muted: boolean;
+  onMuted: (muted: boolean) => void;
+  /** The scene writes the mic level straight into this bar every frame, bypassing React. */
+  levelMeterRef: React.RefObject<HTMLDivElement | null>;
+  /** False when there's no mic, e.g. a text-only session; output can still be chosen. */
+  hasMicrophone: boolean;
+}
+
+const FIELD_LABEL = 'block mb-1 text-[11px] text-gray-400 tracking-widest uppercase';
+const SELECT = 'w-full bg-[#0a0a1a] border border-[#2a183a] rounded-md px-2 py-1.5 text-xs text-[#F8F9FA] focus:outline-none focus:border-[#FFD54F]/60 disabled:opacity-40';
+
+export default function AudioDevicePanel({
+  devices,
+  inputDeviceId,
+  outputDeviceId,
+  onInputDevice,
+  onOutputDevice,
+  inputGain,
+  onInputGain,
+  muted,
+  onMuted,
+  levelMeterRef,
+  hasMicrophone,
+}: AudioDevicePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const canPickOutput = supportsOutputSelection();
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-controls="audio-device-panel"
+        className="flex items-center gap-2 bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[#2a1a3a]/60 text-[#F8F9FA] font-mono text-xs uppercase tracking-widest hover:border-[#FFD54F]/60 transition-colors"
+      >
+        {muted ? 'Muted' : 'Mic'}
+        {/* Live input level */}
+        <span className="relative w-10 h-1.5 rounded-full bg-[#1a082a] overflow-hidden">
+          <span
+            ref={levelMeterRef}
+            className={`absolute inset-y-0 left-0 w-full origin-left ${muted ? 'bg-gray-500' : 'bg-cyan-400'}`}
+            style={{ transform: 'scaleX(0)' }}
+          />
+        </span>
+      </button>
+
+      {isOpen && (
+        <div
+          id="audio-device-panel"
+          className="absolute top-full left-0 mt-2 w-72 bg-[#0a0a1a]/90 backdrop-blur-md border border-[#2a1a3a]/60 rounded-xl p-4 shadow-[0_0_30px_rgba(0,0,0,0.8)]"
+        >
+          <label className="block">
+            <span className={FIELD_LABEL}>Microphone</span>
+            <select
+              value={inputDeviceId}
+              onChange={e => onInputDevice(e.target.value)}
+              disabled={!hasMicrophone}
+              className={SELECT}
+            >
+              <option value="">System default</option>
+              {devices.inputs.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block mt-3">
+            <span className={FIELD_LABEL}>Speaker</span>
+            <select
+              value={outputDeviceId}
+              onChange={e => onOutputDevice(e.target.value)}
+              disabled={!canPickOutput}
+              className={SELECT}
+            >
+              <option value="">System default</option>
+              {devices.outputs.map((device, i) => (
+                <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i)}</option>
+              ))}
+            </select>
+            {!canPickOutput && <span className="block mt-1 text-[11px] text-gray-500">This browser always plays through the default speaker.</span>}
+          </label>
+
+          <label className="block mt-3">
+            <span className={FIELD_LABEL}>Input gain · {Math.round(inputGain * 100)}%</span>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.05}
+              value={inputGain}
+              onChange={e => onInputGain(Number(e.target.value))}
+              disabled={!hasMicrophone}
+              className="w-full accent-[#FFD54F] disabled:opacity-40"
+            />
+          </label>
+
+          <button
+            onClick={() => onMuted(!muted)}
+            disabled={!hasMicrophone}
+            aria-pressed={muted}
+            className="mt-3 w-full px-3 py-1.5 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black disabled:opacity-30 disabled:pointer-events-none transition-colors"
+          >
+            {muted ? 'Unmute microphone' : 'Mute microphone'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import type { CameraMode, CameraPreference } from '../scene/cameraRig';
+
+interface CameraPanelProps {
+  preference: CameraPreference;
+  onChange: (preference: CameraPreference) => void;
+  onResetView: () => void;
+}
+
+const FIELD_LABEL = 'block mb-1 text-[11px] text-gray-400 tracking-widest uppercase';
+const PILL = 'px-3 py-1 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black transition-colors';
+
+const MODES: { mode: CameraMode; label: string }[] = [
+  { mode: 'director', label: 'Director' },
+  { mode: 'manual', label: 'Manual' },
+];
+
+export default function CameraPanel({ preference, onChange, onResetView }: CameraPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { mode, range } = preference;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-controls="camera-panel"
+        className="bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[#2a1a3a]/60 text-[#F8F9FA] font-mono text-xs uppercase tracking-widest hover:border-[#FFD54F]/60 transition-colors"
+      >
+        Camera
+      </button>
+
+      {isOpen && (
+        <div
+          id="camera-panel"
+          className="absolute top-full left-0 mt-2 w-72 bg-[#0a0a1a]/90 backdrop-blur-md border border-[#2a1a3a]/60 rounded-xl p-4 shadow-[0_0_30px_rgba(0,0,0,0.8)]"
+        >
+          <span className={FIELD_LABEL}>Mode</span>
+          <div className="flex gap-2">
+            {MODES.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => onChange({ ...preference, mode: option.mode })}
+                aria-pressed={option.mode === mode}
+                className={`${PILL} ${option.mode === mode ? 'border-[#FFD54F]/80 text-[#FFD54F]' : ''}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+            {mode === 'director'
+              ? 'Drifts while idle, leans in as the AI speaks and jolts back on interruptions.'
+              : 'The camera only moves when you move it.'}
+          </p>
+
+          <label className="block mt-3">
+            <span className={FIELD_LABEL}>Range · {range === 0 ? 'locked' : `${Math.round(range * 100)}%`}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={range}
+              onChange={e => onChange({ ...preference, range: Number(e.target.value) })}
+              className="w-full accent-[#FFD54F]"
+            />
+          </label>
+
+          <button onClick={onResetView} className={`${PILL} mt-3 w-full`}>
+            Reset view
+          </button>
+          <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+            Drag to orbit · right-drag, shift-drag or two fingers to pan · scroll or pinch to zoom · double-click to reset.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
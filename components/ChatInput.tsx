@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { MAX_TEXT_TURN_LENGTH } from '../services/chat/textTurn';
+
+interface ChatInputProps {
+  /** False until the session can take messages. */
+  enabled: boolean;
+  onSend: (text: string) => void;
+  /** Shown as the placeholder, e.g. when typing is the only way to talk. */
+  placeholder?: string;
+}
+
+export default function ChatInput({ enabled, onSend, placeholder = 'Type a message...' }: ChatInputProps) {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const message = text.trim();
+    if (!enabled || !message) return;
+    onSend(message);
+    setText('');
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="absolute bottom-24 left-1/2 -translate-x-1/2 z-30 w-[28rem] max-w-[85vw] flex items-center gap-2 bg-[#0a0a1a]/80 backdrop-blur-md pl-5 pr-2 py-2 rounded-full border border-[#2a1a3a]/60 shadow-[0_0_20px_rgba(0,0,0,0.8)] focus-within:border-[#FFD54F]/60 transition-colors"
+    >
+      <input
+        value={text}
+        onChange={e => setText(e.target.value)}
+        maxLength={MAX_TEXT_TURN_LENGTH}
+        placeholder={placeholder}
+        aria-label="Message the entity"
+        className="flex-1 min-w-0 bg-transparent text-sm text-[#F8F9FA] placeholder-gray-500 focus:outline-none"
+      />
+      <button
+        type="submit"
+        disabled={!enabled || !text.trim()}
+        className="px-4 py-1.5 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black disabled:opacity-30 disabled:pointer-events-none transition-colors"
+      >
+        Send
+      </button>
+    </form>
+  );
+}
@@ -1,74 +1,196 @@
 import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob as GenAIBlob } from '@google/genai';
-
-const PARTICLE_COUNT = 40000;
-
-// --- Web Audio Helper Functions ---
-function decode(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
+import { FunctionCall, Modality } from '@google/genai';
+import { createVoiceProvider, VoiceSession, VoiceSessionProvider, withReconnect } from '../services/voice';
+import { createLiveMessageHandler, LiveMessageHandler } from '../services/voice/liveMessages';
+import { decode, decodeAudioData } from '../services/audio/pcm';
+import { startMicCapture, MicCapture } from '../services/audio/micCapture';
+import { applyAudioFeatures, createGalaxy, Galaxy } from '../scene/galaxy';
+import { BUILT_IN_THEMES, DEFAULT_THEME, GalaxyTheme } from '../scene/themes';
+import { DEFAULT_FORMATION_MAPPING, FormationMapping, FormationSpec, formationTriggerFor } from '../scene/formations';
+import { runSceneCommand, SceneCommandTarget } from '../scene/commands';
+import { loadReactivityMapping, ReactivityMapping, saveReactivityMapping } from '../scene/reactivity';
+import {
+  AUTO_START_LEVEL,
+  loadQualityPreference,
+  PerformanceGovernor,
+  QUALITY_PRESETS,
+  QualityLevel,
+  QualityPreference,
+  saveQualityPreference,
+} from '../scene/quality';
+import { createPostProcessing, PostEffects } from '../scene/postProcessing';
+import { createParticleSimulation, ParticleSimulation, SimulationUnsupportedError } from '../scene/simulation';
+import { CameraPreference, CameraRig, createCameraRig, loadCameraPreference, saveCameraPreference } from '../scene/cameraRig';
+import { createFieldInteraction, FieldInteraction, loadStirPreference, saveStirPreference, StirPreference } from '../scene/fieldInteraction';
+import { averageMagnitude, gateVolume, smoothVolume } from '../services/audio/volume';
+import { BandAnalyzer, SILENT_FEATURES } from '../services/audio/bands';
+import { VoiceActivityDetector } from '../services/audio/vad';
+import { TalkGate } from '../services/audio/talkGate';
+import {
+  AudioDevices,
+  DEFAULT_DEVICE_ID,
+  listAudioDevices,
+  micConstraints,
+  NO_AUDIO_DEVICES,
+  setOutputDevice,
+  streamDeviceId,
+  watchAudioDevices,
+} from '../services/audio/devices';
+import { describeSessionState, INITIAL_SESSION_STATE, isConversing, SessionMachine, SessionState, SessionStateKind } from '../services/session/sessionState';
+import { TurnTimeline } from '../services/teleprompter/wordTimeline';
+import { EMPTY_KINETIC_TEXT, KineticText, KINETIC_LINGER_MS, kineticView, pendingAnnouncement } from '../services/teleprompter/kinetic';
+import { SpeechActivityTracker, resolveActiveWord } from '../services/teleprompter/speechActivity';
+import { effectiveKineticLayout, kineticFontFamily, loadTypographyPreference, saveTypographyPreference, TypographyPreference, watchReducedMotion } from '../services/teleprompter/typography';
+import { Transcript, TranscriptEntry } from '../services/transcript/transcript';
+import { SessionRecorder, withRecorder } from '../services/recording/recorder';
+import { downloadRecording } from '../services/recording/recording';
+import { DEFAULT_SETTINGS, liveConfigFor, SessionSettings, TALK_MODES, VAD_MARGINS } from '../services/settings/sessionSettings';
+import { galaxyTool, parseToolCall, toolResponse } from '../services/tools/galaxyTools';
+import { textTurn } from '../services/chat/textTurn';
+import TranscriptPanel from './TranscriptPanel';
+import VideoSharePanel from './VideoSharePanel';
+import ChatInput from './ChatInput';
+import AudioDevicePanel from './AudioDevicePanel';
+import QualityPanel from './QualityPanel';
+import CameraPanel from './CameraPanel';
+import StirPanel from './StirPanel';
+import TypographyPanel from './TypographyPanel';
+import ReactivityPanel from './ReactivityPanel';
+import KineticOverlay from './KineticOverlay';
+import StatsOverlay, { RenderStats } from './StatsOverlay';
 
-function encode(bytes: Uint8Array): string {
-  let binary = '';
-  const chunkSize = 8192;
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, i + chunkSize);
-    // @ts-ignore
-    binary += String.fromCharCode.apply(null, chunk);
-  }
-  return btoa(binary);
-}
+/** Keys that can't start push-to-talk: they're busy typing. */
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
+/** The HUD's note on how the mic is being listened to. */
+function talkModeLabel({ talkMode, vadSensitivity }: SessionSettings): string {
+  const label = TALK_MODES.find(t => t.mode === talkMode)?.label ?? talkMode;
+  if (talkMode === 'push-to-talk') return `${label} · hold Space`;
+  return vadSensitivity === 'medium' ? label : `${label} · ${vadSensitivity} sensitivity`;
 }
 
-function createBlob(data: Float32Array): GenAIBlob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
-  }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
+const effectNames = (effects: PostEffects) =>
+  (Object.keys(effects) as (keyof PostEffects)[]).filter(name => effects[name]).join(' ') || 'none';
+
+// How often the stats overlay refreshes
+const STATS_INTERVAL_SECONDS = 0.5;
+
+const HUD_INDICATOR: Record<SessionStateKind, string> = {
+  'initializing': 'bg-gray-400 animate-pulse',
+  'requesting-mic': 'bg-gray-400 animate-pulse',
+  'connecting': 'bg-gray-400 animate-pulse',
+  'listening': 'bg-purple-500 animate-pulse',
+  'user-speaking': 'bg-cyan-400 animate-ping',
+  'ai-speaking': 'bg-[#FFD54F] animate-bounce',
+  'interrupted': 'bg-orange-400',
+  'reconnecting': 'bg-amber-500 animate-pulse',
+  'error': 'bg-red-500',
+  'closed': 'bg-gray-600',
+};
+
+interface GalaxySceneProps {
+  provider?: VoiceSessionProvider;
+  theme?: GalaxyTheme;
+  /** Which formation the particles morph into at each moment of the conversation. */
+  formations?: FormationMapping;
+  /** Which audio features drive push, pulse, colour mix and shimmer; defaults to the mapping last set in the Reactivity panel. */
+  reactivity?: ReactivityMapping;
+  /** Read once per mount; remount (e.g. with a `key`) to restart the session with new settings. */
+  settings?: SessionSettings;
+  /** Themes the AI may switch to; offered to it when the session connects. */
+  themes?: GalaxyTheme[];
+  /** Called when the AI picks a theme, so the owner can make it the `theme` prop. */
+  onThemeChange?: (theme: GalaxyTheme) => void;
+  /** False to talk by typing only, without asking for the mic. */
+  microphone?: boolean;
+  /** A mic stream the owner already opened (e.g. while asking permission); the scene takes it over. */
+  micStream?: MediaStream | null;
 }
 
-export default function GalaxyScene() {
+export default function GalaxyScene({ provider, theme = DEFAULT_THEME, formations = DEFAULT_FORMATION_MAPPING, reactivity: initialReactivity, settings = DEFAULT_SETTINGS, themes = BUILT_IN_THEMES, onThemeChange, microphone = true, micStream = null }: GalaxySceneProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [status, setStatus] = useState<string>('Initializing WebGL...');
+  const galaxyRef = useRef<Galaxy | null>(null);
+  const formationsRef = useRef(formations);
+  formationsRef.current = formations;
+  const themesRef = useRef(themes);
+  themesRef.current = themes;
+  const onThemeChangeRef = useRef(onThemeChange);
+  onThemeChangeRef.current = onThemeChange;
+  const [session, setSession] = useState<SessionState>(INITIAL_SESSION_STATE);
+  const isReplay = provider?.requiresMicrophone === false;
+  // Typing is always available; without a mic it's the only way to talk
+  const [textOnly, setTextOnly] = useState(!microphone);
+  const sendTextRef = useRef<((text: string) => void) | null>(null);
+
+  // Push-to-talk: the Space key or the on-screen button hold the mic open
+  const isPushToTalk = settings.talkMode === 'push-to-talk';
+  const [talking, setTalking] = useState(false);
+  const talkRef = useRef<{ press: () => void; release: () => void } | null>(null);
+
+  // Audio devices, input gain and mute; refs mirror what the session effect reads
+  const [devices, setDevices] = useState<AudioDevices>(NO_AUDIO_DEVICES);
+  const [inputDeviceId, setInputDeviceId] = useState(DEFAULT_DEVICE_ID);
+  const [outputDeviceId, setOutputDeviceId] = useState(DEFAULT_DEVICE_ID);
+  const [inputGain, setInputGain] = useState(1);
+  const [muted, setMuted] = useState(false);
+  const [hasMicrophone, setHasMicrophone] = useState(false);
+  const inputDeviceIdRef = useRef(inputDeviceId);
+  inputDeviceIdRef.current = inputDeviceId;
+  const outputDeviceIdRef = useRef(outputDeviceId);
+  outputDeviceIdRef.current = outputDeviceId;
+  const micLevelRef = useRef({ gain: inputGain, muted });
+  micLevelRef.current = { gain: inputGain, muted };
+
+  // Render quality: a fixed preset, or auto with the governor picking one
+  const [qualityPreference, setQualityPreference] = useState<QualityPreference>(loadQualityPreference);
+  const { quality, showStats } = qualityPreference;
+  const [activeLevel, setActiveLevel] = useState<QualityLevel>(quality === 'auto' ? AUTO_START_LEVEL : quality);
+  const [stats, setStats] = useState<RenderStats | null>(null);
+  const qualityRef = useRef(quality);
+  qualityRef.current = quality;
+  const showStatsRef = useRef(showStats);
+  showStatsRef.current = showStats;
+  const applyQualityRef = useRef<((quality: QualityPreference['quality']) => void) | null>(null);
+
+  // Camera: orbit by hand, or let the director move it
+  const [cameraPreference, setCameraPreference] = useState<CameraPreference>(loadCameraPreference);
+  const cameraPreferenceRef = useRef(cameraPreference);
+  cameraPreferenceRef.current = cameraPreference;
+  const cameraRigRef = useRef<CameraRig | null>(null);
+
+  // Stirring: the cursor, fingers and tracked hands push the particles around
+  const [stirPreference, setStirPreference] = useState<StirPreference>(loadStirPreference);
+  const stirPreferenceRef = useRef(stirPreference);
+  stirPreferenceRef.current = stirPreference;
+  const fieldInteractionRef = useRef<FieldInteraction | null>(null);
+  const micGainRef = useRef<GainNode | null>(null);
+  const switchMicRef = useRef<((deviceId: string) => void) | null>(null);
+  const levelMeterRef = useRef<HTMLDivElement>(null);
+
+  // Session Recording
+  const recorderRef = useRef(new SessionRecorder());
+  const [isRecording, setIsRecording] = useState(false);
   
   // Kinetic Typography State (Razor Sharp DOM Overlay)
-  const [kineticText, setKineticText] = useState<{words: string[], activeIndex: number}>({ words: [], activeIndex: -1 });
+  const [kineticText, setKineticText] = useState<KineticText>(EMPTY_KINETIC_TEXT);
+  const [reactivity, setReactivity] = useState<ReactivityMapping>(() => initialReactivity ?? loadReactivityMapping());
+  const [typographyPreference, setTypographyPreference] = useState<TypographyPreference>(loadTypographyPreference);
+  // Read by the render loop, so changing layout doesn't restart the session
+  const typographyPreferenceRef = useRef(typographyPreference);
+  typographyPreferenceRef.current = typographyPreference;
+  const [reducedMotion, setReducedMotion] = useState(false);
+  // The AI's speech for screen readers, a sentence at a time
+  const [announcement, setAnnouncement] = useState('');
+  const [transcriptEntries, setTranscriptEntries] = useState<TranscriptEntry[]>([]);
   
   const streamRef = useRef<MediaStream | null>(null);
   const inputAudioCtxRef = useRef<AudioContext | null>(null);
   const outputAudioCtxRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const sessionRef = useRef<Promise<VoiceSession> | null>(null);
   
   const aiWasPlayingRef = useRef(false);
   const clearTextTimeoutRef = useRef<number | null>(null);
@@ -79,237 +201,190 @@ export default function GalaxyScene() {
     let width = containerRef.current.clientWidth || window.innerWidth;
     let height = containerRef.current.clientHeight || window.innerHeight;
 
-    const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x050510);
-    scene.fog = new THREE.FogExp2(0x050510, 0.015);
+    const galaxy = createGalaxy(width / height, theme, reactivity);
+    const { scene, camera, uniforms } = galaxy;
+    galaxyRef.current = galaxy;
 
-    const camera = new THREE.PerspectiveCamera(60, width / height, 0.1, 1000);
-    camera.position.z = 70;
-
-    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: false, powerPreference: "high-performance" });
-    renderer.setSize(width, height);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    containerRef.current.appendChild(renderer.domElement);
+    // --- Render Quality ---
+    // Antialiasing is fixed when a WebGL context is created, so toggling it means a new renderer
+    const container = containerRef.current;
+    const createRenderer = (antialias: boolean) => {
+      const next = new THREE.WebGLRenderer({ antialias, alpha: false, powerPreference: "high-performance" });
+      next.setSize(width, height);
+      container.appendChild(next.domElement);
+      return next;
+    };
+    const disposeRenderer = (old: THREE.WebGLRenderer) => {
+      old.dispose();
+      // Browsers cap live WebGL contexts; don't wait for GC to free this one
+      old.forceContextLoss();
+      if (container.contains(old.domElement)) container.removeChild(old.domElement);
+    };
 
-    const geometry = new THREE.BufferGeometry();
-    const positions = new Float32Array(PARTICLE_COUNT * 3);
-    const baseColors = new Float32Array(PARTICLE_COUNT * 3);
-    const activeColors = new Float32Array(PARTICLE_COUNT * 3);
-    const randoms = new Float32Array(PARTICLE_COUNT * 3);
+    let governor = qualityRef.current === 'auto' ? new PerformanceGovernor() : null;
+    let level: QualityLevel = governor?.level ?? (qualityRef.current as QualityLevel);
+    let renderer = createRenderer(QUALITY_PRESETS[level].antialias);
+    // The composer's buffers belong to one renderer, so it's rebuilt alongside it
+    const createPost = (antialias: boolean) => createPostProcessing(renderer, galaxy, { samples: antialias ? 4 : 0 });
+    let post = createPost(QUALITY_PRESETS[level].antialias);
 
-    // Deep, moody palette (Used for 90% of idle state, and 100% of the active/zoomed state)
-    const colorDeepPurple = new THREE.Color('#1A0033'); // Extremely dark purple
-    const colorRoyalPurple = new THREE.Color('#4B0082'); // Deep rich purple
-    const colorMutedViolet = new THREE.Color('#6A1B9A'); // Muted, moody violet
-    
-    // Shiny, vibrant cool star palette (Used EXCLUSIVELY for the other 10% during IDLE state)
-    const colorCyanStar = new THREE.Color('#00E5FF'); 
-    const colorSilverStar = new THREE.Color('#E0F7FA'); 
-
-    // Golden ratio for uniform Fibonacci sphere distribution
-    const goldenRatio = (1 + Math.sqrt(5)) / 2;
-
-    for (let i = 0; i < PARTICLE_COUNT; i++) {
-      // Use a Fibonacci sphere to perfectly distribute initial angles, inherently preventing clumping
-      const theta = 2 * Math.PI * i / goldenRatio;
-      const phi = Math.acos(1 - 2 * (i + 0.5) / PARTICLE_COUNT);
-      // Randomize the radius to give the galaxy volume and depth
-      const r = Math.pow(Math.random(), 1/3) * 35;
-
-      positions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
-      positions[i * 3 + 1] = r * Math.cos(phi);
-      positions[i * 3 + 2] = r * Math.sin(phi) * Math.sin(theta);
-      
-      let baseColor = new THREE.Color();
-      let activeColor = new THREE.Color();
-      const randColor = Math.random();
-
-      // --- 1. SET IDLE COLORS (90% Moody Purples / 10% Shiny Cool Stars) ---
-      if (randColor < 0.90) {
-        // 90% Purples (Moody base)
-        const p = Math.random();
-        if (p < 0.4) {
-          baseColor.copy(colorDeepPurple).lerp(colorRoyalPurple, Math.random());
-        } else if (p < 0.8) {
-          baseColor.copy(colorRoyalPurple).lerp(colorMutedViolet, Math.random());
-        } else {
-          baseColor.copy(colorMutedViolet).lerp(colorDeepPurple, Math.random());
-        }
-      } else if (randColor < 0.950) {
-        // 5% Shiny Cyan Stars
-        baseColor.copy(colorCyanStar);
-      } else {
-        // 5% Shiny Silver Stars
-        baseColor.copy(colorSilverStar);
-      }
-      
-      // --- 2. SET ACTIVE (ZOOMED/SPEAKING) COLORS ---
-      // Strictly maintain the dark, moody, purple-dominant harmony here.
-      // We generate a purely dark purple active color for EVERY particle.
-      const pActive = Math.random();
-      if (pActive < 0.6) {
-        activeColor.copy(colorDeepPurple).lerp(colorRoyalPurple, Math.random());
-      } else {
-        activeColor.copy(colorRoyalPurple).lerp(colorMutedViolet, Math.random());
+    // So is the simulation's state; GPUs that can't render to float textures draw stateless
+    let simulation: ParticleSimulation | null = null;
+    let simulationSupported = true;
+    const setSimulation = (enabled: boolean) => {
+      simulation?.dispose();
+      simulation = null;
+      if (!enabled || !simulationSupported) return;
+      try {
+        simulation = createParticleSimulation(renderer, galaxy);
+      } catch (err) {
+        if (!(err instanceof SimulationUnsupportedError)) throw err;
+        console.warn('GPU particle simulation unavailable; drawing particles stateless:', err.message);
+        simulationSupported = false;
       }
-      
-      // Blend just a tiny fraction (10%) of the base color into the active color
-      // to keep slight textual variety, but ensuring 90% is strictly moody purple.
-      // This forces the shiny stars to turn dark and moody when the AI speaks.
-      activeColor.lerp(baseColor, 0.1);
-
-      baseColors[i * 3] = baseColor.r;
-      baseColors[i * 3 + 1] = baseColor.g;
-      baseColors[i * 3 + 2] = baseColor.b;
-      
-      activeColors[i * 3] = activeColor.r;
-      activeColors[i * 3 + 1] = activeColor.g;
-      activeColors[i * 3 + 2] = activeColor.b;
-
-      randoms[i * 3] = Math.random();
-      randoms[i * 3 + 1] = Math.random();
-      randoms[i * 3 + 2] = Math.random();
-    }
-
-    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
-    geometry.setAttribute('colorBase', new THREE.BufferAttribute(baseColors, 3));
-    geometry.setAttribute('colorActive', new THREE.BufferAttribute(activeColors, 3));
-    geometry.setAttribute('aRandom', new THREE.BufferAttribute(randoms, 3));
+    };
 
-    const uniforms = {
-      uTime: { value: 0 },
-      uVolume: { value: 0 }
+    const applyLevel = (next: QualityLevel) => {
+      const preset = QUALITY_PRESETS[next];
+      level = next;
+      galaxy.setParticleCount(preset.particleCount);
+      if (preset.antialias !== renderer.getContextAttributes()?.antialias) {
+        post.dispose();
+        simulation?.dispose();
+        simulation = null;
+        disposeRenderer(renderer);
+        renderer = createRenderer(preset.antialias);
+        post = createPost(preset.antialias);
+      }
+      if (preset.simulation !== (simulation !== null)) setSimulation(preset.simulation);
+      const pixelRatio = Math.min(window.devicePixelRatio, preset.maxPixelRatio);
+      renderer.setPixelRatio(pixelRatio);
+      post.setPixelRatio(pixelRatio);
+      post.setEffects(preset.effects);
+      setActiveLevel(next);
     };
+    applyLevel(level);
 
-    const material = new THREE.ShaderMaterial({
-      uniforms: uniforms,
-      vertexShader: `
-        precision highp float;
-        uniform float uTime;
-        uniform float uVolume;
-
-        attribute vec3 colorBase;
-        attribute vec3 colorActive;
-        attribute vec3 aRandom;
-
-        varying vec3 vColor;
-        varying vec3 vColorBase;
-        varying vec3 vRandom;
-
-        void main() {
-          vRandom = aRandom;
-          vColorBase = colorBase;
-
-          vec3 posGalaxy = position;
-
-          // Swirling galaxy logic
-          float r = length(posGalaxy.xz);
-          float angle = atan(posGalaxy.z, posGalaxy.x) + uTime * 0.1 + r * 0.05;
-          posGalaxy.x = r * cos(angle);
-          posGalaxy.z = r * sin(angle);
-          posGalaxy.y += sin(uTime + posGalaxy.x * 0.1 + aRandom.y * 10.0) * 1.5;
-
-          // Spatial pseudo-repulsion (Dynamic Anti-clumping)
-          // Creates a divergent field based on time, space, and the particle's unique ID.
-          // As particles get close to each other, this unique offset pushes them apart,
-          // creating a dynamic, "dancing" Brownian motion that prevents static clumping.
-          float spatialNoise = sin(posGalaxy.x * 1.5) + cos(posGalaxy.y * 1.5) + sin(posGalaxy.z * 1.5);
-          vec3 repulsionOffset = vec3(
-            sin(uTime * 1.2 + aRandom.x * 30.0 + spatialNoise),
-            cos(uTime * 1.3 + aRandom.y * 30.0 + spatialNoise),
-            sin(uTime * 1.1 + aRandom.z * 30.0 + spatialNoise)
-          ) * 1.5; // Strength of the repulsion
-          
-          posGalaxy += repulsionOffset;
-
-          // Audio reactive outward push
-          vec3 pushDir = normalize(posGalaxy + vec3(0.0001));
-          float pushStrength = uVolume * (5.0 + aRandom.z * 15.0);
-          vec3 finalPos = posGalaxy + pushDir * pushStrength;
-
-          vec4 mvPosition = modelViewMatrix * vec4(finalPos, 1.0);
-          
-          float pulseSize = 1.0 + (uVolume * 1.5 * aRandom.x);
-          // Strong base size to ensure particles are highly visible when idle
-          float baseSize = 4.5 * pulseSize; 
-          
-          gl_PointSize = baseSize * (100.0 / max(0.1, -mvPosition.z));
-          gl_Position = projectionMatrix * mvPosition;
-          
-          // Smooth transition between base colors and the moody purple-dominant active colors
-          // Scales quickly so shiny stars disappear instantly when speaking starts
-          float colorMix = clamp(uVolume * 3.0 + (aRandom.x * uVolume), 0.0, 1.0);
-          vColor = mix(colorBase, colorActive, colorMix);
-        }
-      `,
-      fragmentShader: `
-        precision highp float;
-        uniform float uTime;
-        uniform float uVolume;
-
-        varying vec3 vColor;
-        varying vec3 vColorBase;
-        varying vec3 vRandom;
-        
-        void main() {
-          vec2 pt = gl_PointCoord - vec2(0.5);
-          float distSq = dot(pt, pt);
-          if(distSq > 0.25) discard;
-          
-          float alpha = 1.0 - smoothstep(0.1, 0.5, sqrt(distSq));
-          
-          // Calculate natural luminance of the base color
-          float luma = dot(vColorBase, vec3(0.299, 0.587, 0.114));
-          // Isolate shiny stars (high luminance) from moody purples (low luminance)
-          float shinyFactor = smoothstep(0.15, 0.5, luma);
-          
-          // Force shiny stars to behave like moody purples when zooming/speaking
-          float effectiveShiny = shinyFactor * (1.0 - clamp(uVolume * 4.0, 0.0, 1.0));
-          
-          // Complex, captivating shimmer for the 10% shiny cool stars
-          float shimmerPhase = uTime * 3.0 + vRandom.y * 50.0;
-          float shimmer = sin(shimmerPhase) * cos(shimmerPhase * 0.8 + vRandom.x * 10.0);
-          shimmer = shimmer * 0.5 + 0.5; // Map to 0-1
-          
-          // Deep, pronounced slow pulse for the 90% moody purples
-          float deepPulse = (sin(uTime * 1.5 + vRandom.z * 20.0) * 0.5 + 0.5);
-          
-          // Interpolate the glow logic based on whether it's a shiny star or a moody purple
-          float idleGlow = mix(
-            1.2 + deepPulse * 0.6,   // Moody purples: deep, highly pronounced pulsing glow
-            1.5 + shimmer * 1.4,     // Shiny stars: brighter, gentle but captivating rapid shimmer
-            effectiveShiny
-          );
-          
-          // Add a modest volume boost to the brightness to avoid white-out
-          float brightnessBoost = idleGlow + (uVolume * 1.0);
-          
-          vec3 glowColor = vColor * brightnessBoost;
-          
-          gl_FragColor = vec4(glowColor, alpha * 0.95);
-        }
-      `,
-      transparent: true,
-      blending: THREE.AdditiveBlending,
-      depthWrite: false,
-    });
+    // Listens on the container rather than the canvas, which is replaced when antialiasing changes
+    const cameraRig = createCameraRig(camera, container, galaxy, cameraPreferenceRef.current);
+    cameraRigRef.current = cameraRig;
+    const fieldInteraction = createFieldInteraction(container, galaxy, stirPreferenceRef.current, cameraRig);
+    fieldInteractionRef.current = fieldInteraction;
 
-    const particleSystem = new THREE.Points(geometry, material);
-    scene.add(particleSystem);
+    applyQualityRef.current = (setting) => {
+      governor = setting === 'auto' ? new PerformanceGovernor() : null;
+      applyLevel(governor?.level ?? (setting as QualityLevel));
+    };
 
     let sessionCloseFunc: (() => void) | null = null;
+    // Set on unmount so a setup still awaiting the mic doesn't open a session nobody will close
+    let disposed = false;
+    let micCapture: MicCapture | null = null;
     let dataArray: Uint8Array | null = null;
+    let bandAnalyzer: BandAnalyzer | null = null;
+
+    // The user's side: mic (or replayed mic) level and client-side voice activity
+    let inputAnalyser: AnalyserNode | null = null;
+    let inputDataArray: Uint8Array | null = null;
+    const vad = new VoiceActivityDetector({ margin: VAD_MARGINS[settings.vadSensitivity] });
+    const talkGate = new TalkGate(settings.talkMode);
+    const aiPlayingNow = () => sourcesRef.current.size > 0;
+    const gateOpen = () => talkGate.isOpen(aiPlayingNow(), performance.now() / 1000);
+
+    // Without server-side detection, push-to-talk marks the user's turn itself
+    talkRef.current = {
+      press: () => {
+        if (!talkGate.press()) return;
+        setTalking(true);
+        sessionRef.current?.then(s => s.sendRealtimeInput({ activityStart: {} })).catch(() => {});
+      },
+      release: () => {
+        if (!talkGate.release()) return;
+        setTalking(false);
+        sessionRef.current?.then(s => s.sendRealtimeInput({ activityEnd: {} })).catch(() => {});
+      },
+    };
+    let meterLevel = 0;
     
     // Teleprompter Sync Variables
-    let turnWords: string[] = [];
-    let turnStartTime = 0;
-    let turnAudioDuration = 0;
-    let nextStartTime = 0;
+    const timeline = new TurnTimeline();
+    const speechActivity = new SpeechActivityTracker();
+    let activeWord = -1;
+    // Words of the turn already sent to the live region
+    let announcedWords = 0;
+    let nextInputStartTime = 0;
     let previousStateKey = "";
 
+    // Conversation state drives the HUD, and the galaxy's formation follows it unless the AI pinned one
+    const machine = new SessionMachine();
+    let pinnedFormation: FormationSpec | null = null;
+    const formationFor = (state: SessionState) => pinnedFormation ?? formationsRef.current[formationTriggerFor(state)];
+    const unsubscribeSession = machine.subscribe((state) => {
+      setSession(state);
+      galaxy.morphTo(formationFor(state)).catch(err => console.error('Formation morph failed:', err));
+    });
+    galaxy.morphTo(formationFor(machine.state), 0).catch(err => console.error('Formation morph failed:', err));
+
+    // What the AI's tool calls act on
+    const commandTarget: SceneCommandTarget = {
+      galaxy,
+      get themes() {
+        return themesRef.current;
+      },
+      applyTheme: (next) => {
+        if (onThemeChangeRef.current) onThemeChangeRef.current(next);
+        else galaxy.applyTheme(next);
+      },
+      pinFormation: async (formation) => {
+        const previous = pinnedFormation;
+        pinnedFormation = formation;
+        try {
+          await galaxy.morphTo(formationFor(machine.state));
+        } catch (err) {
+          pinnedFormation = previous;
+          throw err;
+        }
+      },
+    };
+
+    // Persistent conversation log; outlives the teleprompter's per-turn state
+    const transcript = new Transcript();
+    const unsubscribeTranscript = transcript.subscribe(setTranscriptEntries);
+    // Created with the output context; carries the AI's turn from the Live API into the timeline, transcript and speakers
+    let liveMessages: LiveMessageHandler | null = null;
+    let sessionClockStart = performance.now();
+    const sessionNow = () => (performance.now() - sessionClockStart) / 1000;
+
+    // Typed messages get their own transcript entry, apart from any speech around them
+    const logTypedMessage = (text: string) => {
+      transcript.close('user', sessionNow());
+      transcript.append('user', text, sessionNow());
+      transcript.close('user', sessionNow());
+    };
+
+    const resetTurn = () => {
+      liveMessages?.resetTurn();
+      speechActivity.reset();
+      activeWord = -1;
+      announcedWords = 0;
+      previousStateKey = '';
+    };
+
+    // The chunk, word or line the chosen layout shows while word `index` is spoken
+    const viewAt = (words: readonly string[], index: number) => {
+      const preference = typographyPreferenceRef.current;
+      return kineticView(words, index, effectiveKineticLayout(preference), preference.chunkSize);
+    };
+
+    const announce = (words: readonly string[], finished = false) => {
+      const pending = pendingAnnouncement(words, announcedWords, activeWord, finished);
+      if (!pending) return;
+      announcedWords = pending.announced;
+      setAnnouncement(pending.text);
+    };
+
     const setupLiveAPI = async () => {
       try {
-        setStatus('Waking up Audio context...');
         const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
         
         const inputAudioContext = new AudioContextClass({ sampleRate: 16000 });
@@ -320,13 +395,90 @@ export default function GalaxyScene() {
 
         if (inputAudioContext.state === 'suspended') await inputAudioContext.resume();
         if (outputAudioContext.state === 'suspended') await outputAudioContext.resume();
+        // Replayed mic audio plays on the input context, so both follow the chosen speaker
+        if (outputDeviceIdRef.current) {
+          for (const ctx of [inputAudioContext, outputAudioContext]) {
+            setOutputDevice(ctx, outputDeviceIdRef.current).catch(err => console.warn('Could not switch speaker:', err));
+          }
+        }
+
+        sessionClockStart = performance.now();
+        const outputClockStart = outputAudioContext.currentTime;
+
+        inputAnalyser = inputAudioContext.createAnalyser();
+        inputAnalyser.fftSize = 512;
+        inputAnalyser.smoothingTimeConstant = 0.5;
+        inputDataArray = new Uint8Array(inputAnalyser.frequencyBinCount);
 
-        setStatus('Requesting Microphone...');
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
-        streamRef.current = stream;
+        // Mic chain: source → gain (level and mute) → analyser and capture. Only the
+        // source changes when the device does, so capture never restarts.
+        const micGain = inputAudioContext.createGain();
+        micGain.gain.value = micLevelRef.current.muted ? 0 : micLevelRef.current.gain;
+        micGain.connect(inputAnalyser);
+        micGainRef.current = micGain;
+        let micSource: MediaStreamAudioSourceNode | null = null;
 
-        setStatus('Connecting to Gemini Live API...');
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        const attachMic = (next: MediaStream) => {
+          const previous = streamRef.current;
+          micSource?.disconnect();
+          if (previous && previous !== next) previous.getTracks().forEach(track => track.stop());
+          streamRef.current = next;
+          micSource = inputAudioContext.createMediaStreamSource(next);
+          micSource.connect(micGain);
+          // Unplugging the mic ends its track; carry on with the default one
+          next.getAudioTracks()[0]?.addEventListener('ended', () => {
+            if (streamRef.current === next && !disposed) switchMicRef.current?.(DEFAULT_DEVICE_ID);
+          });
+        };
+
+        switchMicRef.current = async (deviceId) => {
+          const current = streamRef.current;
+          if (!current) return;
+          if (current.active && deviceId !== DEFAULT_DEVICE_ID && streamDeviceId(current) === deviceId) return;
+          try {
+            const next = await navigator.mediaDevices.getUserMedia(micConstraints(deviceId));
+            if (disposed) {
+              next.getTracks().forEach(track => track.stop());
+              return;
+            }
+            attachMic(next);
+          } catch (err) {
+            console.warn('Could not switch microphone:', err);
+          }
+        };
+
+        const baseProvider = provider ?? createVoiceProvider(settings.model);
+        const isLive = baseProvider.requiresMicrophone !== false;
+        // Live conversations survive dropped sockets; a replay that drops has nothing to resume
+        const voiceProvider = withRecorder(isLive ? withReconnect(baseProvider) : baseProvider, recorderRef.current);
+
+        let stream: MediaStream | null = null;
+        if (isLive && microphone) {
+          machine.dispatch({ type: 'mic-requested' });
+          try {
+            // Reuse the stream opened for the permission prompt when it's still live and on the right device
+            const wanted = inputDeviceIdRef.current;
+            const reusable = micStream?.active && (!wanted || streamDeviceId(micStream) === wanted);
+            if (micStream && !reusable) micStream.getTracks().forEach(track => track.stop());
+            stream = reusable ? micStream : await navigator.mediaDevices.getUserMedia(micConstraints(wanted));
+            if (!disposed) {
+              attachMic(stream!);
+              setHasMicrophone(true);
+              // Device names are only visible once mic access is granted
+              listAudioDevices().then(setDevices).catch(() => {});
+            }
+          } catch (err) {
+            // No mic isn't fatal: the conversation carries on by text
+            console.warn('Microphone unavailable, continuing with text chat:', err);
+            setTextOnly(true);
+          }
+        }
+        if (disposed) {
+          stream?.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        machine.dispatch({ type: 'connecting', provider: voiceProvider.label });
         
         const outputNode = outputAudioContext.createGain();
         outputNode.connect(outputAudioContext.destination);
@@ -337,105 +489,134 @@ export default function GalaxyScene() {
         outputNode.connect(analyser);
         analyserRef.current = analyser;
         dataArray = new Uint8Array(analyser.frequencyBinCount);
+        bandAnalyzer = new BandAnalyzer(outputAudioContext.sampleRate);
+
+        // Runs the AI's tool calls against the scene and answers each one, failures included
+        const handleToolCalls = async (calls: FunctionCall[]) => {
+          const functionResponses = await Promise.all(calls.map(async (call) => {
+            try {
+              const result = await runSceneCommand(commandTarget, parseToolCall(call));
+              return toolResponse(call, { result });
+            } catch (err) {
+              console.warn(`Tool call ${call.name} failed:`, err);
+              return toolResponse(call, { error: (err instanceof Error ? err.message : String(err)) || 'Failed' });
+            }
+          }));
+          sessionPromise.then(s => s.sendToolResponse({ functionResponses })).catch(() => {});
+        };
 
-        const sessionPromise = ai.live.connect({
-          model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+        liveMessages = createLiveMessageHandler({
+          timeline,
+          transcript,
+          sessionNow,
+          outputClockStart,
+          playback: {
+            get currentTime() {
+              return outputAudioContext.currentTime;
+            },
+            decode: (base64) => decodeAudioData(decode(base64), outputAudioContext, 24000, 1),
+            start: (buffer, when) => {
+              const source = outputAudioContext.createBufferSource();
+              source.buffer = buffer;
+              source.connect(outputNode);
+              source.addEventListener('ended', () => {
+                sourcesRef.current.delete(source);
+              });
+              source.start(when);
+              sourcesRef.current.add(source);
+            },
+            stopAll: () => {
+              for (const source of sourcesRef.current.values()) {
+                source.stop();
+                sourcesRef.current.delete(source);
+              }
+            },
+          },
+          onToolCalls: handleToolCalls,
+          onInterrupted: () => {
+            resetTurn();
+            setKineticText(EMPTY_KINETIC_TEXT);
+            machine.dispatch({ type: 'interrupted' });
+          },
+        });
+
+        const sessionPromise = voiceProvider.connect({
           callbacks: {
             onopen: () => {
-              setStatus('Connected. Speak to the AI.');
-              const source = inputAudioContext.createMediaStreamSource(stream);
-              const scriptProcessor = inputAudioContext.createScriptProcessor(4096, 1, 1);
-              
-              scriptProcessor.onaudioprocess = (audioProcessingEvent) => {
-                const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                const pcmBlob = createBlob(inputData);
+              machine.dispatch({ type: 'opened' });
+              if (!stream) return;
+              let wasOpen = true;
+              startMicCapture(inputAudioContext, micGain, (pcmBlob) => {
+                const open = gateOpen();
+                // Half-duplex closing mid-utterance tells the server's VAD the audio stopped, rather than going quiet
+                const streamEnded = wasOpen && !open && talkGate.mode === 'half-duplex';
+                wasOpen = open;
+                if (!open && !streamEnded) return;
                 sessionPromise.then((session) => {
-                  session.sendRealtimeInput({ media: pcmBlob });
+                  session.sendRealtimeInput(open ? { media: pcmBlob } : { audioStreamEnd: true });
                 }).catch(() => {});
-              };
-              source.connect(scriptProcessor);
-              scriptProcessor.connect(inputAudioContext.destination);
+              }).then((capture) => {
+                if (disposed) capture.stop();
+                else micCapture = capture;
+              }).catch((err) => {
+                console.error('Mic capture failed:', err);
+                machine.dispatch({ type: 'failed', message: 'Microphone unavailable' });
+              });
             },
-            onmessage: async (message: LiveServerMessage) => {
-              
-              if (message.serverContent?.outputTranscription) {
-                const text = message.serverContent.outputTranscription.text.trim();
-                if (text) {
-                  const newWords = text.split(/\s+/).filter(w => w.length > 0);
-                  turnWords.push(...newWords);
-                }
-              }
-
-              const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-              if (base64Audio) {
-                try {
-                  const audioBuffer = await decodeAudioData(decode(base64Audio), outputAudioContext, 24000, 1);
-                  
-                  if (nextStartTime === 0 || nextStartTime < outputAudioContext.currentTime) {
-                    if (turnAudioDuration === 0) {
-                      turnStartTime = outputAudioContext.currentTime;
-                      nextStartTime = outputAudioContext.currentTime;
-                    } else {
-                      const gap = outputAudioContext.currentTime - nextStartTime;
-                      if (gap > 0) turnStartTime += gap;
-                      nextStartTime = outputAudioContext.currentTime;
-                    }
-                  }
-
-                  const source = outputAudioContext.createBufferSource();
-                  source.buffer = audioBuffer;
-                  source.connect(outputNode);
-                  
-                  source.addEventListener('ended', () => {
-                    sourcesRef.current.delete(source);
-                  });
-                  source.start(nextStartTime);
-                  nextStartTime += audioBuffer.duration;
-                  sourcesRef.current.add(source);
-                  
-                  turnAudioDuration += audioBuffer.duration;
-                } catch(e) {
-                  console.error("Audio playback error", e);
-                }
-              }
-
-              if (message.serverContent?.interrupted) {
-                turnWords = [];
-                turnAudioDuration = 0;
-                turnStartTime = 0;
-                previousStateKey = '';
-                setKineticText({ words: [], activeIndex: -1 });
-                for (const source of sourcesRef.current.values()) {
-                  source.stop();
-                  sourcesRef.current.delete(source);
-                }
-                nextStartTime = 0;
-              }
+            onmessage: (message) => {
+              liveMessages?.handle(message);
             },
             onerror: (e: ErrorEvent) => {
               console.error('AI Live Error:', e);
-              setStatus('Connection Error.');
+              machine.dispatch({ type: 'failed', message: 'Connection error' });
+            },
+            onreconnecting: (attempt) => {
+              machine.dispatch({ type: 'connection-lost', attempt });
+            },
+            onreconnected: () => {
+              machine.dispatch({ type: 'opened' });
             },
             onclose: () => {
-              setStatus('Disconnected.');
+              machine.dispatch({ type: 'closed', reason: isLive ? 'disconnected' : 'replay-finished' });
+            },
+            onreplaytext: logTypedMessage,
+            // Recorded user speech, played back on the mic context so the replay sounds like the original
+            onreplayinput: async (media) => {
+              try {
+                const rate = Number(/rate=(\d+)/.exec(media.mimeType ?? '')?.[1]) || inputAudioContext.sampleRate;
+                const buffer = await decodeAudioData(decode(media.data ?? ''), inputAudioContext, rate, 1);
+                const source = inputAudioContext.createBufferSource();
+                source.buffer = buffer;
+                source.connect(inputAudioContext.destination);
+                if (inputAnalyser) source.connect(inputAnalyser);
+                nextInputStartTime = Math.max(nextInputStartTime, inputAudioContext.currentTime);
+                source.start(nextInputStartTime);
+                nextInputStartTime += buffer.duration;
+              } catch (e) {
+                console.error("Replay input playback error", e);
+              }
             }
           },
           config: {
             responseModalities: [Modality.AUDIO],
+            inputAudioTranscription: {},
             outputAudioTranscription: {}, 
-            systemInstruction: 'You are a cosmic, glowing sentient galaxy. Speak naturally in a conversational tone. Keep your sentences punchy.',
-            speechConfig: {
-              voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } }
-            }
+            ...liveConfigFor(settings),
+            tools: [galaxyTool(themesRef.current)],
           }
         });
 
+        sessionRef.current = sessionPromise;
+        sendTextRef.current = (text) => {
+          logTypedMessage(text);
+          sessionPromise.then(s => s.sendClientContent(textTurn(text))).catch(() => {});
+        };
         sessionCloseFunc = () => {
           sessionPromise.then(s => s.close()).catch(console.error);
         };
       } catch (err: any) {
         console.error("Setup failed:", err);
-        setStatus(`Error: ${err.message || 'Check console'}`);
+        machine.dispatch({ type: 'failed', message: err.message || 'Check console' });
       }
     };
 
@@ -443,106 +624,141 @@ export default function GalaxyScene() {
 
     let animationFrameId: number;
     const clock = new THREE.Clock();
+    let statsFrames = 0;
+    let statsElapsed = 0;
+    let frameSeconds = 1 / 60;
 
     const render = () => {
       animationFrameId = requestAnimationFrame(render);
-      const delta = Math.min(clock.getDelta(), 0.1); 
+      const frameDelta = clock.getDelta();
+      const delta = Math.min(frameDelta, 0.1); 
+
+      const nextLevel = governor?.update(frameDelta);
+      if (nextLevel) applyLevel(nextLevel);
+      frameSeconds += (frameDelta - frameSeconds) * 0.05;
+      galaxy.update(delta);
       const time = clock.getElapsedTime();
 
       uniforms.uTime.value = time;
 
-      let currentVolume = 0;
-      if (analyserRef.current && dataArray) {
+      let avgVolume = 0;
+      let features = SILENT_FEATURES;
+      if (analyserRef.current && dataArray && bandAnalyzer) {
         analyserRef.current.getByteFrequencyData(dataArray);
-        let sum = 0;
-        for (let i = 0; i < dataArray.length; i++) { sum += dataArray[i]; }
-        const avgVolume = sum / dataArray.length;
-
-        const noiseGate = 3; 
-        const maxVol = 60; 
+        avgVolume = averageMagnitude(dataArray);
+        features = bandAnalyzer.analyze(dataArray, delta);
+      }
+      uniforms.uVolume.value = smoothVolume(uniforms.uVolume.value, gateVolume(avgVolume), delta);
+      applyAudioFeatures(uniforms, features);
 
-        if (avgVolume > noiseGate) {
-          currentVolume = (avgVolume - noiseGate) / (maxVol - noiseGate);
-          currentVolume = Math.min(1.0, Math.max(0.0, currentVolume));
-        }
+      let userVolume = 0;
+      if (inputAnalyser && inputDataArray) {
+        inputAnalyser.getByteFrequencyData(inputDataArray);
+        userVolume = averageMagnitude(inputDataArray);
       }
-      
-      const lerpSpeed = currentVolume > uniforms.uVolume.value ? 16.0 : 4.0;
-      uniforms.uVolume.value += (currentVolume - uniforms.uVolume.value) * lerpSpeed * delta;
+      // Speech the gate holds back isn't the user's turn, however loud
+      const userSpeaking = vad.update(userVolume, delta) && (isReplay || gateOpen());
+      meterLevel = smoothVolume(meterLevel, gateVolume(userVolume), delta);
+      if (levelMeterRef.current) levelMeterRef.current.style.transform = `scaleX(${meterLevel.toFixed(3)})`;
 
       const isPlaying = sourcesRef.current.size > 0;
-      
-      if (isPlaying) {
-         if (turnAudioDuration > 0 && outputAudioCtxRef.current && turnWords.length > 0) {
-             let elapsed = outputAudioCtxRef.current.currentTime - turnStartTime;
-             elapsed = Math.max(0, Math.min(elapsed, turnAudioDuration));
+      const state = machine.updateAudio(time, isPlaying, userSpeaking);
+      const aiSpeaking = state.kind === 'ai-speaking';
 
-             const rawWps = turnWords.length / Math.max(0.1, turnAudioDuration);
-             const smoothedWps = Math.min(Math.max(rawWps, 2.0), 6.0); 
-             
-             let activeWordAbsolute = Math.floor(elapsed * smoothedWps);
-             activeWordAbsolute = Math.min(activeWordAbsolute, turnWords.length - 1);
+      // Only visualise speech the session accepts as the user's turn, so room noise and echo don't make the galaxy twitch
+      const userTurn = state.kind === 'user-speaking';
+      uniforms.uUserVolume.value = smoothVolume(uniforms.uUserVolume.value, userTurn ? gateVolume(userVolume) : 0, delta);
+      
+      if (aiSpeaking) {
+         const outputCtx = outputAudioCtxRef.current;
+         const activity = speechActivity.update(avgVolume, delta);
+         if (outputCtx && timeline.words.length > 0) {
+             // Scheduled times are when samples leave the graph; the listener hears them outputLatency later
+             const heardTime = outputCtx.currentTime - (outputCtx.outputLatency || 0);
+             activeWord = resolveActiveWord(timeline.timings, heardTime, activeWord, activity);
              
-             if (activeWordAbsolute >= 0) {
-                 const CHUNK_SIZE = 5;
-                 const chunkIndex = Math.floor(activeWordAbsolute / CHUNK_SIZE);
-                 const activeWordIndexInChunk = activeWordAbsolute % CHUNK_SIZE;
-                 
-                 const chunkWords = turnWords.slice(chunkIndex * CHUNK_SIZE, (chunkIndex + 1) * CHUNK_SIZE);
-                 
-                 const stateKey = `${chunkIndex}-${activeWordIndexInChunk}`;
-                 if (stateKey !== previousStateKey) {
-                     previousStateKey = stateKey;
+             if (activeWord >= 0) {
+                 const { key, ...chunk } = viewAt(timeline.words, activeWord);
+                 if (key !== previousStateKey) {
+                     previousStateKey = key;
                      // Sync exactly with the React state
-                     setKineticText({ words: chunkWords, activeIndex: activeWordIndexInChunk });
+                     setKineticText(chunk);
+                     announce(timeline.words);
                  }
              }
          }
 
          if (!aiWasPlayingRef.current) {
              aiWasPlayingRef.current = true;
-             setStatus('AI is speaking...');
              if (clearTextTimeoutRef.current) {
                  window.clearTimeout(clearTextTimeoutRef.current);
                  clearTextTimeoutRef.current = null;
              }
          }
-      } else if (!isPlaying && aiWasPlayingRef.current) {
+      } else if (aiWasPlayingRef.current) {
          aiWasPlayingRef.current = false;
-         setStatus('Listening...');
          
          // Settle final word color state
+         const turnWords = timeline.words;
          if (turnWords.length > 0) {
-             const CHUNK_SIZE = 5;
-             const chunkIndex = Math.floor((turnWords.length - 1) / CHUNK_SIZE);
-             const finalWordIndexInChunk = (turnWords.length - 1) % CHUNK_SIZE;
-             const chunkWords = turnWords.slice(chunkIndex * CHUNK_SIZE, (chunkIndex + 1) * CHUNK_SIZE);
-             
-             const stateKey = `${chunkIndex}-${finalWordIndexInChunk}`;
-             if (stateKey !== previousStateKey) {
-                 previousStateKey = stateKey;
-                 setKineticText({ words: chunkWords, activeIndex: finalWordIndexInChunk });
+             activeWord = turnWords.length - 1;
+             const { key, ...chunk } = viewAt(turnWords, activeWord);
+             if (key !== previousStateKey) {
+                 previousStateKey = key;
+                 setKineticText(chunk);
              }
+             announce(turnWords, true);
          }
          
          clearTextTimeoutRef.current = window.setTimeout(() => {
              if (sourcesRef.current.size === 0) {
-                 turnWords = [];
-                 turnAudioDuration = 0;
-                 turnStartTime = 0;
-                 previousStateKey = '';
-                 setKineticText({ words: [], activeIndex: -1 });
+                 resetTurn();
+                 setKineticText(EMPTY_KINETIC_TEXT);
              }
-         }, 3500);
-      } else if (!isPlaying && status !== 'Listening...' && status.includes('Connected')) {
-         setStatus('Listening...');
+         }, KINETIC_LINGER_MS);
       }
 
-      renderer.render(scene, camera);
+      cameraRig.update(delta, { state: state.kind, loudness: uniforms.uVolume.value });
+      simulation?.step(delta);
+      post.render(delta);
+
+      statsFrames += 1;
+      statsElapsed += frameDelta;
+      if (statsElapsed >= STATS_INTERVAL_SECONDS) {
+        if (showStatsRef.current) {
+          setStats({
+            fps: statsFrames / statsElapsed,
+            frameMs: frameSeconds * 1000,
+            particles: galaxy.particleCount,
+            pixelRatio: renderer.getPixelRatio(),
+            antialias: renderer.getContextAttributes()?.antialias ?? false,
+            drawCalls: renderer.info.render.calls,
+            effects: effectNames(post.effects),
+            simulated: simulation !== null,
+            level,
+          });
+        }
+        statsFrames = 0;
+        statsElapsed = 0;
+      }
     };
 
     render();
 
+    // Nothing to see in a hidden tab; audio and the session carry on, and the HUD catches up on return
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        cancelAnimationFrame(animationFrameId);
+        return;
+      }
+      // The hidden stretch isn't a slow frame
+      clock.getDelta();
+      governor?.reset();
+      cancelAnimationFrame(animationFrameId);
+      render();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
     const handleResize = () => {
       if (!containerRef.current) return;
       width = containerRef.current.clientWidth || window.innerWidth;
@@ -550,77 +766,278 @@ export default function GalaxyScene() {
       camera.aspect = width / height;
       camera.updateProjectionMatrix();
       renderer.setSize(width, height);
+      post.setSize(width, height);
     };
     window.addEventListener('resize', handleResize);
 
     return () => {
+      disposed = true;
       window.removeEventListener('resize', handleResize);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
       cancelAnimationFrame(animationFrameId);
       
       if (clearTextTimeoutRef.current) window.clearTimeout(clearTextTimeoutRef.current);
+      unsubscribeTranscript();
+      unsubscribeSession();
+      if (micCapture) micCapture.stop();
       if (sessionCloseFunc) sessionCloseFunc();
       if (streamRef.current) streamRef.current.getTracks().forEach(track => track.stop());
       if (inputAudioCtxRef.current && inputAudioCtxRef.current.state !== 'closed') inputAudioCtxRef.current.close();
       if (outputAudioCtxRef.current && outputAudioCtxRef.current.state !== 'closed') outputAudioCtxRef.current.close();
 
-      geometry.dispose();
-      material.dispose();
-      renderer.dispose();
-      if (containerRef.current && containerRef.current.contains(renderer.domElement)) {
-        containerRef.current.removeChild(renderer.domElement);
-      }
+      galaxy.dispose();
+      galaxyRef.current = null;
+      sessionRef.current = null;
+      sendTextRef.current = null;
+      talkRef.current = null;
+      switchMicRef.current = null;
+      micGainRef.current = null;
+      applyQualityRef.current = null;
+      cameraRig.dispose();
+      cameraRigRef.current = null;
+      fieldInteraction.dispose();
+      fieldInteractionRef.current = null;
+      post.dispose();
+      simulation?.dispose();
+      disposeRenderer(renderer);
     };
   }, []);
 
+  // Theme changes cross-fade in place; the galaxy itself is never rebuilt
+  useEffect(() => {
+    if (galaxyRef.current && galaxyRef.current.theme !== theme) galaxyRef.current.applyTheme(theme);
+  }, [theme]);
+
+  // An owner passing a mapping takes over from the panel's
+  useEffect(() => {
+    if (initialReactivity) setReactivity(initialReactivity);
+  }, [initialReactivity]);
+
+  useEffect(() => {
+    saveReactivityMapping(reactivity);
+    if (galaxyRef.current && galaxyRef.current.reactivity !== reactivity) galaxyRef.current.setReactivity(reactivity);
+  }, [reactivity]);
+
+  useEffect(() => {
+    saveQualityPreference(qualityPreference);
+  }, [qualityPreference]);
+
+  useEffect(() => {
+    applyQualityRef.current?.(quality);
+  }, [quality]);
+
+  useEffect(() => {
+    if (!showStats) setStats(null);
+  }, [showStats]);
+
+  useEffect(() => {
+    saveCameraPreference(cameraPreference);
+    cameraRigRef.current?.setMode(cameraPreference.mode);
+    cameraRigRef.current?.setRange(cameraPreference.range);
+  }, [cameraPreference]);
+
+  useEffect(() => {
+    saveTypographyPreference(typographyPreference);
+  }, [typographyPreference]);
+
+  // Particle typography follows the same chunks, active word, font and case as the overlay
+  useEffect(() => {
+    const galaxy = galaxyRef.current;
+    if (!galaxy) return;
+    const { rendering, font, uppercase } = typographyPreference;
+    const particles = rendering === 'particles';
+    galaxy.spellWords(particles ? kineticText.words : [], { fontFamily: kineticFontFamily(font, theme.typography), uppercase }, reducedMotion);
+    galaxy.setActiveWord(particles ? kineticText.activeIndex : -1);
+  }, [kineticText, typographyPreference.rendering, typographyPreference.font, typographyPreference.uppercase, theme, reducedMotion]);
+
+  useEffect(() => watchReducedMotion(setReducedMotion), []);
+
+  useEffect(() => {
+    saveStirPreference(stirPreference);
+    fieldInteractionRef.current?.setMode(stirPreference.mode);
+  }, [stirPreference]);
+
+  // --- Audio Devices ---
+  useEffect(() => watchAudioDevices(setDevices), []);
+
+  // A chosen device that was unplugged falls back to the default
+  useEffect(() => {
+    if (inputDeviceId && devices.inputs.length > 0 && !devices.inputs.some(d => d.deviceId === inputDeviceId)) setInputDeviceId(DEFAULT_DEVICE_ID);
+    if (outputDeviceId && devices.outputs.length > 0 && !devices.outputs.some(d => d.deviceId === outputDeviceId)) setOutputDeviceId(DEFAULT_DEVICE_ID);
+  }, [devices]);
+
+  useEffect(() => {
+    switchMicRef.current?.(inputDeviceId);
+  }, [inputDeviceId]);
+
+  useEffect(() => {
+    for (const ctx of [inputAudioCtxRef.current, outputAudioCtxRef.current]) {
+      if (ctx && ctx.state !== 'closed') setOutputDevice(ctx, outputDeviceId).catch(err => console.warn('Could not switch speaker:', err));
+    }
+  }, [outputDeviceId]);
+
+  useEffect(() => {
+    const gain = micGainRef.current;
+    if (gain) gain.gain.setTargetAtTime(muted ? 0 : inputGain, gain.context.currentTime, 0.02);
+  }, [inputGain, muted]);
+
+  // --- Push-to-talk ---
+  useEffect(() => {
+    if (!isPushToTalk || isReplay) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isTypingTarget(event.target)) return;
+      // Space would otherwise scroll or click the focused button
+      event.preventDefault();
+      if (!event.repeat) talkRef.current?.press();
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') talkRef.current?.release();
+    };
+    // A key held while the window loses focus never reports its keyup
+    const handleBlur = () => talkRef.current?.release();
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [isPushToTalk, isReplay]);
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording) {
+      downloadRecording(recorder.stop());
+      setIsRecording(false);
+    } else {
+      recorder.start();
+      setIsRecording(true);
+    }
+  };
+
   return (
-    <div className="relative w-full h-full bg-[#050510]">
+    <div className="relative w-full h-full transition-colors duration-1000" style={{ backgroundColor: theme.background }}>
       {/* 3D Galaxy Canvas */}
       <div ref={containerRef} className="absolute top-0 left-0 w-full h-full" />
       
       {/* Razor-Sharp HTML Typography Overlay */}
-      {kineticText.words.length > 0 && (
-        <div className="absolute inset-0 flex items-center justify-center pointer-events-none p-8 z-20">
-          <div className="flex flex-wrap justify-center items-center gap-x-5 gap-y-4 max-w-6xl">
-            {kineticText.words.map((word, i) => {
-              const isActive = i === kineticText.activeIndex;
-              const isSpoken = i < kineticText.activeIndex;
-              
-              return (
-                <span
-                  key={`${word}-${i}`}
-                  className={`font-black uppercase text-[5.4vw] md:text-[72px] leading-none tracking-tighter transition-all duration-75 ease-out ${
-                    isActive 
-                      ? 'text-[#FFD54F] scale-110 z-10 opacity-100' // Warm amber / soft gold
-                      : isSpoken 
-                        ? 'text-[#F8F9FA] scale-100 opacity-90' // Soft white
-                        : 'text-[#F8F9FA] scale-95 opacity-40' // Translucent soft white for upcoming words
-                  }`}
-                  style={{ 
-                    fontFamily: '"Merienda", cursive',
-                    // Heavy drop shadow for perfect readability over dark backgrounds
-                    textShadow: '0px 12px 35px rgba(0,0,0,1), 0px 5px 15px rgba(0,0,0,0.9), 0px 0px 10px rgba(0,0,0,0.8)'
-                  }}
-                >
-                  {word}
-                </span>
-              );
-            })}
-          </div>
-        </div>
+      {kineticText.words.length > 0 && typographyPreference.rendering === 'overlay' && (
+        <KineticOverlay
+          text={kineticText}
+          preference={typographyPreference}
+          typography={theme.typography}
+          reducedMotion={reducedMotion}
+        />
       )}
 
+      {/* Screen readers hear the AI's speech whichever way the words are shown */}
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      <TranscriptPanel entries={transcriptEntries} />
+
+      {/* Text Chat */}
+      {!isReplay && (
+        <ChatInput
+          enabled={isConversing(session) || session.kind === 'reconnecting'}
+          onSend={(text) => sendTextRef.current?.(text)}
+          placeholder={textOnly ? 'No microphone - type to talk...' : 'Or type a message...'}
+        />
+      )}
+
+      {/* Camera / Screen Share */}
+      {!isReplay && (
+        <VideoSharePanel
+          active={session.kind !== 'closed' && session.kind !== 'error'}
+          onFrame={(video) => sessionRef.current?.then(s => s.sendRealtimeInput({ video })).catch(() => {})}
+          onTint={(colors) => galaxyRef.current?.setTint(colors)}
+        />
+      )}
+
+      {/* Session Recorder, Audio Devices & Render Quality */}
+      <div className="absolute top-6 left-6 z-50 flex items-start gap-2">
+        {!isReplay && (
+          <>
+            <button
+              onClick={toggleRecording}
+              className="flex items-center gap-2 bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[#2a1a3a]/60 text-[#F8F9FA] font-mono text-xs uppercase tracking-widest hover:border-[#FFD54F]/60 transition-colors"
+              title={isRecording ? 'Stop and download the recording' : 'Record this session for replay'}
+            >
+              <span className={`w-2.5 h-2.5 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'bg-red-500/50'}`}></span>
+              {isRecording ? 'Stop & Save' : 'Record'}
+            </button>
+            <AudioDevicePanel
+              devices={devices}
+              inputDeviceId={inputDeviceId}
+              outputDeviceId={outputDeviceId}
+              onInputDevice={setInputDeviceId}
+              onOutputDevice={setOutputDeviceId}
+              inputGain={inputGain}
+              onInputGain={setInputGain}
+              muted={muted}
+              onMuted={setMuted}
+              levelMeterRef={levelMeterRef}
+              hasMicrophone={hasMicrophone}
+            />
+          </>
+        )}
+        <CameraPanel
+          preference={cameraPreference}
+          onChange={setCameraPreference}
+          onResetView={() => cameraRigRef.current?.resetView()}
+        />
+        <TypographyPanel preference={typographyPreference} onChange={setTypographyPreference} reducedMotion={reducedMotion} />
+        <ReactivityPanel mapping={reactivity} onChange={setReactivity} />
+        <StirPanel
+          preference={stirPreference}
+          onChange={setStirPreference}
+          onHands={(hands) => fieldInteractionRef.current?.setHands(hands)}
+        />
+        <QualityPanel
+          quality={quality}
+          activeLevel={activeLevel}
+          onQuality={(next) => setQualityPreference(current => ({ ...current, quality: next }))}
+          showStats={showStats}
+          onShowStats={(show) => setQualityPreference(current => ({ ...current, showStats: show }))}
+        />
+      </div>
+
+      {stats && <StatsOverlay stats={stats} />}
+
       {/* HUD / Status Overlay */}
-      <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 flex flex-col items-center pointer-events-none z-30">
+      <div className="absolute bottom-8 left-1/2 transform -translate-x-1/2 flex items-center gap-3 pointer-events-none z-30">
         <div className="flex items-center gap-3 bg-[#0a0a1a]/80 backdrop-blur-md px-6 py-3 rounded-full border border-[#2a1a3a]/60 shadow-[0_0_20px_rgba(0,0,0,0.8)]">
-          <div className={`w-3 h-3 rounded-full ${
-            status.includes('Listening') ? 'bg-purple-500 animate-pulse' : 
-            status.includes('speaking') ? 'bg-[#FFD54F] animate-bounce' : 
-            status.includes('Error') ? 'bg-red-500' : 'bg-gray-400 animate-pulse'
-          }`}></div>
+          <div className={`w-3 h-3 rounded-full ${HUD_INDICATOR[session.kind]}`}></div>
           <p className="text-[#F8F9FA] font-mono text-sm uppercase tracking-widest whitespace-nowrap">
-            {status}
+            {describeSessionState(session, { replay: isReplay })}
           </p>
+          {!isReplay && hasMicrophone && (
+            <span className="pl-3 border-l border-[#2a1a3a] text-gray-400 font-mono text-[11px] uppercase tracking-wider whitespace-nowrap">
+              {talkModeLabel(settings)}
+            </span>
+          )}
         </div>
+        {!isReplay && hasMicrophone && isPushToTalk && (
+          <button
+            onPointerDown={(e) => {
+              // Keep the pointer so sliding off the button still counts as letting go
+              e.currentTarget.setPointerCapture(e.pointerId);
+              talkRef.current?.press();
+            }}
+            onPointerUp={() => talkRef.current?.release()}
+            onPointerCancel={() => talkRef.current?.release()}
+            aria-pressed={talking}
+            className={`pointer-events-auto select-none touch-none px-5 py-3 rounded-full border font-mono text-xs uppercase tracking-widest transition-colors ${
+              talking
+                ? 'bg-cyan-400 border-cyan-300 text-black'
+                : 'bg-[#1a082a] border-[#2a183a] text-[#F8F9FA] hover:border-[#FFD54F]/60'
+            }`}
+          >
+            {talking ? 'Listening...' : 'Hold to talk'}
+          </button>
+        )}
       </div>
     </div>
   );
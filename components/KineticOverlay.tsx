@@ -0,0 +1,120 @@
+import React from 'react';
+import type { GalaxyTheme } from '../scene/themes';
+import type { KineticText } from '../services/teleprompter/kinetic';
+import { kineticFontFamily, TypographyPreference } from '../services/teleprompter/typography';
+
+interface KineticOverlayProps {
+  text: KineticText;
+  preference: TypographyPreference;
+  typography: GalaxyTheme['typography'];
+  /** Drops the scale pops and transitions. */
+  reducedMotion: boolean;
+}
+
+// Each layout's text size at a size multiplier of 1
+const BASE_FONT_SIZE = {
+  centred: 'clamp(28px, 5.4vw, 72px)',
+  flash: 'clamp(48px, 10vw, 144px)',
+  karaoke: 'clamp(24px, 4vw, 56px)',
+  captions: 'clamp(18px, 2.6vw, 34px)',
+};
+
+// Heavy drop shadow for perfect readability over dark backgrounds
+const TEXT_SHADOW = '0px 12px 35px rgba(0,0,0,1), 0px 5px 15px rgba(0,0,0,0.9), 0px 0px 10px rgba(0,0,0,0.8)';
+// High contrast: pure white on solid black, the active word in yellow and underlined so it doesn't rely on colour alone
+const HIGH_CONTRAST = { textColor: '#FFFFFF', activeColor: '#FFEB3B' };
+
+/** The teleprompter's words as crisp HTML over the canvas, in the chosen layout. */
+export default function KineticOverlay({ text, preference, typography, reducedMotion }: KineticOverlayProps) {
+  const { layout, font, size, contrast, uppercase } = preference;
+  const highContrast = contrast === 'high';
+  const colors = highContrast ? HIGH_CONTRAST : typography;
+  const captions = layout === 'captions';
+
+  const renderWord = (word: string, i: number) => {
+    const isActive = i === text.activeIndex;
+    const isSpoken = i < text.activeIndex;
+    let emphasis = '';
+    if (!reducedMotion && !captions) {
+      emphasis = isActive ? 'scale-110 z-10' : isSpoken ? 'scale-100' : 'scale-95';
+    }
+    // Upcoming words stay translucent, except where contrast matters more than anticipation
+    const opacity = isActive || highContrast ? 'opacity-100' : isSpoken ? 'opacity-90' : captions ? 'opacity-70' : 'opacity-40';
+
+    return (
+      <span
+        key={`${word}-${i}`}
+        className={`inline-block ${emphasis} ${opacity} ${reducedMotion ? '' : 'transition-all duration-75 ease-out'} ${
+          highContrast && isActive ? 'underline decoration-[0.08em] underline-offset-[0.15em]' : ''
+        }`}
+        style={{ color: isActive ? colors.activeColor : colors.textColor }}
+      >
+        {word}
+      </span>
+    );
+  };
+
+  const textStyle = {
+    fontFamily: kineticFontFamily(font, typography),
+    fontSize: `calc(${BASE_FONT_SIZE[layout]} * ${size})`,
+    textShadow: highContrast ? 'none' : TEXT_SHADOW,
+  };
+  const textClass = `${uppercase ? 'uppercase' : 'normal-case'} ${
+    captions || highContrast ? 'font-bold tracking-normal' : 'font-black tracking-tighter'
+  } leading-tight`;
+  const backing = highContrast ? 'bg-black rounded-lg px-6 py-4' : '';
+
+  // Screen readers get the speech from the live region instead, a sentence at a time
+  switch (layout) {
+    case 'karaoke': {
+      const spoken = text.words.slice(0, text.activeIndex);
+      const upcoming = text.words.slice(text.activeIndex + 1);
+      return (
+        <div aria-hidden="true" className="absolute inset-0 flex items-center justify-center pointer-events-none z-20">
+          <div
+            className={`w-full grid grid-cols-[1fr_auto_1fr] items-baseline gap-x-[0.35em] whitespace-nowrap ${textClass} ${highContrast ? 'bg-black py-4' : ''}`}
+            style={textStyle}
+          >
+            {/* The line scrolls through a fixed centre; older words run off the left edge */}
+            <div className="flex justify-end gap-x-[0.35em] overflow-hidden [mask-image:linear-gradient(to_right,transparent,black_40%)]">
+              {spoken.map(renderWord)}
+            </div>
+            {text.activeIndex >= 0 && renderWord(text.words[text.activeIndex], text.activeIndex)}
+            <div className="flex justify-start gap-x-[0.35em] overflow-hidden [mask-image:linear-gradient(to_left,transparent,black_40%)]">
+              {upcoming.map((word, i) => renderWord(word, text.activeIndex + 1 + i))}
+            </div>
+          </div>
+        </div>
+      );
+    }
+    case 'captions':
+      // The bottom third, clear of the chat box and status bar
+      return (
+        <div aria-hidden="true" className="absolute inset-x-0 bottom-40 flex justify-center pointer-events-none px-8 z-20">
+          <p
+            className={`max-w-4xl text-center rounded-lg px-6 py-3 ${highContrast ? 'bg-black' : 'bg-[#0a0a1a]/75 backdrop-blur-sm'} ${textClass}`}
+            style={textStyle}
+          >
+            {text.words.map((word, i) => (
+              <React.Fragment key={`${word}-${i}`}>
+                {i > 0 && ' '}
+                {renderWord(word, i)}
+              </React.Fragment>
+            ))}
+          </p>
+        </div>
+      );
+    default:
+      // Centred chunks, or a single flashed word
+      return (
+        <div aria-hidden="true" className="absolute inset-0 flex items-center justify-center pointer-events-none p-8 z-20">
+          <div
+            className={`flex flex-wrap justify-center items-center gap-x-[0.3em] gap-y-[0.2em] max-w-6xl ${textClass} ${backing}`}
+            style={textStyle}
+          >
+            {text.words.map(renderWord)}
+          </div>
+        </div>
+      );
+  }
+}
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { QUALITY_LEVELS, QualityLevel, QualitySetting } from '../scene/quality';
+
+interface QualityPanelProps {
+  quality: QualitySetting;
+  /** The preset actually rendering; differs from `quality` in auto mode. */
+  activeLevel: QualityLevel;
+  onQuality: (quality: QualitySetting) => void;
+  showStats: boolean;
+  onShowStats: (show: boolean) => void;
+}
+
+const FIELD_LABEL = 'block mb-1 text-[11px] text-gray-400 tracking-widest uppercase';
+const PILL = 'px-3 py-1 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black transition-colors';
+
+const OPTIONS: QualitySetting[] = ['auto', ...QUALITY_LEVELS];
+
+export default function QualityPanel({ quality, activeLevel, onQuality, showStats, onShowStats }: QualityPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-controls="quality-panel"
+        className="bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[#2a1a3a]/60 text-[#F8F9FA] font-mono text-xs uppercase tracking-widest hover:border-[#FFD54F]/60 transition-colors"
+      >
+        {quality === 'auto' ? `Auto · ${activeLevel}` : quality}
+      </button>
+
+      {isOpen && (
+        <div
+          id="quality-panel"
+          className="absolute top-full left-0 mt-2 w-64 bg-[#0a0a1a]/90 backdrop-blur-md border border-[#2a1a3a]/60 rounded-xl p-4 shadow-[0_0_30px_rgba(0,0,0,0.8)]"
+        >
+          <span className={FIELD_LABEL}>Quality</span>
+          <div className="flex flex-wrap gap-2">
+            {OPTIONS.map(option => (
+              <button
+                key={option}
+                onClick={() => onQuality(option)}
+                aria-pressed={option === quality}
+                className={`${PILL} ${option === quality ? 'border-[#FFD54F]/80 text-[#FFD54F]' : ''}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+            Auto lowers particles, resolution, antialiasing and effects when frames run slow.
+          </p>
+
+          <label className="mt-3 flex items-center gap-2 cursor-pointer font-mono text-[11px] uppercase tracking-wider text-gray-300">
+            <input type="checkbox" checked={showStats} onChange={e => onShowStats(e.target.checked)} className="accent-[#FFD54F]" />
+            Show FPS &amp; stats
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_REACTIVITY,
+  REACTIVITY_SOURCE_LABELS,
+  REACTIVITY_SOURCES,
+  REACTIVITY_TARGETS,
+  ReactivityMapping,
+  ReactivitySource,
+} from '../scene/reactivity';
+
+interface ReactivityPanelProps {
+  mapping: ReactivityMapping;
+  onChange: (mapping: ReactivityMapping) => void;
+}
+
+const FIELD_LABEL = 'block mb-1 text-[11px] text-gray-400 tracking-widest uppercase';
+const PILL = 'px-3 py-1 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black transition-colors';
+const SELECT = 'w-full bg-[#0a0a1a] border border-[#2a183a] rounded-md px-2 py-1.5 text-xs text-[#F8F9FA] focus:outline-none focus:border-[#FFD54F]/60 disabled:opacity-40';
+
+export default function ReactivityPanel({ mapping, onChange }: ReactivityPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-controls="reactivity-panel"
+        className="bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[#2a1a3a]/60 text-[#F8F9FA] font-mono text-xs uppercase tracking-widest hover:border-[#FFD54F]/60 transition-colors"
+      >
+        Reactivity
+      </button>
+
+      {isOpen && (
+        <div
+          id="reactivity-panel"
+          className="absolute top-full left-0 mt-2 w-72 bg-[#0a0a1a]/90 backdrop-blur-md border border-[#2a1a3a]/60 rounded-xl p-4 shadow-[0_0_30px_rgba(0,0,0,0.8)]"
+        >
+          {REACTIVITY_TARGETS.map(({ target, label, hint }) => (
+            <label key={target} className="block mb-3" title={hint}>
+              <span className={FIELD_LABEL}>{label}</span>
+              <select
+                value={mapping[target]}
+                onChange={e => onChange({ ...mapping, [target]: e.target.value as ReactivitySource })}
+                className={SELECT}
+              >
+                {REACTIVITY_SOURCES.map(source => (
+                  <option key={source} value={source}>{REACTIVITY_SOURCE_LABELS[source]}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+
+          <button onClick={() => onChange(DEFAULT_REACTIVITY)} className={`${PILL} w-full`}>
+            Reset
+          </button>
+          <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+            Which part of the sound drives each response. Changing one recompiles the galaxy's shaders once.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
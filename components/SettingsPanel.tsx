@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import {
+  CUSTOM_PERSONA_ID,
+  LANGUAGES,
+  MODELS,
+  PERSONAS,
+  SessionSettings,
+  shareUrl,
+  systemInstructionFor,
+  TALK_MODES,
+  VAD_SENSITIVITIES,
+  VadSensitivity,
+  VOICES,
+} from '../services/settings/sessionSettings';
+
+interface SettingsPanelProps {
+  settings: SessionSettings;
+  /** Called with the edited settings; nothing changes until the user applies. */
+  onApply: (settings: SessionSettings) => void;
+  applyLabel?: string;
+  onCancel?: () => void;
+}
+
+const FIELD_LABEL = 'block mb-1 text-[11px] text-gray-400 tracking-widest uppercase';
+const INPUT = 'w-full bg-[#0a0a1a] border border-[#2a183a] rounded-md px-3 py-2 text-sm text-[#F8F9FA] focus:outline-none focus:border-[#FFD54F]/60';
+const PILL = 'px-3 py-1 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black disabled:opacity-30 disabled:pointer-events-none transition-colors';
+
+export default function SettingsPanel({ settings, onApply, applyLabel = 'Apply', onCancel }: SettingsPanelProps) {
+  const [draft, setDraft] = useState<SessionSettings>(settings);
+  const [copied, setCopied] = useState(false);
+
+  const update = <K extends keyof SessionSettings>(key: K, value: SessionSettings[K]) => {
+    setDraft(current => ({ ...current, [key]: value }));
+    setCopied(false);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(draft));
+      setCopied(true);
+    } catch (err) {
+      console.error("Couldn't copy share link:", err);
+    }
+  };
+
+  const isCustom = draft.personaId === CUSTOM_PERSONA_ID;
+  const isDirty = (Object.keys(draft) as (keyof SessionSettings)[]).some(key => draft[key] !== settings[key]);
+
+  return (
+    <div className="w-full max-w-md text-left bg-[#0a0a1a]/85 backdrop-blur-md border border-[#2a1a3a]/60 rounded-xl p-5 shadow-[0_0_30px_rgba(0,0,0,0.8)]">
+      <div className="grid grid-cols-2 gap-4">
+        <label>
+          <span className={FIELD_LABEL}>Voice</span>
+          <select value={draft.voice} onChange={e => update('voice', e.target.value)} className={INPUT}>
+            {VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className={FIELD_LABEL}>Language</span>
+          <select value={draft.language} onChange={e => update('language', e.target.value)} className={INPUT}>
+            {LANGUAGES.map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <label className="block mt-4">
+        <span className={FIELD_LABEL}>Model</span>
+        <select value={draft.model} onChange={e => update('model', e.target.value)} className={`${INPUT} font-mono text-xs`}>
+          {MODELS.map(model => (
+            <option key={model} value={model}>{model}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="grid grid-cols-[1fr_auto] gap-4 mt-4">
+        <div>
+          <span className={FIELD_LABEL}>Talk mode</span>
+          <div className="flex flex-wrap gap-2">
+            {TALK_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => update('talkMode', mode)}
+                aria-pressed={mode === draft.talkMode}
+                className={`${PILL} ${mode === draft.talkMode ? 'border-[#FFD54F]/80 text-[#FFD54F]' : ''}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <label>
+          <span className={FIELD_LABEL}>Speech detection</span>
+          {/* Push-to-talk turns the server's detection off, so sensitivity only matters otherwise */}
+          <select
+            value={draft.vadSensitivity}
+            onChange={e => update('vadSensitivity', e.target.value as VadSensitivity)}
+            disabled={draft.talkMode === 'push-to-talk'}
+            className={`${INPUT} capitalize disabled:opacity-40`}
+          >
+            {VAD_SENSITIVITIES.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="mt-4">
+        <span className={FIELD_LABEL}>Persona</span>
+        <div className="flex flex-wrap gap-2">
+          {PERSONAS.map(persona => (
+            <button
+              key={persona.id}
+              onClick={() => update('personaId', persona.id)}
+              aria-pressed={persona.id === draft.personaId}
+              className={`${PILL} ${persona.id === draft.personaId ? 'border-[#FFD54F]/80 text-[#FFD54F]' : ''}`}
+            >
+              {persona.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block mt-4">
+        <span className={FIELD_LABEL}>{isCustom ? 'System instruction' : 'Extra instructions'}</span>
+        <textarea
+          value={draft.customInstructions}
+          onChange={e => update('customInstructions', e.target.value)}
+          rows={3}
+          placeholder={isCustom ? 'Describe who the entity is and how it should talk.' : 'Optional, added to the persona.'}
+          className={`${INPUT} resize-y`}
+        />
+      </label>
+      <p className="mt-2 text-xs text-gray-500 leading-relaxed line-clamp-3" title={systemInstructionFor(draft)}>
+        {systemInstructionFor(draft)}
+      </p>
+
+      <div className="mt-5 flex items-center justify-between gap-2">
+        <button onClick={handleCopyLink} className={PILL}>
+          {copied ? 'Link copied' : 'Copy share link'}
+        </button>
+        <div className="flex gap-2">
+          {onCancel && <button onClick={onCancel} className={PILL}>Cancel</button>}
+          <button onClick={() => onApply(draft)} disabled={!isDirty} className={PILL}>
+            {applyLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
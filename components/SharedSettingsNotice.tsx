@@ -0,0 +1,66 @@
+import React from 'react';
+import {
+  LANGUAGES,
+  PERSONAS,
+  SETTING_LABELS,
+  SessionSettings,
+  TALK_MODES,
+} from '../services/settings/sessionSettings';
+
+interface SharedSettingsNoticeProps {
+  /** The link's settings that differ from the visitor's own. */
+  shared: Partial<SessionSettings>;
+  onApply: () => void;
+  onDismiss: () => void;
+}
+
+const PILL = 'px-3 py-1 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black transition-colors';
+
+const describe = (key: keyof SessionSettings, value: string) => {
+  switch (key) {
+    case 'personaId':
+      return PERSONAS.find(p => p.id === value)?.name ?? value;
+    case 'language':
+      return LANGUAGES.find(l => l.code === value)?.label ?? value;
+    case 'talkMode':
+      return TALK_MODES.find(t => t.mode === value)?.label ?? value;
+    case 'customInstructions':
+      return value || 'None';
+    default:
+      return value;
+  }
+};
+
+export default function SharedSettingsNotice({ shared, onApply, onDismiss }: SharedSettingsNoticeProps) {
+  const entries = (Object.keys(shared) as (keyof SessionSettings)[]).map(key => [key, shared[key] ?? ''] as const);
+
+  return (
+    <div
+      role="alertdialog"
+      aria-labelledby="shared-settings-title"
+      className="w-full max-w-md text-left bg-[#0a0a1a]/85 backdrop-blur-md border border-[#FFD54F]/40 rounded-xl p-5 mb-8 shadow-[0_0_30px_rgba(0,0,0,0.8)]"
+    >
+      <h2 id="shared-settings-title" className="text-xs text-[#FFD54F] tracking-widest uppercase mb-3">
+        Settings from this link
+      </h2>
+      <dl className="space-y-2 text-sm">
+        {entries.map(([key, value]) => (
+          <div key={key}>
+            <dt className="text-[11px] text-gray-400 tracking-widest uppercase">{SETTING_LABELS[key]}</dt>
+            {/* Instructions can run long and say anything; show them whole, but contained */}
+            <dd className={key === 'customInstructions' ? 'max-h-32 overflow-y-auto whitespace-pre-wrap text-gray-200' : 'text-gray-200'}>
+              {describe(key, value)}
+            </dd>
+          </div>
+        ))}
+      </dl>
+      <p className="mt-3 text-[11px] text-gray-500 leading-relaxed">
+        The link would replace your saved settings with these.
+      </p>
+      <div className="mt-4 flex justify-end gap-2">
+        <button onClick={onDismiss} className={PILL}>Keep mine</button>
+        <button onClick={onApply} className={`${PILL} border-[#FFD54F]/80 text-[#FFD54F]`}>Use these</button>
+      </div>
+    </div>
+  );
+}
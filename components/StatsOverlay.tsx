@@ -0,0 +1,44 @@
+import React from 'react';
+import type { QualityLevel } from '../scene/quality';
+
+export interface RenderStats {
+  fps: number;
+  /** Smoothed frame time in milliseconds. */
+  frameMs: number;
+  particles: number;
+  pixelRatio: number;
+  antialias: boolean;
+  drawCalls: number;
+  /** Post-processing effects the quality level allows. */
+  effects: string;
+  /** Particles moving in the GPU simulation rather than drawn stateless. */
+  simulated: boolean;
+  level: QualityLevel;
+}
+
+export default function StatsOverlay({ stats }: { stats: RenderStats }) {
+  const rows: [string, string][] = [
+    ['FPS', stats.fps.toFixed(0)],
+    ['Frame', `${stats.frameMs.toFixed(1)} ms`],
+    ['Particles', stats.particles.toLocaleString()],
+    ['Pixel ratio', stats.pixelRatio.toFixed(2)],
+    ['AA', stats.antialias ? 'on' : 'off'],
+    ['Draw calls', String(stats.drawCalls)],
+    ['Effects', stats.effects],
+    ['Simulation', stats.simulated ? 'gpu' : 'off'],
+    ['Quality', stats.level],
+  ];
+
+  return (
+    <div className="absolute top-6 left-1/2 -translate-x-1/2 z-40 pointer-events-none bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-lg border border-[#2a1a3a]/60 font-mono text-[11px] text-gray-300">
+      <dl className="grid grid-cols-[auto_auto] gap-x-4">
+        {rows.map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="uppercase tracking-wider text-gray-500">{label}</dt>
+            <dd className={`text-right tabular-nums ${label === 'FPS' && stats.fps < 45 ? 'text-orange-300' : 'text-[#F8F9FA]'}`}>{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    </div>
+  );
+}
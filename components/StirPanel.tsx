@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { STIR_MODES, StirPreference } from '../scene/fieldInteraction';
+import { HandTracker, startHandTracking, TrackedHand } from '../services/video/handTracking';
+
+interface StirPanelProps {
+  preference: StirPreference;
+  onChange: (preference: StirPreference) => void;
+  /** Hands seen by the webcam, every detection; empty when tracking stops. */
+  onHands: (hands: TrackedHand[]) => void;
+}
+
+const FIELD_LABEL = 'block mb-1 text-[11px] text-gray-400 tracking-widest uppercase';
+const PILL = 'px-3 py-1 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black transition-colors';
+
+type HandStatus = 'off' | 'loading' | 'tracking';
+
+export default function StirPanel({ preference, onChange, onHands }: StirPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [handTracking, setHandTracking] = useState(false);
+  const [status, setStatus] = useState<HandStatus>('off');
+  const [handCount, setHandCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const { mode } = preference;
+
+  // Read per detection, so re-renders don't restart (and re-prompt) the camera
+  const onHandsRef = useRef(onHands);
+  onHandsRef.current = onHands;
+
+  // No reason to keep the camera on while nothing stirs
+  useEffect(() => {
+    if (mode === 'off') setHandTracking(false);
+  }, [mode]);
+
+  useEffect(() => {
+    if (!handTracking) return;
+    let cancelled = false;
+    let tracker: HandTracker | null = null;
+    setStatus('loading');
+
+    startHandTracking((hands) => {
+      onHandsRef.current(hands);
+      setHandCount(hands.length);
+    }).then((started) => {
+      if (cancelled) {
+        started.stop();
+        return;
+      }
+      tracker = started;
+      setStatus('tracking');
+      setError(null);
+    }).catch((err) => {
+      if (cancelled) return;
+      console.error('Hand tracking failed:', err);
+      // Refusing the camera isn't worth an error message
+      if (err?.name !== 'NotAllowedError') setError(err.message || 'Could not start hand tracking.');
+      setHandTracking(false);
+    });
+
+    return () => {
+      cancelled = true;
+      tracker?.stop();
+      setStatus('off');
+      setHandCount(0);
+    };
+  }, [handTracking]);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-controls="stir-panel"
+        className="bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[#2a1a3a]/60 text-[#F8F9FA] font-mono text-xs uppercase tracking-widest hover:border-[#FFD54F]/60 transition-colors"
+      >
+        Stir{status === 'tracking' ? ` · ${handCount} ✋` : ''}
+      </button>
+
+      {isOpen && (
+        <div
+          id="stir-panel"
+          className="absolute top-full left-0 mt-2 w-72 bg-[#0a0a1a]/90 backdrop-blur-md border border-[#2a1a3a]/60 rounded-xl p-4 shadow-[0_0_30px_rgba(0,0,0,0.8)]"
+        >
+          <span className={FIELD_LABEL}>Pointer</span>
+          <div className="flex gap-2">
+            {STIR_MODES.map(option => (
+              <button
+                key={option.mode}
+                onClick={() => onChange({ ...preference, mode: option.mode })}
+                aria-pressed={option.mode === mode}
+                className={`${PILL} ${option.mode === mode ? 'border-[#FFD54F]/80 text-[#FFD54F]' : ''}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+            {mode === 'off'
+              ? 'The particles ignore the cursor.'
+              : `Move over the galaxy to ${mode === 'attract' ? 'gather' : 'part'} the particles · click or tap to send a ripple. Drags orbit the camera unless its range is 0.`}
+          </p>
+
+          <label className="mt-3 flex items-center gap-2 cursor-pointer font-mono text-[11px] uppercase tracking-wider text-gray-300">
+            <input
+              type="checkbox"
+              checked={handTracking}
+              onChange={e => setHandTracking(e.target.checked)}
+              disabled={mode === 'off'}
+              className="accent-[#FFD54F]"
+            />
+            Hand tracking
+            {status === 'loading' && <span className="text-gray-500 normal-case tracking-normal">loading model…</span>}
+          </label>
+          <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+            Stir with your hands in front of the webcam · pinch to ripple. Runs on this device; no video is sent.
+          </p>
+          {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
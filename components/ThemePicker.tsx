@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { downloadTheme, GalaxyTheme, parseTheme, THEME_FILE_EXTENSION } from '../scene/themes';
+
+interface ThemePickerProps {
+  themes: GalaxyTheme[];
+  selected: GalaxyTheme;
+  onSelect: (theme: GalaxyTheme) => void;
+  onImport: (theme: GalaxyTheme) => void;
+}
+
+// A theme's idle palette as a CSS gradient, weighted the way particles are
+const swatchGradient = (theme: GalaxyTheme) => {
+  const total = theme.idlePalette.reduce((sum, entry) => sum + entry.weight, 0) || 1;
+  let position = 0;
+  const stops = theme.idlePalette.flatMap(entry => {
+    const start = (position / total) * 100;
+    position += entry.weight;
+    const end = (position / total) * 100;
+    return [`${entry.from} ${start}%`, `${entry.to ?? entry.from} ${end}%`];
+  });
+  return `linear-gradient(135deg, ${stops.join(', ')})`;
+};
+
+export default function ThemePicker({ themes, selected, onSelect, onImport }: ThemePickerProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const theme = parseTheme(await file.text());
+      setError(null);
+      onImport(theme);
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Couldn't read that theme.");
+      console.error("Theme import error:", err);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center mb-10">
+      <div className="flex flex-wrap justify-center gap-3">
+        {themes.map(theme => (
+          <button
+            key={theme.id}
+            onClick={() => onSelect(theme)}
+            title={theme.name}
+            aria-pressed={theme.id === selected.id}
+            className={`w-10 h-10 rounded-full border-2 transition-all duration-300 hover:scale-110 ${
+              theme.id === selected.id ? 'border-white scale-110 shadow-[0_0_20px_rgba(255,255,255,0.35)]' : 'border-white/20'
+            }`}
+            style={{ background: swatchGradient(theme) }}
+          />
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-gray-400 tracking-widest uppercase">{selected.name}</p>
+      <div className="mt-2 flex gap-4 text-[11px] text-gray-500 tracking-widest uppercase">
+        <label className="cursor-pointer hover:text-[#FFD54F] transition-colors">
+          Import
+          <input type="file" accept={`${THEME_FILE_EXTENSION},application/json`} onChange={handleImport} className="hidden" />
+        </label>
+        <button onClick={() => downloadTheme(selected)} className="uppercase tracking-widest hover:text-[#FFD54F] transition-colors">
+          Export
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
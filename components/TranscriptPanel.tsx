@@ -0,0 +1,80 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TranscriptEntry } from '../services/transcript/transcript';
+import { downloadTranscript, formatClock, TranscriptFormat } from '../services/transcript/export';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+}
+
+const EXPORT_FORMATS: { format: TranscriptFormat; label: string }[] = [
+  { format: 'json', label: 'JSON' },
+  { format: 'md', label: 'Markdown' },
+  { format: 'srt', label: 'SRT' },
+];
+
+export default function TranscriptPanel({ entries }: TranscriptPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest line in view as the conversation streams in
+  useEffect(() => {
+    if (isOpen && listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [entries, isOpen]);
+
+  return (
+    <div className="absolute top-0 right-0 h-full flex items-start z-40 pointer-events-none">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="pointer-events-auto mt-6 mr-2 bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[#2a1a3a]/60 text-[#F8F9FA] font-mono text-xs uppercase tracking-widest hover:border-[#FFD54F]/60 transition-colors"
+        aria-expanded={isOpen}
+        aria-controls="transcript-panel"
+      >
+        {isOpen ? 'Hide' : 'Transcript'}{!isOpen && entries.length > 0 ? ` (${entries.length})` : ''}
+      </button>
+
+      {isOpen && (
+        <aside
+          id="transcript-panel"
+          className="pointer-events-auto h-full w-[22rem] max-w-[85vw] flex flex-col bg-[#0a0a1a]/85 backdrop-blur-md border-l border-[#2a1a3a]/60 shadow-[0_0_30px_rgba(0,0,0,0.8)]"
+        >
+          <div className="px-5 py-4 border-b border-[#2a1a3a]/60">
+            <h2 className="text-[#F8F9FA] font-mono text-sm uppercase tracking-widest">Transcript</h2>
+            <div className="flex gap-2 mt-3">
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <button
+                  key={format}
+                  onClick={() => downloadTranscript(entries, format)}
+                  disabled={entries.length === 0}
+                  className="px-3 py-1 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div ref={listRef} className="flex-1 overflow-y-auto px-5 py-4 space-y-4">
+            {entries.length === 0 ? (
+              <p className="text-gray-500 text-sm font-light">Nothing said yet.</p>
+            ) : (
+              entries.map(entry => (
+                <div key={entry.id}>
+                  <div className="flex items-center gap-2 mb-1 font-mono text-[11px] uppercase tracking-widest">
+                    <span className={entry.speaker === 'ai' ? 'text-[#FFD54F]' : 'text-purple-300'}>
+                      {entry.speaker === 'ai' ? 'Entity' : 'You'}
+                    </span>
+                    <span className="text-gray-500">{formatClock(entry.start)}</span>
+                    {entry.interrupted && <span className="text-red-300/80">interrupted</span>}
+                  </div>
+                  <p className="text-[#F8F9FA]/90 text-sm leading-relaxed font-light">{entry.text}</p>
+                </div>
+              ))
+            )}
+          </div>
+        </aside>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { MAX_KINETIC_CHUNK_SIZE, MIN_KINETIC_CHUNK_SIZE } from '../services/teleprompter/kinetic';
+import {
+  ACCESSIBLE_TYPOGRAPHY_PREFERENCE,
+  DEFAULT_TYPOGRAPHY_PREFERENCE,
+  KINETIC_CONTRASTS,
+  KINETIC_FONTS,
+  KINETIC_LAYOUTS,
+  KineticFont,
+  MAX_KINETIC_SIZE,
+  MIN_KINETIC_SIZE,
+  TypographyPreference,
+  WORD_RENDERINGS,
+} from '../services/teleprompter/typography';
+
+interface TypographyPanelProps {
+  preference: TypographyPreference;
+  onChange: (preference: TypographyPreference) => void;
+  /** The system asks for reduced motion, so transitions are already off. */
+  reducedMotion: boolean;
+}
+
+const FIELD_LABEL = 'block mb-1 text-[11px] text-gray-400 tracking-widest uppercase';
+const PILL = 'px-3 py-1 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black transition-colors';
+const SELECT = 'w-full bg-[#0a0a1a] border border-[#2a183a] rounded-md px-2 py-1.5 text-xs text-[#F8F9FA] focus:outline-none focus:border-[#FFD54F]/60 disabled:opacity-40';
+const SELECTED = 'border-[#FFD54F]/80 text-[#FFD54F]';
+
+const LAYOUT_HINTS = {
+  centred: 'A chunk of words at a time in the middle of the screen.',
+  flash: 'One word at a time, large, as it is spoken.',
+  karaoke: 'A single line that scrolls past the word being spoken.',
+  captions: 'Subtitle-style captions in the bottom third.',
+};
+
+export default function TypographyPanel({ preference, onChange, reducedMotion }: TypographyPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { rendering, layout, chunkSize, font, size, contrast, uppercase } = preference;
+  const overlay = rendering === 'overlay';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        aria-controls="typography-panel"
+        className="bg-[#0a0a1a]/80 backdrop-blur-md px-4 py-2 rounded-full border border-[#2a1a3a]/60 text-[#F8F9FA] font-mono text-xs uppercase tracking-widest hover:border-[#FFD54F]/60 transition-colors"
+      >
+        Words
+      </button>
+
+      {isOpen && (
+        <div
+          id="typography-panel"
+          className="absolute top-full left-0 mt-2 w-72 max-h-[80vh] overflow-y-auto bg-[#0a0a1a]/90 backdrop-blur-md border border-[#2a1a3a]/60 rounded-xl p-4 shadow-[0_0_30px_rgba(0,0,0,0.8)]"
+        >
+          <span className={FIELD_LABEL}>Show words as</span>
+          <div className="flex gap-2">
+            {WORD_RENDERINGS.map(option => (
+              <button
+                key={option.rendering}
+                onClick={() => onChange({ ...preference, rendering: option.rendering })}
+                aria-pressed={option.rendering === rendering}
+                className={`${PILL} ${option.rendering === rendering ? SELECTED : ''}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+            {overlay
+              ? 'Crisp text laid over the galaxy.'
+              : 'Particles fly in to spell each chunk inside the galaxy, lighting the word being spoken.'}
+          </p>
+
+          <span className={`${FIELD_LABEL} mt-3`}>Layout</span>
+          <div className="flex flex-wrap gap-2">
+            {KINETIC_LAYOUTS.map(option => (
+              <button
+                key={option.layout}
+                onClick={() => onChange({ ...preference, layout: option.layout })}
+                aria-pressed={option.layout === layout}
+                className={`${PILL} ${option.layout === layout ? SELECTED : ''}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+            {LAYOUT_HINTS[layout]}
+            {!overlay && layout === 'karaoke' && ' Particles spell centred chunks instead.'}
+          </p>
+
+          <label className="block mt-3">
+            <span className={FIELD_LABEL}>
+              {layout === 'karaoke' ? 'Words either side' : 'Words per chunk'} · {chunkSize}
+            </span>
+            <input
+              type="range"
+              min={MIN_KINETIC_CHUNK_SIZE}
+              max={MAX_KINETIC_CHUNK_SIZE}
+              step={1}
+              value={chunkSize}
+              onChange={e => onChange({ ...preference, chunkSize: Number(e.target.value) })}
+              disabled={layout === 'flash'}
+              className="w-full accent-[#FFD54F] disabled:opacity-40"
+            />
+          </label>
+
+          <label className="block mt-3">
+            <span className={FIELD_LABEL}>Font</span>
+            <select
+              value={font}
+              onChange={e => onChange({ ...preference, font: e.target.value as KineticFont })}
+              className={SELECT}
+            >
+              {KINETIC_FONTS.map(option => (
+                <option key={option.font} value={option.font}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block mt-3">
+            <span className={FIELD_LABEL}>Size · {Math.round(size * 100)}%</span>
+            <input
+              type="range"
+              min={MIN_KINETIC_SIZE}
+              max={MAX_KINETIC_SIZE}
+              step={0.05}
+              value={size}
+              onChange={e => onChange({ ...preference, size: Number(e.target.value) })}
+              disabled={!overlay}
+              className="w-full accent-[#FFD54F] disabled:opacity-40"
+            />
+          </label>
+
+          <span className={`${FIELD_LABEL} mt-3`}>Contrast</span>
+          <div className="flex gap-2">
+            {KINETIC_CONTRASTS.map(option => (
+              <button
+                key={option.contrast}
+                onClick={() => onChange({ ...preference, contrast: option.contrast })}
+                aria-pressed={option.contrast === contrast}
+                disabled={!overlay}
+                className={`${PILL} ${option.contrast === contrast ? SELECTED : ''} disabled:opacity-40`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <label className="mt-3 flex items-center gap-2 cursor-pointer font-mono text-[11px] uppercase tracking-wider text-gray-300">
+            <input
+              type="checkbox"
+              checked={uppercase}
+              onChange={e => onChange({ ...preference, uppercase: e.target.checked })}
+              className="accent-[#FFD54F]"
+            />
+            All capitals
+          </label>
+          {!overlay && (
+            <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+              Size and contrast apply to overlay text; particles spell in the chosen font and case.
+            </p>
+          )}
+
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={() => onChange({ ...ACCESSIBLE_TYPOGRAPHY_PREFERENCE })}
+              className={`${PILL} flex-1`}
+              title="Captions in a dyslexia-friendly face, mixed case, larger and in high contrast"
+            >
+              Accessible
+            </button>
+            <button onClick={() => onChange({ ...DEFAULT_TYPOGRAPHY_PREFERENCE })} className={`${PILL} flex-1`}>
+              Reset
+            </button>
+          </div>
+          {reducedMotion && (
+            <p className="mt-2 text-[11px] text-gray-500 leading-relaxed">
+              Your system asks for reduced motion, so words appear without animation.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useRef, useState } from 'react';
+import { parseRecording, RECORDING_EXTENSION } from '../services/recording/recording';
+import { exportRecordingToVideo } from '../services/export/videoExporter';
+import type { GalaxyTheme } from '../scene/themes';
+import { loadReactivityMapping } from '../scene/reactivity';
+
+function downloadVideo(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface VideoExportPanelProps {
+  theme?: GalaxyTheme;
+}
+
+/** Start-screen control that renders a session recording to a shareable WebM clip. */
+export default function VideoExportPanel({ theme }: VideoExportPanelProps) {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const recording = parseRecording(await file.text());
+      // Exports respond to sound the way the live galaxy was last set to
+      const video = await exportRecordingToVideo(recording, {
+        theme,
+        reactivity: loadReactivityMapping(),
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      downloadVideo(video, file.name.replace(/(\.sonic)?\.json$/i, '') + '.webm');
+    } catch (err) {
+      if (!(err instanceof Error && err.name === 'AbortError')) {
+        setError((err instanceof Error && err.message) || 'Video export failed.');
+        console.error("Video export error:", err);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  if (progress !== null) {
+    return (
+      <div className="mt-4 flex flex-col items-center gap-2 w-64">
+        <div className="w-full h-1.5 rounded-full bg-[#1a082a] overflow-hidden">
+          <div className="h-full bg-[#FFD54F] transition-[width] duration-200" style={{ width: `${Math.round(progress * 100)}%` }}></div>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-400 tracking-widest uppercase">
+          <span>Rendering video {Math.round(progress * 100)}%</span>
+          <button onClick={() => abortRef.current?.abort()} className="underline hover:text-[#FFD54F]">Cancel</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 flex flex-col items-center">
+      <label className="text-xs text-gray-400 tracking-widest uppercase cursor-pointer underline decoration-dotted underline-offset-4 hover:text-[#FFD54F] transition-colors">
+        Export a recording as video
+        <input type="file" accept={`${RECORDING_EXTENSION},application/json`} onChange={handleFile} className="hidden" />
+      </label>
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
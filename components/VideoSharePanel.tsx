@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Blob as GenAIBlob } from '@google/genai';
+import { FRAME_RATES, FrameCapture, startFrameCapture, VideoSource } from '../services/video/frameCapture';
+import { dominantColors } from '../services/video/palette';
+
+interface VideoSharePanelProps {
+  /** False once the session has ended; any share stops. */
+  active: boolean;
+  onFrame: (frame: GenAIBlob) => void;
+  /** Dominant colours of each frame while tinting is on, `null` when it stops. */
+  onTint: (colors: string[] | null) => void;
+}
+
+const SOURCES: { source: VideoSource; label: string }[] = [
+  { source: 'camera', label: 'Camera' },
+  { source: 'screen', label: 'Screen' },
+];
+
+const PILL = 'px-3 py-1 rounded-full border border-[#2a183a] bg-[#1a082a] text-[#F8F9FA] font-mono text-[11px] uppercase tracking-wider hover:bg-[#FFD54F] hover:text-black transition-colors';
+
+export default function VideoSharePanel({ active, onFrame, onTint }: VideoSharePanelProps) {
+  const [source, setSource] = useState<VideoSource | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [framesPerSecond, setFramesPerSecond] = useState(1);
+  const [tint, setTint] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const captureRef = useRef<FrameCapture | null>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  // Read per frame, so toggling them doesn't restart (and re-prompt) the share
+  const callbacksRef = useRef({ onFrame, onTint, tint });
+  callbacksRef.current = { onFrame, onTint, tint };
+  const framesPerSecondRef = useRef(framesPerSecond);
+  framesPerSecondRef.current = framesPerSecond;
+
+  useEffect(() => {
+    if (!active) setSource(null);
+  }, [active]);
+
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+
+    startFrameCapture(
+      source,
+      ({ blob, thumbnail }) => {
+        const { onFrame, onTint, tint } = callbacksRef.current;
+        onFrame(blob);
+        if (tint) onTint(dominantColors(thumbnail));
+      },
+      () => setSource(null),
+      { framesPerSecond: framesPerSecondRef.current },
+    ).then((capture) => {
+      if (cancelled) {
+        capture.stop();
+        return;
+      }
+      captureRef.current = capture;
+      setStream(capture.stream);
+      setError(null);
+    }).catch((err) => {
+      if (cancelled) return;
+      console.error('Video share failed:', err);
+      // Dismissing the browser's picker isn't worth an error message
+      if (err?.name !== 'NotAllowedError') setError(err.message || 'Could not start sharing.');
+      setSource(null);
+    });
+
+    return () => {
+      cancelled = true;
+      captureRef.current?.stop();
+      captureRef.current = null;
+      setStream(null);
+      callbacksRef.current.onTint(null);
+    };
+  }, [source]);
+
+  useEffect(() => {
+    captureRef.current?.setFramesPerSecond(framesPerSecond);
+  }, [framesPerSecond]);
+
+  useEffect(() => {
+    if (!tint) callbacksRef.current.onTint(null);
+  }, [tint]);
+
+  useEffect(() => {
+    if (previewRef.current) previewRef.current.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <>
+      <div className="absolute top-20 left-6 z-40 flex flex-col items-start gap-2">
+        <div className="flex gap-2">
+          {SOURCES.map(option => (
+            <button
+              key={option.source}
+              onClick={() => setSource(current => (current === option.source ? null : option.source))}
+              disabled={!active}
+              aria-pressed={source === option.source}
+              className={`${PILL} disabled:opacity-30 disabled:pointer-events-none ${source === option.source ? 'border-[#FFD54F]/80 text-[#FFD54F]' : ''}`}
+            >
+              {source === option.source ? `Stop ${option.label}` : option.label}
+            </button>
+          ))}
+        </div>
+        {source && (
+          <div className="flex items-center gap-3 bg-[#0a0a1a]/80 backdrop-blur-md px-3 py-1.5 rounded-full border border-[#2a1a3a]/60 font-mono text-[11px] uppercase tracking-wider text-gray-300">
+            <label className="flex items-center gap-1">
+              FPS
+              <select
+                value={framesPerSecond}
+                onChange={e => setFramesPerSecond(Number(e.target.value))}
+                className="bg-transparent text-[#F8F9FA] focus:outline-none"
+              >
+                {FRAME_RATES.map(rate => <option key={rate} value={rate} className="bg-[#0a0a1a]">{rate}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={tint} onChange={e => setTint(e.target.checked)} className="accent-[#FFD54F]" />
+              Tint
+            </label>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-300">{error}</p>}
+      </div>
+
+      {/* Picture-in-picture preview of what the entity sees */}
+      {stream && (
+        <div className="absolute bottom-8 left-6 z-30 w-48 aspect-video rounded-lg overflow-hidden border border-[#2a1a3a]/60 shadow-[0_0_20px_rgba(0,0,0,0.8)] bg-black">
+          <video
+            ref={previewRef}
+            autoPlay
+            muted
+            playsInline
+            className={`w-full h-full object-cover ${source === 'camera' ? '-scale-x-100' : ''}`}
+          />
+        </div>
+      )}
+    </>
+  );
+}
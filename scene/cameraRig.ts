@@ -0,0 +1,347 @@
+import * as THREE from 'three';
+import type { Galaxy } from './galaxy';
+import type { SessionStateKind } from '../services/session/sessionState';
+
+// --- Camera Rig ---
+// Orbits the camera around the galaxy. Three layers add up each frame: the
+// user's own orbit, pan and zoom (mouse, wheel and touch, with inertia); the
+// auto-director's moves, cued by the conversation; and the galaxy's zoom, which
+// the AI sets through tool calls. A single range setting bounds all of it.
+
+export type CameraMode = 'manual' | 'director';
+
+export interface CameraPreference {
+  mode: CameraMode;
+  /** 0 locks the view, 1 allows the widest orbit, zoom and pan. */
+  range: number;
+}
+
+export const DEFAULT_CAMERA_PREFERENCE: CameraPreference = { mode: 'director', range: 0.6 };
+
+/** What the director reacts to, sampled every frame. */
+export interface DirectorCue {
+  state: SessionStateKind;
+  /** The AI's smoothed output level, 0–1. */
+  loudness: number;
+}
+
+export interface CameraRig {
+  readonly mode: CameraMode;
+  setMode: (mode: CameraMode) => void;
+  readonly range: number;
+  setRange: (range: number) => void;
+  /** Eases the user's orbit, pan and zoom back to the front view. */
+  resetView: () => void;
+  /** Places the camera; call once per frame after the galaxy updates. */
+  update: (delta: number, cue: DirectorCue) => void;
+  dispose: () => void;
+}
+
+interface CameraLimits {
+  orbit: number;
+  elevation: number;
+  minScale: number;
+  maxScale: number;
+  pan: number;
+}
+
+// The widest the rig may move at range 1
+const MAX_ORBIT = THREE.MathUtils.degToRad(90);
+const MAX_ELEVATION = THREE.MathUtils.degToRad(50);
+const MAX_ZOOM_IN = 0.5;
+const MAX_ZOOM_OUT = 1;
+const MAX_PAN = 25;
+
+const limitsFor = (range: number): CameraLimits => ({
+  orbit: MAX_ORBIT * range,
+  elevation: MAX_ELEVATION * range,
+  minScale: 1 - MAX_ZOOM_IN * range,
+  maxScale: 1 + MAX_ZOOM_OUT * range,
+  pan: MAX_PAN * range,
+});
+
+// Radians of orbit per pixel of drag, relative to the element's height
+const ORBIT_PER_HEIGHT = Math.PI;
+const WHEEL_ZOOM_RATE = 0.001;
+// Per second; higher stops a flung orbit sooner
+const INERTIA_DAMPING = 4;
+const RESET_RATE = 4;
+// How quickly the director's moves settle toward their target, per second
+const DIRECTOR_FOLLOW_RATE = 0.8;
+const IDLE_DRIFT_PERIOD_SECONDS = 40;
+// Director distance scales: lean in while the AI talks, a little for the user
+const AI_PUSH_IN = 0.8;
+const AI_LOUDNESS_PUSH = 0.1;
+const USER_PUSH_IN = 0.92;
+const INTERRUPT_PULL_BACK = 1.2;
+const SHAKE_DECAY = 2.5;
+const SHAKE_AMPLITUDE = 2;
+
+const clamp = THREE.MathUtils.clamp;
+const approach = (value: number, target: number, rate: number, delta: number) =>
+  value + (target - value) * Math.min(1, rate * delta);
+
+export function createCameraRig(
+  camera: THREE.PerspectiveCamera,
+  element: HTMLElement,
+  galaxy: Galaxy,
+  { mode: initialMode, range: initialRange }: CameraPreference = DEFAULT_CAMERA_PREFERENCE,
+): CameraRig {
+  let mode = initialMode;
+  let range = clamp(initialRange, 0, 1);
+  let limits = limitsFor(range);
+
+  // The user's layer
+  let azimuth = 0;
+  let elevation = 0;
+  let scale = 1;
+  const pan = new THREE.Vector3();
+  let azimuthVelocity = 0;
+  let elevationVelocity = 0;
+  const panVelocity = new THREE.Vector3();
+  let resetting = false;
+
+  // The director's layer
+  const director = { azimuth: 0, elevation: 0, scale: 1 };
+  let shake = 0;
+  let time = 0;
+  let lastState: SessionStateKind | null = null;
+
+  const clampUser = () => {
+    azimuth = clamp(azimuth, -limits.orbit, limits.orbit);
+    elevation = clamp(elevation, -limits.elevation, limits.elevation);
+    scale = clamp(scale, limits.minScale, limits.maxScale);
+    if (pan.length() > limits.pan) pan.setLength(limits.pan);
+  };
+
+  // --- Input ---
+  const pointers = new Map<number, { x: number; y: number }>();
+  let panning = false;
+  let lastMoveTime = 0;
+  const right = new THREE.Vector3();
+  const up = new THREE.Vector3();
+
+  const worldPerPixel = () =>
+    (2 * camera.position.distanceTo(pan) * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) / Math.max(1, element.clientHeight);
+
+  const orbitBy = (dx: number, dy: number, dt: number) => {
+    const perPixel = ORBIT_PER_HEIGHT / Math.max(1, element.clientHeight);
+    azimuth -= dx * perPixel;
+    elevation += dy * perPixel;
+    if (dt > 0) {
+      azimuthVelocity = (-dx * perPixel) / dt;
+      elevationVelocity = (dy * perPixel) / dt;
+    }
+  };
+
+  const panBy = (dx: number, dy: number, dt: number) => {
+    right.setFromMatrixColumn(camera.matrix, 0);
+    up.setFromMatrixColumn(camera.matrix, 1);
+    const perPixel = worldPerPixel();
+    const move = right.multiplyScalar(-dx * perPixel).add(up.multiplyScalar(dy * perPixel));
+    pan.add(move);
+    if (dt > 0) panVelocity.copy(move).divideScalar(dt);
+  };
+
+  const centroid = () => {
+    let x = 0;
+    let y = 0;
+    for (const p of pointers.values()) {
+      x += p.x;
+      y += p.y;
+    }
+    return { x: x / pointers.size, y: y / pointers.size };
+  };
+
+  const spread = () => {
+    const [a, b] = [...pointers.values()];
+    return a && b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+  };
+
+  const stopInertia = () => {
+    azimuthVelocity = 0;
+    elevationVelocity = 0;
+    panVelocity.set(0, 0, 0);
+    resetting = false;
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (range === 0) return;
+    element.setPointerCapture(event.pointerId);
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    // Right button, or shift, pans with the mouse; two fingers always pan and pinch
+    panning = event.button === 2 || event.shiftKey;
+    lastMoveTime = event.timeStamp;
+    stopInertia();
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+    const dt = (event.timeStamp - lastMoveTime) / 1000;
+    lastMoveTime = event.timeStamp;
+
+    if (pointers.size === 1) {
+      const dx = event.clientX - previous.x;
+      const dy = event.clientY - previous.y;
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      if (panning) panBy(dx, dy, dt);
+      else orbitBy(dx, dy, dt);
+    } else {
+      const before = centroid();
+      const spreadBefore = spread();
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+      const after = centroid();
+      const spreadAfter = spread();
+      panBy(after.x - before.x, after.y - before.y, dt);
+      if (spreadBefore > 0 && spreadAfter > 0) scale *= spreadBefore / spreadAfter;
+    }
+    clampUser();
+  };
+
+  const handlePointerUp = (event: PointerEvent) => {
+    pointers.delete(event.pointerId);
+    // Lifting one finger of a pinch shouldn't fling the view
+    if (pointers.size > 0) stopInertia();
+  };
+
+  const handleWheel = (event: WheelEvent) => {
+    if (range === 0) return;
+    event.preventDefault();
+    resetting = false;
+    scale *= Math.exp(event.deltaY * WHEEL_ZOOM_RATE);
+    clampUser();
+  };
+
+  const handleContextMenu = (event: Event) => event.preventDefault();
+  const handleDoubleClick = () => resetView();
+
+  element.style.touchAction = 'none';
+  element.addEventListener('pointerdown', handlePointerDown);
+  element.addEventListener('pointermove', handlePointerMove);
+  element.addEventListener('pointerup', handlePointerUp);
+  element.addEventListener('pointercancel', handlePointerUp);
+  element.addEventListener('wheel', handleWheel, { passive: false });
+  element.addEventListener('contextmenu', handleContextMenu);
+  element.addEventListener('dblclick', handleDoubleClick);
+
+  const resetView = () => {
+    stopInertia();
+    resetting = true;
+  };
+
+  // --- Director ---
+  const updateDirector = (delta: number, { state, loudness }: DirectorCue) => {
+    if (state !== lastState) {
+      if (state === 'interrupted') shake = 1;
+      lastState = state;
+    }
+    shake = Math.max(0, shake - SHAKE_DECAY * delta);
+
+    let target = { azimuth: 0, elevation: 0, scale: 1 };
+    if (mode === 'director') {
+      // Slow drift through the allowed range, never quite reaching its edges
+      const phase = (time / IDLE_DRIFT_PERIOD_SECONDS) * Math.PI * 2;
+      const drift = state === 'ai-speaking' ? 0.3 : 0.6;
+      target = {
+        azimuth: Math.sin(phase) * limits.orbit * drift,
+        elevation: Math.sin(phase * 0.7 + 1) * limits.elevation * drift * 0.5,
+        scale: 1,
+      };
+      if (state === 'ai-speaking') target.scale = AI_PUSH_IN - loudness * AI_LOUDNESS_PUSH;
+      else if (state === 'user-speaking') target.scale = USER_PUSH_IN;
+      else if (state === 'interrupted') target.scale = INTERRUPT_PULL_BACK;
+    }
+    director.azimuth = approach(director.azimuth, target.azimuth, DIRECTOR_FOLLOW_RATE, delta);
+    director.elevation = approach(director.elevation, target.elevation, DIRECTOR_FOLLOW_RATE, delta);
+    director.scale = approach(director.scale, target.scale, DIRECTOR_FOLLOW_RATE, delta);
+  };
+
+  const update = (delta: number, cue: DirectorCue) => {
+    time += delta;
+
+    if (pointers.size === 0) {
+      if (resetting) {
+        azimuth = approach(azimuth, 0, RESET_RATE, delta);
+        elevation = approach(elevation, 0, RESET_RATE, delta);
+        scale = approach(scale, 1, RESET_RATE, delta);
+        pan.multiplyScalar(1 - Math.min(1, RESET_RATE * delta));
+        if (Math.abs(azimuth) + Math.abs(elevation) + Math.abs(scale - 1) + pan.length() < 1e-3) resetting = false;
+      } else {
+        const decay = Math.exp(-INERTIA_DAMPING * delta);
+        azimuth += azimuthVelocity * delta;
+        elevation += elevationVelocity * delta;
+        pan.addScaledVector(panVelocity, delta);
+        azimuthVelocity *= decay;
+        elevationVelocity *= decay;
+        panVelocity.multiplyScalar(decay);
+      }
+      clampUser();
+    }
+    updateDirector(delta, cue);
+
+    const az = clamp(azimuth + director.azimuth, -limits.orbit, limits.orbit);
+    const el = clamp(elevation + director.elevation, -limits.elevation, limits.elevation);
+    // The range bounds the user and director together; the AI's own zoom sits on top
+    const distance = galaxy.cameraDistance * clamp(scale * director.scale, limits.minScale, limits.maxScale);
+    camera.position.set(Math.sin(az) * Math.cos(el), Math.sin(el), Math.cos(az) * Math.cos(el)).multiplyScalar(distance).add(pan);
+
+    if (shake > 0) {
+      const amount = shake * shake * SHAKE_AMPLITUDE;
+      camera.position.x += Math.sin(time * 37) * amount;
+      camera.position.y += Math.sin(time * 29 + 1.3) * amount;
+    }
+    camera.lookAt(pan);
+  };
+
+  return {
+    get mode() {
+      return mode;
+    },
+    setMode: (next) => {
+      mode = next;
+    },
+    get range() {
+      return range;
+    },
+    setRange: (next) => {
+      range = clamp(next, 0, 1);
+      limits = limitsFor(range);
+      clampUser();
+    },
+    resetView,
+    update,
+    dispose: () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerup', handlePointerUp);
+      element.removeEventListener('pointercancel', handlePointerUp);
+      element.removeEventListener('wheel', handleWheel);
+      element.removeEventListener('contextmenu', handleContextMenu);
+      element.removeEventListener('dblclick', handleDoubleClick);
+      element.style.touchAction = '';
+    },
+  };
+}
+
+const STORAGE_KEY = 'sonic-entity:camera';
+
+export function loadCameraPreference(): CameraPreference {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+    return {
+      mode: stored.mode === 'manual' || stored.mode === 'director' ? stored.mode : DEFAULT_CAMERA_PREFERENCE.mode,
+      range: typeof stored.range === 'number' ? clamp(stored.range, 0, 1) : DEFAULT_CAMERA_PREFERENCE.range,
+    };
+  } catch {
+    return DEFAULT_CAMERA_PREFERENCE;
+  }
+}
+
+export function saveCameraPreference(preference: CameraPreference) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preference));
+  } catch (err) {
+    console.warn('Could not persist camera preference:', err);
+  }
+}
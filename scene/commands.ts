@@ -0,0 +1,61 @@
+import type { Galaxy } from './galaxy';
+import type { FormationSpec } from './formations';
+import type { GalaxyTheme } from './themes';
+
+// --- Scene Commands ---
+// Typed requests to change the galaxy, independent of where they come from
+// (today the AI's tool calls). Running one returns a short JSON-friendly
+// summary of what happened, suitable for sending back to the model.
+
+export type SceneCommand =
+  | { name: 'setTheme'; themeId: string }
+  /** `null` hands the formation back to the conversation-driven mapping. */
+  | { name: 'morphTo'; formation: FormationSpec | null }
+  | { name: 'setRotationSpeed'; speed: number }
+  | { name: 'spawnShootingStar'; count: number }
+  | { name: 'setZoom'; zoom: number };
+
+export type SceneCommandResult = Record<string, unknown>;
+
+export interface SceneCommandTarget {
+  galaxy: Galaxy;
+  themes: GalaxyTheme[];
+  /** Themes go through the owner so the page background and typography follow. */
+  applyTheme: (theme: GalaxyTheme) => void;
+  /** Pins a formation over the conversation-driven one, or releases it with `null`. */
+  pinFormation: (formation: FormationSpec | null) => Promise<void>;
+}
+
+export class SceneCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneCommandError';
+  }
+}
+
+const STAR_INTERVAL_MS = 180;
+
+export async function runSceneCommand(target: SceneCommandTarget, command: SceneCommand): Promise<SceneCommandResult> {
+  const { galaxy } = target;
+  switch (command.name) {
+    case 'setTheme': {
+      const theme = target.themes.find(t => t.id === command.themeId);
+      if (!theme) throw new SceneCommandError(`Unknown theme "${command.themeId}"`);
+      target.applyTheme(theme);
+      return { theme: theme.name };
+    }
+    case 'morphTo':
+      await target.pinFormation(command.formation);
+      return { formation: command.formation ? galaxy.formation : 'following the conversation' };
+    case 'setRotationSpeed':
+      galaxy.setRotationSpeed(command.speed);
+      return { rotationSpeed: galaxy.rotationSpeed };
+    case 'spawnShootingStar':
+      // Staggered so a volley reads as several stars rather than one thick streak
+      for (let i = 0; i < command.count; i++) window.setTimeout(galaxy.spawnShootingStar, i * STAR_INTERVAL_MS);
+      return { shootingStars: command.count };
+    case 'setZoom':
+      galaxy.setZoom(command.zoom);
+      return { zoom: galaxy.zoom };
+  }
+}
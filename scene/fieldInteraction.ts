@@ -0,0 +1,202 @@
+import * as THREE from 'three';
+import type { CameraRig } from './cameraRig';
+import type { Galaxy } from './galaxy';
+import type { TrackedHand } from '../services/video/handTracking';
+
+// --- Field Interaction ---
+// Lets visitors stir the particles. The cursor, a finger, or a tracked hand is
+// projected onto a plane through the galaxy's centre, facing the camera, and
+// the vertex shader gathers particles toward that point or parts them around
+// it. Clicks, taps and pinches send out ripples. While the camera rig can
+// move, a drag belongs to it: only hovering stirs, and a pressed pointer or a
+// finger stirs only once the camera's range locks the view.
+
+export type StirMode = 'off' | 'attract' | 'repel';
+
+export interface StirPreference {
+  mode: StirMode;
+}
+
+export const DEFAULT_STIR_PREFERENCE: StirPreference = { mode: 'attract' };
+
+export const STIR_MODES: { mode: StirMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'attract', label: 'Attract' },
+  { mode: 'repel', label: 'Repel' },
+];
+
+export interface FieldInteraction {
+  readonly mode: StirMode;
+  setMode: (mode: StirMode) => void;
+  /** Latest hands from the webcam; an empty list releases them. */
+  setHands: (hands: TrackedHand[]) => void;
+  dispose: () => void;
+}
+
+// Interactor slots in the galaxy shader
+const POINTER_SLOT = 0;
+const FIRST_HAND_SLOT = 1;
+const HAND_SLOTS = 2;
+// Hover stirs gently; pressing (or a touching finger) on a locked camera stirs harder
+const HOVER_STRENGTH = 0.6;
+const PRESSED_STRENGTH = 1;
+const HAND_STRENGTH = 1;
+// A press that moves less than this, in pixels, and lifts quickly is a click
+const CLICK_SLOP_PIXELS = 6;
+const CLICK_MAX_MS = 300;
+
+export function createFieldInteraction(
+  element: HTMLElement,
+  galaxy: Galaxy,
+  { mode: initialMode }: StirPreference = DEFAULT_STIR_PREFERENCE,
+  cameraRig?: Pick<CameraRig, 'range'>,
+): FieldInteraction {
+  let mode = initialMode;
+  const { camera } = galaxy;
+
+  const raycaster = new THREE.Raycaster();
+  const plane = new THREE.Plane();
+  const ndc = new THREE.Vector2();
+  const normal = new THREE.Vector3();
+  const hit = new THREE.Vector3();
+
+  // x and y in normalized device coordinates, -1 to 1
+  const projectToGalaxy = (x: number, y: number): THREE.Vector3 | null => {
+    camera.getWorldDirection(normal);
+    plane.setFromNormalAndCoplanarPoint(normal, galaxy.scene.position);
+    ndc.set(x, y);
+    raycaster.setFromCamera(ndc, camera);
+    return raycaster.ray.intersectPlane(plane, hit);
+  };
+
+  const projectEvent = (event: PointerEvent) => {
+    const rect = element.getBoundingClientRect();
+    return projectToGalaxy(
+      ((event.clientX - rect.left) / Math.max(1, rect.width)) * 2 - 1,
+      -((event.clientY - rect.top) / Math.max(1, rect.height)) * 2 + 1,
+    );
+  };
+
+  const signed = (strength: number) => (mode === 'repel' ? -strength : strength);
+
+  // --- Pointer ---
+  const pressed = new Map<number, { x: number; y: number; time: number }>();
+
+  // The rig orbits on any drag unless its range is 0
+  const cameraTakesDrags = () => (cameraRig?.range ?? 0) > 0;
+
+  const stirAt = (event: PointerEvent) => {
+    // Two fingers are pinching or panning the camera, and one is orbiting it, not stirring
+    if (mode === 'off' || pressed.size > 1 || (pressed.size > 0 && cameraTakesDrags())) {
+      galaxy.setInteractor(POINTER_SLOT, null);
+      return;
+    }
+    const point = projectEvent(event);
+    galaxy.setInteractor(POINTER_SLOT, point, signed(pressed.size > 0 ? PRESSED_STRENGTH : HOVER_STRENGTH));
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    pressed.set(event.pointerId, { x: event.clientX, y: event.clientY, time: event.timeStamp });
+    stirAt(event);
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    // Touch has no hover; a finger only stirs while it's down
+    if (event.pointerType === 'touch' && !pressed.has(event.pointerId)) return;
+    stirAt(event);
+  };
+
+  const handlePointerUp = (event: PointerEvent) => {
+    const down = pressed.get(event.pointerId);
+    pressed.delete(event.pointerId);
+    if (!down) return;
+    const isClick = Math.hypot(event.clientX - down.x, event.clientY - down.y) < CLICK_SLOP_PIXELS
+      && event.timeStamp - down.time < CLICK_MAX_MS;
+    if (mode !== 'off' && isClick && event.button === 0) {
+      const point = projectEvent(event);
+      if (point) galaxy.ripple(point);
+    }
+    if (event.pointerType === 'touch') galaxy.setInteractor(POINTER_SLOT, null);
+    else stirAt(event);
+  };
+
+  const handlePointerLeave = (event: PointerEvent) => {
+    if (event.pointerType !== 'touch') galaxy.setInteractor(POINTER_SLOT, null);
+  };
+
+  const handlePointerCancel = (event: PointerEvent) => {
+    pressed.delete(event.pointerId);
+    galaxy.setInteractor(POINTER_SLOT, null);
+  };
+
+  element.addEventListener('pointerdown', handlePointerDown);
+  element.addEventListener('pointermove', handlePointerMove);
+  element.addEventListener('pointerup', handlePointerUp);
+  element.addEventListener('pointercancel', handlePointerCancel);
+  element.addEventListener('pointerleave', handlePointerLeave);
+
+  // --- Hands ---
+  const wasPinching: boolean[] = [];
+
+  const setHands = (hands: TrackedHand[]) => {
+    for (let i = 0; i < HAND_SLOTS; i++) {
+      const hand = hands[i];
+      const slot = FIRST_HAND_SLOT + i;
+      if (!hand || mode === 'off') {
+        galaxy.setInteractor(slot, null);
+        wasPinching[i] = false;
+        continue;
+      }
+      const point = projectToGalaxy(hand.x * 2 - 1, -hand.y * 2 + 1);
+      galaxy.setInteractor(slot, point, signed(HAND_STRENGTH));
+      // A pinch ripples once, when the fingers first meet
+      if (hand.pinching && !wasPinching[i] && point) galaxy.ripple(point);
+      wasPinching[i] = hand.pinching;
+    }
+  };
+
+  const releaseAll = () => {
+    galaxy.setInteractor(POINTER_SLOT, null);
+    for (let i = 0; i < HAND_SLOTS; i++) galaxy.setInteractor(FIRST_HAND_SLOT + i, null);
+  };
+
+  return {
+    get mode() {
+      return mode;
+    },
+    setMode: (next) => {
+      mode = next;
+      if (next === 'off') releaseAll();
+    },
+    setHands,
+    dispose: () => {
+      element.removeEventListener('pointerdown', handlePointerDown);
+      element.removeEventListener('pointermove', handlePointerMove);
+      element.removeEventListener('pointerup', handlePointerUp);
+      element.removeEventListener('pointercancel', handlePointerCancel);
+      element.removeEventListener('pointerleave', handlePointerLeave);
+      releaseAll();
+    },
+  };
+}
+
+const STORAGE_KEY = 'sonic-entity:stir';
+
+export function loadStirPreference(): StirPreference {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+    return {
+      mode: STIR_MODES.some(option => option.mode === stored.mode) ? stored.mode : DEFAULT_STIR_PREFERENCE.mode,
+    };
+  } catch {
+    return DEFAULT_STIR_PREFERENCE;
+  }
+}
+
+export function saveStirPreference(preference: StirPreference) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preference));
+  } catch (err) {
+    console.warn('Could not persist stir preference:', err);
+  }
+}
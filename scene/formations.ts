@@ -0,0 +1,343 @@
+import type { SessionState } from '../services/session/sessionState';
+
+// --- Particle Formations ---
+// Each formation is a full set of PARTICLE_COUNT target positions. The galaxy
+// keeps two of them on the GPU and morphs between them with uMorph.
+
+export type FormationSpec =
+  | { kind: 'sphere' }
+  | { kind: 'spiral'; arms?: number }
+  | { kind: 'disc' }
+  | { kind: 'torus' }
+  | { kind: 'ring' }
+  | { kind: 'text'; text: string; font?: string }
+  | { kind: 'image'; src: string };
+
+export type FormationKind = FormationSpec['kind'];
+
+export interface Formation {
+  /** Stable cache key, e.g. "spiral:3" or "text:HELLO". */
+  id: string;
+  positions: Float32Array;
+  /** How strongly the vertex shader swirls it: 1 for galaxies, 0 for flat shapes like text that must stay legible. */
+  swirl: number;
+}
+
+/** Conversation moments a formation can be bound to. */
+export type FormationTrigger = 'idle' | 'listening' | 'speaking' | 'interrupted';
+
+export type FormationMapping = Record<FormationTrigger, FormationSpec>;
+
+export const DEFAULT_FORMATION_MAPPING: FormationMapping = {
+  idle: { kind: 'sphere' },
+  listening: { kind: 'sphere' },
+  speaking: { kind: 'spiral' },
+  interrupted: { kind: 'ring' },
+};
+
+/** Picks the trigger for a session state; the live scene and the video exporter share it. */
+export function formationTriggerFor(state: SessionState): FormationTrigger {
+  switch (state.kind) {
+    case 'ai-speaking': return 'speaking';
+    case 'interrupted': return 'interrupted';
+    case 'listening':
+    case 'user-speaking': return 'listening';
+    default: return 'idle';
+  }
+}
+
+const GALAXY_RADIUS = 35;
+// Width of text/logo clouds in world units, sized to sit inside the camera's view at z=70
+const FLAT_FORMATION_WIDTH = 70;
+const SAMPLE_CANVAS_WIDTH = 512;
+
+export const formationId = (spec: FormationSpec): string => {
+  switch (spec.kind) {
+    case 'spiral': return `spiral:${spec.arms ?? 3}`;
+    case 'text': return `text:${spec.font ?? ''}:${spec.text}`;
+    case 'image': return `image:${spec.src}`;
+    default: return spec.kind;
+  }
+};
+
+// Box–Muller; formations use it for soft, natural edges
+const gaussian = () => {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+function buildSphere(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  // Golden ratio for uniform Fibonacci sphere distribution
+  const goldenRatio = (1 + Math.sqrt(5)) / 2;
+  for (let i = 0; i < count; i++) {
+    // Use a Fibonacci sphere to perfectly distribute initial angles, inherently preventing clumping
+    const theta = 2 * Math.PI * i / goldenRatio;
+    const phi = Math.acos(1 - 2 * (i + 0.5) / count);
+    // Randomize the radius to give the galaxy volume and depth
+    const r = Math.pow(Math.random(), 1/3) * GALAXY_RADIUS;
+
+    positions[i * 3] = r * Math.sin(phi) * Math.cos(theta);
+    positions[i * 3 + 1] = r * Math.cos(phi);
+    positions[i * 3 + 2] = r * Math.sin(phi) * Math.sin(theta);
+  }
+  // The lattice runs pole to pole by index; shuffle it so any leading slice (a lower quality's draw range) covers the whole sphere
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    for (let k = 0; k < 3; k++) {
+      const swap = positions[i * 3 + k];
+      positions[i * 3 + k] = positions[j * 3 + k];
+      positions[j * 3 + k] = swap;
+    }
+  }
+  return positions;
+}
+
+function buildSpiral(count: number, arms: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    // Denser core, logarithmic-ish arms with scatter that widens outwards
+    const r = Math.pow(Math.random(), 0.7) * GALAXY_RADIUS * 1.2;
+    const arm = (i % arms) * (2 * Math.PI / arms);
+    const angle = arm + r * 0.18 + gaussian() * (0.15 + r * 0.006);
+    positions[i * 3] = r * Math.cos(angle) + gaussian() * 0.8;
+    positions[i * 3 + 1] = gaussian() * (2.5 - r * 0.04);
+    positions[i * 3 + 2] = r * Math.sin(angle) + gaussian() * 0.8;
+  }
+  return positions;
+}
+
+function buildDisc(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const r = Math.sqrt(Math.random()) * GALAXY_RADIUS * 1.2;
+    const angle = Math.random() * Math.PI * 2;
+    positions[i * 3] = r * Math.cos(angle);
+    positions[i * 3 + 1] = gaussian() * 0.6;
+    positions[i * 3 + 2] = r * Math.sin(angle);
+  }
+  return positions;
+}
+
+function buildTorus(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  const major = 24;
+  const minor = 8;
+  for (let i = 0; i < count; i++) {
+    const u = Math.random() * Math.PI * 2;
+    const v = Math.random() * Math.PI * 2;
+    const tube = minor * Math.sqrt(Math.random());
+    positions[i * 3] = (major + tube * Math.cos(v)) * Math.cos(u);
+    positions[i * 3 + 1] = tube * Math.sin(v);
+    positions[i * 3 + 2] = (major + tube * Math.cos(v)) * Math.sin(u);
+  }
+  return positions;
+}
+
+function buildRing(count: number): Float32Array {
+  const positions = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    // A planetary-nebula shell: most particles in a glowing ring, a few in the central star
+    const inCore = Math.random() < 0.04;
+    const r = inCore ? Math.abs(gaussian()) * 2 : 30 + gaussian() * 2.5;
+    const angle = Math.random() * Math.PI * 2;
+    positions[i * 3] = r * Math.cos(angle);
+    positions[i * 3 + 1] = r * Math.sin(angle);
+    positions[i * 3 + 2] = gaussian() * (inCore ? 2 : 3);
+  }
+  return positions;
+}
+
+/**
+ * Samples lit pixels of a canvas into a flat point cloud facing the camera.
+ * Pixels are reused with jitter when there are fewer than `count`.
+ */
+function sampleCanvas(canvas: HTMLCanvasElement, count: number): Float32Array {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not sample formation: 2D canvas unavailable.');
+  const { width, height } = canvas;
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+
+  const lit: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luminance = (pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114) / 255;
+      if (pixels[i + 3] > 128 && luminance > 0.35) lit.push(x, y);
+    }
+  }
+  if (lit.length === 0) throw new Error('Formation source has no visible pixels to sample.');
+
+  const scale = FLAT_FORMATION_WIDTH / width;
+  const positions = new Float32Array(count * 3);
+  const pointCount = lit.length / 2;
+  for (let i = 0; i < count; i++) {
+    const p = Math.floor(Math.random() * pointCount) * 2;
+    positions[i * 3] = (lit[p] - width / 2 + Math.random()) * scale;
+    positions[i * 3 + 1] = (height / 2 - lit[p + 1] + Math.random()) * scale;
+    positions[i * 3 + 2] = gaussian() * 1.2;
+  }
+  return positions;
+}
+
+function rasterizeText(text: string, font = '900 120px "Merienda", cursive'): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not rasterize text formation: 2D canvas unavailable.');
+  ctx.font = font;
+  const metrics = ctx.measureText(text);
+  const textWidth = Math.max(1, Math.ceil(metrics.width));
+  const textHeight = Math.ceil((metrics.actualBoundingBoxAscent || 100) + (metrics.actualBoundingBoxDescent || 30));
+
+  // Scale down so sampling cost stays bounded however long the text is
+  const scale = Math.min(1, SAMPLE_CANVAS_WIDTH / textWidth);
+  canvas.width = Math.ceil(textWidth * scale) + 8;
+  canvas.height = Math.ceil(textHeight * scale) + 8;
+  ctx.scale(scale, scale);
+  ctx.font = font;
+  ctx.fillStyle = '#fff';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(text, 4 / scale, (metrics.actualBoundingBoxAscent || 100) + 4 / scale);
+  return canvas;
+}
+
+export interface WordCloud {
+  /** xyz per point, centred on the origin in a plane facing +z. */
+  positions: Float32Array;
+  /** Which word each point belongs to. */
+  wordIndices: Uint8Array;
+}
+
+// Particle typography: world-unit height of a line of spelled words, and the widest a line may be
+const WORD_LINE_HEIGHT = 9;
+const WORD_CLOUD_MAX_WIDTH = 60;
+// Chunks longer than this many characters are set on two lines
+const WORD_CLOUD_LINE_CHARS = 14;
+
+/** Splits words into one or two lines of roughly equal length. */
+function breakWordLines(words: string[]): string[][] {
+  const length = (line: string[]) => line.join(' ').length;
+  if (words.length < 2 || length(words) <= WORD_CLOUD_LINE_CHARS) return [words];
+  let best = 1;
+  for (let i = 2; i < words.length; i++) {
+    const longest = (split: number) => Math.max(length(words.slice(0, split)), length(words.slice(split)));
+    if (longest(i) < longest(best)) best = i;
+  }
+  return [words.slice(0, best), words.slice(best)];
+}
+
+/**
+ * Sets a chunk of words on one or two centred lines and samples `count`
+ * points from their glyphs, tagging each with the word it came from, so the
+ * galaxy can spell the teleprompter's chunk and light its active word.
+ */
+export function buildWordCloud(words: string[], count: number, font = '900 120px "Merienda", cursive'): WordCloud {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not rasterize words: 2D canvas unavailable.');
+  ctx.font = font;
+  const lines = breakWordLines(words);
+  const spaceWidth = ctx.measureText(' ').width;
+  const sample = ctx.measureText(words.join(' '));
+  const ascent = sample.actualBoundingBoxAscent || 100;
+  const lineHeight = Math.ceil(ascent + (sample.actualBoundingBoxDescent || 30));
+  const lineWidths = lines.map(line => line.reduce((sum, word) => sum + ctx.measureText(word).width, 0) + spaceWidth * (line.length - 1));
+  const widest = Math.max(1, ...lineWidths);
+
+  // Scale down so sampling cost stays bounded however long the chunk is
+  const scale = Math.min(1, SAMPLE_CANVAS_WIDTH / widest);
+  canvas.width = Math.ceil(widest * scale) + 8;
+  canvas.height = Math.ceil(lineHeight * lines.length * scale) + 8;
+  ctx.scale(scale, scale);
+  ctx.font = font;
+  ctx.fillStyle = '#fff';
+  ctx.textBaseline = 'alphabetic';
+
+  // Each word's horizontal span on its line, in canvas pixels, to tell sampled pixels apart
+  const spans: { line: number; start: number; end: number; index: number }[] = [];
+  let index = 0;
+  lines.forEach((line, l) => {
+    let x = 4 / scale + (widest - lineWidths[l]) / 2;
+    for (const word of line) {
+      const width = ctx.measureText(word).width;
+      ctx.fillText(word, x, ascent + l * lineHeight + 4 / scale);
+      spans.push({ line: l, start: (x - spaceWidth / 2) * scale, end: (x + width + spaceWidth / 2) * scale, index: index++ });
+      x += width + spaceWidth;
+    }
+  });
+
+  const { width, height } = canvas;
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  const lit: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[(y * width + x) * 4 + 3] > 128) lit.push(x, y);
+    }
+  }
+  if (lit.length === 0) throw new Error('Words have no visible pixels to sample.');
+
+  const lineOf = (y: number) => Math.min(lines.length - 1, Math.floor(y / (lineHeight * scale)));
+  const wordAt = (x: number, y: number) => {
+    const line = lineOf(y);
+    return spans.find(span => span.line === line && x >= span.start && x < span.end)?.index ?? 0;
+  };
+
+  const worldScale = Math.min(WORD_LINE_HEIGHT / (lineHeight * scale), WORD_CLOUD_MAX_WIDTH / width);
+  const positions = new Float32Array(count * 3);
+  const wordIndices = new Uint8Array(count);
+  const pointCount = lit.length / 2;
+  for (let i = 0; i < count; i++) {
+    const p = Math.floor(Math.random() * pointCount) * 2;
+    positions[i * 3] = (lit[p] - width / 2 + Math.random()) * worldScale;
+    positions[i * 3 + 1] = (height / 2 - lit[p + 1] + Math.random()) * worldScale;
+    positions[i * 3 + 2] = gaussian() * 0.6;
+    wordIndices[i] = wordAt(lit[p], lit[p + 1]);
+  }
+  return { positions, wordIndices };
+}
+
+async function rasterizeImage(src: string): Promise<HTMLCanvasElement> {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = src;
+  await image.decode();
+
+  const naturalWidth = image.naturalWidth || SAMPLE_CANVAS_WIDTH;
+  const naturalHeight = image.naturalHeight || SAMPLE_CANVAS_WIDTH;
+  const scale = SAMPLE_CANVAS_WIDTH / Math.max(naturalWidth, naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(naturalHeight * scale));
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/** Builds a formation. Text and image (including SVG) sources are sampled from a canvas. */
+export async function buildFormation(spec: FormationSpec, count: number): Promise<Formation> {
+  const id = formationId(spec);
+  switch (spec.kind) {
+    case 'text':
+      return { id, positions: sampleCanvas(rasterizeText(spec.text, spec.font), count), swirl: 0 };
+    case 'image':
+      return { id, positions: sampleCanvas(await rasterizeImage(spec.src), count), swirl: 0 };
+    default:
+      return buildShapeFormation(spec, count);
+  }
+}
+
+/** Synchronous builder for the procedural shapes, used for the galaxy's first frame. */
+export function buildShapeFormation(
+  spec: Exclude<FormationSpec, { kind: 'text' } | { kind: 'image' }>,
+  count: number,
+): Formation {
+  const id = formationId(spec);
+  switch (spec.kind) {
+    case 'spiral': return { id, positions: buildSpiral(count, spec.arms ?? 3), swirl: 1 };
+    case 'disc': return { id, positions: buildDisc(count), swirl: 1 };
+    case 'torus': return { id, positions: buildTorus(count), swirl: 1 };
+    // The ring faces the camera, so swirling around Y would turn it edge-on
+    case 'ring': return { id, positions: buildRing(count), swirl: 0 };
+    default: return { id, positions: buildSphere(count), swirl: 1 };
+  }
+}
@@ -0,0 +1,951 @@
+import * as THREE from 'three';
+import { DEFAULT_THEME, GalaxyTheme, pickPaletteEntry } from './themes';
+import { Formation, FormationSpec, buildFormation, buildShapeFormation, buildWordCloud, formationId, WordCloud } from './formations';
+import { DEFAULT_REACTIVITY, REACTIVITY_GLSL, ReactivityMapping, reactivityDefines } from './reactivity';
+import { createShootingStars } from './shootingStars';
+import type { AudioFeatures } from '../services/audio/bands';
+
+/** Particles are laid out one per texel of a square texture for the GPU simulation. */
+export const PARTICLE_TEXTURE_SIZE = 256;
+export const PARTICLE_COUNT = PARTICLE_TEXTURE_SIZE * PARTICLE_TEXTURE_SIZE;
+
+export interface GalaxyUniforms {
+  uTime: { value: number };
+  /** Accumulated swirl angle; advances with the rotation speed rather than raw time. */
+  uSpin: { value: number };
+  uVolume: { value: number };
+  /** Smoothed 0–1 level of the user's microphone. */
+  uUserVolume: { value: number };
+  /** Band features from BandAnalyzer; see applyAudioFeatures. */
+  uBass: { value: number };
+  uMid: { value: number };
+  uTreble: { value: number };
+  uOnset: { value: number };
+  uCentroid: { value: number };
+  /** 0 shows colour slot A, 1 shows slot B; animated during theme cross-fades. */
+  uThemeMix: { value: number };
+  /** 0 shows formation slot A, 1 shows slot B; animated during morphs. */
+  uMorph: { value: number };
+  /** Swirl strength of each formation slot. */
+  uSwirlA: { value: number };
+  uSwirlB: { value: number };
+  /** Colours borrowed from a shared camera or screen; see setTint. */
+  uTints: { value: THREE.Color[] };
+  uTintAmount: { value: number };
+  /** Camera distance that stays sharp; see the post-processing pipeline. */
+  uFocusDistance: { value: number };
+  /** Blur per unit of distance from the focal plane; 0 turns depth-of-field off. */
+  uDepthOfField: { value: number };
+  /** Points stirring the field: xyz position, w strength (positive attracts, negative repels). */
+  uInteractors: { value: THREE.Vector4[] };
+  /** Expanding ripples: xyz centre, w age in seconds (negative when unused). */
+  uRipples: { value: THREE.Vector4[] };
+  /** Positions from the GPU simulation, one texel per particle; see scene/simulation. */
+  uSimPositions: { value: THREE.Texture | null };
+  /** 1 draws particles where the simulation put them, 0 where the formation puts them. */
+  uSimulated: { value: number };
+  /** Letter positions for particle typography, laid out like uSimPositions; see SimulationInputs. */
+  uWordTargets: { value: THREE.DataTexture };
+  /** How far each of the two word slots has flown in, 0–1. */
+  uWordMix: { value: THREE.Vector2 };
+  /** The camera's rotation, so spelled words always face the viewer. */
+  uWordBasis: { value: THREE.Matrix3 };
+  /** Index of the word being spoken within the spelled chunk. */
+  uActiveWord: { value: number };
+  uActiveWordColor: { value: THREE.Color };
+}
+
+/**
+ * Per-particle data for a GPU simulation, laid out like uSimPositions. Each
+ * formation texture mirrors its morph slot and updates when a morph starts.
+ */
+export interface SimulationInputs {
+  formationA: THREE.DataTexture;
+  formationB: THREE.DataTexture;
+  /** aRandom in rgb. */
+  randoms: THREE.DataTexture;
+  /**
+   * Particle typography: a letter position in rgb for recruited particles; a
+   * packs the word slot (1 or 2, 0 for particles left in the swirl) plus four
+   * times the word's index in its chunk.
+   */
+  wordTargets: THREE.DataTexture;
+}
+
+/** How spelled words are set: a CSS font-family, and whether they're capitalised. */
+export interface SpelledWordStyle {
+  fontFamily: string;
+  uppercase: boolean;
+}
+
+export interface Galaxy {
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  uniforms: GalaxyUniforms;
+  readonly theme: GalaxyTheme;
+  /** Cross-fades particle, background and fog colours to `theme` without touching positions. */
+  applyTheme: (theme: GalaxyTheme, fadeSeconds?: number) => void;
+  /** Id of the formation the particles are at, or heading to. */
+  readonly formation: string;
+  /**
+   * Morphs the particles into `spec`. Procedural shapes start immediately;
+   * text and images are sampled first. Only the latest request wins.
+   */
+  morphTo: (spec: FormationSpec, morphSeconds?: number) => Promise<void>;
+  readonly reactivity: ReactivityMapping;
+  /** Re-routes which audio features drive push, pulse, colour mix and shimmer. */
+  setReactivity: (mapping: ReactivityMapping) => void;
+  /** Swirl speed as a multiple of the default; 0 holds the galaxy still. */
+  readonly rotationSpeed: number;
+  setRotationSpeed: (speed: number, easeSeconds?: number) => void;
+  /** Camera zoom, 1 being the default distance; larger is closer. */
+  readonly zoom: number;
+  setZoom: (zoom: number, easeSeconds?: number) => void;
+  /** The camera's distance from the centre as zoom eases; a camera rig orbits at this distance. */
+  readonly cameraDistance: number;
+  spawnShootingStar: () => void;
+  /** Blends particles toward these colours (e.g. a video frame's dominant ones); `null` fades the tint out. */
+  setTint: (colors: string[] | null) => void;
+  /**
+   * Pulls particles toward `point` (positive strength) or pushes them away
+   * (negative), easing in and out; `null` releases that interactor slot.
+   */
+  setInteractor: (slot: number, point: THREE.Vector3 | null, strength?: number) => void;
+  /** Sends a ring-shaped wave through the particles from `point`. */
+  ripple: (point: THREE.Vector3) => void;
+  /**
+   * Flies a subset of particles in to spell `words` facing the camera, in
+   * `style` (the theme's typeface in capitals by default), while the previously
+   * spelled words dissolve back into the swirl. An empty list dissolves them
+   * all. `instant` swaps them without the flight, for visitors who prefer
+   * reduced motion.
+   */
+  spellWords: (words: string[], style?: SpelledWordStyle, instant?: boolean) => void;
+  /** Lights word `index` of the spelled chunk in the theme's active colour; -1 lights none. */
+  setActiveWord: (index: number) => void;
+  readonly simulationInputs: SimulationInputs;
+  /** Particles drawn; the rest stay allocated so quality can rise again without a rebuild. */
+  readonly particleCount: number;
+  setParticleCount: (count: number) => void;
+  /** Advances time-based transitions; call once per frame. */
+  update: (delta: number) => void;
+  dispose: () => void;
+}
+
+const DEFAULT_THEME_FADE_SECONDS = 1.5;
+const DEFAULT_MORPH_SECONDS = 2.5;
+// Each particle morphs over this fraction of uMorph, offset by aRandom.x, so shapes dissolve rather than slide
+const MORPH_STAGGER = 0.3;
+// Swirl radians per second at rotation speed 1
+const BASE_SPIN_RATE = 0.1;
+export const MAX_ROTATION_SPEED = 5;
+export const BASE_CAMERA_DISTANCE = 70;
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 2.5;
+const DEFAULT_EASE_SECONDS = 1.5;
+const TINT_SLOTS = 3;
+const TINT_STRENGTH = 0.55;
+// How quickly tints follow new frames, per second
+const TINT_FOLLOW_RATE = 1.5;
+/** Pointer plus two tracked hands. */
+export const INTERACTOR_SLOTS = 3;
+const RIPPLE_SLOTS = 4;
+// How quickly interactors ease in and out, per second
+const INTERACTOR_FOLLOW_RATE = 6;
+// Ripples are dropped once they've faded out
+const RIPPLE_LIFETIME_SECONDS = 3;
+// Particle typography recruits the first particles, drawn at every quality level, alternating between two slots
+const WORD_PARTICLES_PER_SLOT = 6000;
+const WORD_FLY_IN_SECONDS = 0.9;
+const WORD_DISSOLVE_SECONDS = 1.2;
+
+/**
+ * Where a particle sits before any audio or interaction moves it: between its
+ * two formation slots, swirled and gently bobbing. Shared by the galaxy's
+ * vertex shader and the simulation, which springs particles toward it.
+ * Expects `uTime` to be declared.
+ */
+export const GALAXY_HOME_GLSL = `
+  uniform float uSpin;
+  uniform float uMorph;
+  uniform float uSwirlA;
+  uniform float uSwirlB;
+  uniform sampler2D uWordTargets;
+  uniform vec2 uWordMix;
+  uniform mat3 uWordBasis;
+
+  // How far a particle recruited to spell a word has flown to its letter, 0–1
+  float wordWeight(vec4 word, vec3 random) {
+    float slot = mod(word.w, 4.0);
+    if (slot < 0.5) return 0.0;
+    float progress = slot < 1.5 ? uWordMix.x : uWordMix.y;
+    return smoothstep(random.x * 0.4, random.x * 0.4 + 0.6, progress);
+  }
+
+  vec3 galaxyHome(vec3 formationA, vec3 formationB, vec3 random) {
+    // Staggered morph between formation slots
+    float morph = smoothstep(random.x * ${MORPH_STAGGER.toFixed(2)}, random.x * ${MORPH_STAGGER.toFixed(2)} + ${(1 - MORPH_STAGGER).toFixed(2)}, uMorph);
+    vec3 home = mix(formationA, formationB, morph);
+    float swirl = mix(uSwirlA, uSwirlB, morph);
+
+    // Swirling galaxy logic; flat formations like text turn it down to stay legible
+    float r = length(home.xz);
+    float angle = atan(home.z, home.x) + (uSpin + r * 0.05) * swirl;
+    home.x = r * cos(angle);
+    home.z = r * sin(angle);
+    home.y += sin(uTime + home.x * 0.1 + random.y * 10.0) * 1.5 * max(swirl, 0.3);
+    return home;
+  }
+
+  // A particle's home, pulled toward its letter while it spells a word
+  vec3 galaxyHome(vec3 formationA, vec3 formationB, vec3 random, vec4 word) {
+    return mix(galaxyHome(formationA, formationB, random), uWordBasis * word.xyz, wordWeight(word, random));
+  }
+`;
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+const createDataTexture = (data: Float32Array) => {
+  const texture = new THREE.DataTexture(data, PARTICLE_TEXTURE_SIZE, PARTICLE_TEXTURE_SIZE, THREE.RGBAFormat, THREE.FloatType);
+  texture.needsUpdate = true;
+  return texture;
+};
+
+/** Copies xyz triples into an RGBA texture's texels. */
+function writeVec3Texture(texture: THREE.DataTexture, values: Float32Array) {
+  const data = texture.image.data as Float32Array;
+  for (let i = 0; i < PARTICLE_COUNT; i++) {
+    data[i * 4] = values[i * 3];
+    data[i * 4 + 1] = values[i * 3 + 1];
+    data[i * 4 + 2] = values[i * 3 + 2];
+  }
+  texture.needsUpdate = true;
+}
+
+interface Ease {
+  from: number;
+  to: number;
+  duration: number;
+  elapsed: number;
+}
+
+/** Advances `ease` by `delta` and returns its smoothstepped value. */
+const stepEase = (ease: Ease, delta: number) => {
+  ease.elapsed += delta;
+  const t = ease.duration > 0 ? Math.min(1, ease.elapsed / ease.duration) : 1;
+  return ease.from + (ease.to - ease.from) * smoothstep(t);
+};
+
+/**
+ * Writes a theme's idle and active colours into one colour slot, using each
+ * particle's fixed selectors so a particle keeps its "role" across themes.
+ */
+function writeThemeColors(theme: GalaxyTheme, selectors: Float32Array, baseColors: Float32Array, activeColors: Float32Array) {
+  const from = new THREE.Color();
+  const to = new THREE.Color();
+  const baseColor = new THREE.Color();
+  const activeColor = new THREE.Color();
+
+  for (let i = 0; i < PARTICLE_COUNT; i++) {
+    const idle = pickPaletteEntry(theme.idlePalette, selectors[i * 4]);
+    from.set(idle.from);
+    to.set(idle.to ?? idle.from);
+    baseColor.copy(from).lerp(to, selectors[i * 4 + 1]);
+
+    const active = pickPaletteEntry(theme.activePalette, selectors[i * 4 + 2]);
+    from.set(active.from);
+    to.set(active.to ?? active.from);
+    activeColor.copy(from).lerp(to, selectors[i * 4 + 3]);
+
+    // Blend a fraction of the idle color into the active color to keep slight
+    // textual variety while forcing shiny stars dark when the AI speaks.
+    activeColor.lerp(baseColor, theme.activeIdleBlend);
+
+    baseColors[i * 3] = baseColor.r;
+    baseColors[i * 3 + 1] = baseColor.g;
+    baseColors[i * 3 + 2] = baseColor.b;
+
+    activeColors[i * 3] = activeColor.r;
+    activeColors[i * 3 + 1] = activeColor.g;
+    activeColors[i * 3 + 2] = activeColor.b;
+  }
+}
+
+/** Copies BandAnalyzer output into the band uniforms; uVolume stays separate. */
+export function applyAudioFeatures(uniforms: GalaxyUniforms, features: AudioFeatures) {
+  uniforms.uBass.value = features.bass;
+  uniforms.uMid.value = features.mid;
+  uniforms.uTreble.value = features.treble;
+  uniforms.uOnset.value = features.onset;
+  uniforms.uCentroid.value = features.centroid;
+}
+
+/**
+ * Builds the particle galaxy, its scene and camera. Shared by the live view and
+ * the offline video exporter so both render exactly the same thing.
+ */
+export function createGalaxy(
+  aspect: number,
+  initialTheme: GalaxyTheme = DEFAULT_THEME,
+  initialReactivity: ReactivityMapping = DEFAULT_REACTIVITY,
+): Galaxy {
+  const scene = new THREE.Scene();
+  const background = new THREE.Color(initialTheme.background);
+  const fog = new THREE.FogExp2(initialTheme.fog.color, initialTheme.fog.density);
+  scene.background = background;
+  scene.fog = fog;
+
+  const camera = new THREE.PerspectiveCamera(60, aspect, 0.1, 1000);
+  camera.position.z = BASE_CAMERA_DISTANCE;
+
+  const geometry = new THREE.BufferGeometry();
+  const randoms = new Float32Array(PARTICLE_COUNT * 3);
+  // Each particle's texel in the simulation textures
+  const simUvs = new Float32Array(PARTICLE_COUNT * 2);
+  // Per-particle palette selectors: idle entry, idle lerp, active entry, active lerp
+  const paletteSelectors = new Float32Array(PARTICLE_COUNT * 4);
+
+  for (let i = 0; i < PARTICLE_COUNT; i++) {
+    for (let k = 0; k < 4; k++) paletteSelectors[i * 4 + k] = Math.random();
+
+    randoms[i * 3] = Math.random();
+    randoms[i * 3 + 1] = Math.random();
+    randoms[i * 3 + 2] = Math.random();
+
+    simUvs[i * 2] = ((i % PARTICLE_TEXTURE_SIZE) + 0.5) / PARTICLE_TEXTURE_SIZE;
+    simUvs[i * 2 + 1] = (Math.floor(i / PARTICLE_TEXTURE_SIZE) + 0.5) / PARTICLE_TEXTURE_SIZE;
+  }
+
+  // Two formation slots: the shader morphs from A to B. `position` keeps the
+  // initial sphere only so three.js has a draw count and bounding sphere.
+  const initialFormation = buildShapeFormation({ kind: 'sphere' }, PARTICLE_COUNT);
+  const formationA = new THREE.BufferAttribute(initialFormation.positions.slice(), 3);
+  const formationB = new THREE.BufferAttribute(initialFormation.positions.slice(), 3);
+
+  // Two colour slots so themes can cross-fade on the GPU
+  const colorSlots = [0, 1].map(() => {
+    const baseColors = new Float32Array(PARTICLE_COUNT * 3);
+    const activeColors = new Float32Array(PARTICLE_COUNT * 3);
+    return {
+      baseColors,
+      activeColors,
+      base: new THREE.BufferAttribute(baseColors, 3),
+      active: new THREE.BufferAttribute(activeColors, 3),
+    };
+  });
+  writeThemeColors(initialTheme, paletteSelectors, colorSlots[0].baseColors, colorSlots[0].activeColors);
+
+  geometry.setAttribute('position', new THREE.BufferAttribute(initialFormation.positions, 3));
+  geometry.setAttribute('aFormationA', formationA);
+  geometry.setAttribute('aFormationB', formationB);
+  geometry.setAttribute('colorBaseA', colorSlots[0].base);
+  geometry.setAttribute('colorActiveA', colorSlots[0].active);
+  geometry.setAttribute('colorBaseB', colorSlots[1].base);
+  geometry.setAttribute('colorActiveB', colorSlots[1].active);
+  geometry.setAttribute('aRandom', new THREE.BufferAttribute(randoms, 3));
+  geometry.setAttribute('aSimUv', new THREE.BufferAttribute(simUvs, 2));
+
+  const simulationInputs: SimulationInputs = {
+    formationA: createDataTexture(new Float32Array(PARTICLE_COUNT * 4)),
+    formationB: createDataTexture(new Float32Array(PARTICLE_COUNT * 4)),
+    randoms: createDataTexture(new Float32Array(PARTICLE_COUNT * 4)),
+    wordTargets: createDataTexture(new Float32Array(PARTICLE_COUNT * 4)),
+  };
+  writeVec3Texture(simulationInputs.formationA, initialFormation.positions);
+  writeVec3Texture(simulationInputs.formationB, initialFormation.positions);
+  writeVec3Texture(simulationInputs.randoms, randoms);
+
+  const uniforms: GalaxyUniforms = {
+    uTime: { value: 0 },
+    uSpin: { value: 0 },
+    uVolume: { value: 0 },
+    uUserVolume: { value: 0 },
+    uBass: { value: 0 },
+    uMid: { value: 0 },
+    uTreble: { value: 0 },
+    uOnset: { value: 0 },
+    uCentroid: { value: 0 },
+    uThemeMix: { value: 0 },
+    uMorph: { value: 1 },
+    uSwirlA: { value: initialFormation.swirl },
+    uSwirlB: { value: initialFormation.swirl },
+    uTints: { value: Array.from({ length: TINT_SLOTS }, () => new THREE.Color(1, 1, 1)) },
+    uTintAmount: { value: 0 },
+    uFocusDistance: { value: BASE_CAMERA_DISTANCE },
+    uDepthOfField: { value: 0 },
+    uInteractors: { value: Array.from({ length: INTERACTOR_SLOTS }, () => new THREE.Vector4()) },
+    uRipples: { value: Array.from({ length: RIPPLE_SLOTS }, () => new THREE.Vector4(0, 0, 0, -1)) },
+    uSimPositions: { value: null },
+    uSimulated: { value: 0 },
+    uWordTargets: { value: simulationInputs.wordTargets },
+    uWordMix: { value: new THREE.Vector2() },
+    uWordBasis: { value: new THREE.Matrix3() },
+    uActiveWord: { value: -1 },
+    uActiveWordColor: { value: new THREE.Color(initialTheme.typography.activeColor) },
+  };
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: uniforms,
+    defines: reactivityDefines(initialReactivity),
+    vertexShader: `
+      precision highp float;
+      uniform float uTime;
+      uniform float uVolume;
+      uniform float uUserVolume;
+      ${REACTIVITY_GLSL}
+      ${GALAXY_HOME_GLSL}
+      uniform float uThemeMix;
+      uniform vec3 uTints[${TINT_SLOTS}];
+      uniform float uTintAmount;
+      uniform float uFocusDistance;
+      uniform float uDepthOfField;
+      uniform vec4 uInteractors[${INTERACTOR_SLOTS}];
+      uniform vec4 uRipples[${RIPPLE_SLOTS}];
+      uniform sampler2D uSimPositions;
+      uniform float uSimulated;
+      uniform float uActiveWord;
+      uniform vec3 uActiveWordColor;
+
+      attribute vec3 aFormationA;
+      attribute vec3 aFormationB;
+      attribute vec3 colorBaseA;
+      attribute vec3 colorActiveA;
+      attribute vec3 colorBaseB;
+      attribute vec3 colorActiveB;
+      attribute vec3 aRandom;
+      attribute vec2 aSimUv;
+
+      varying vec3 vColor;
+      varying vec3 vColorBase;
+      varying vec3 vRandom;
+      varying float vBand;
+      varying float vFocus;
+      varying float vStir;
+      varying float vWord;
+
+      void main() {
+        // Each particle listens to one band: a third each for bass, mid and treble
+        vBand = aRandom.y < 0.333 ? uBass : aRandom.y < 0.666 ? uMid : uTreble;
+
+        vec3 colorBase = mix(colorBaseA, colorBaseB, uThemeMix);
+        vec3 colorActive = mix(colorActiveA, colorActiveB, uThemeMix);
+
+        vRandom = aRandom;
+        vColorBase = colorBase;
+
+        // The simulation carries momentum toward the same home the stateless path computes
+        vec4 word = texture2D(uWordTargets, aSimUv);
+        float wordness = wordWeight(word, aRandom);
+        vec3 posGalaxy = uSimulated > 0.5
+          ? texture2D(uSimPositions, aSimUv).xyz
+          : galaxyHome(aFormationA, aFormationB, aRandom, word);
+        // Particles spelling a word hold still enough to read
+        float restless = 1.0 - wordness * 0.85;
+
+        // Spatial pseudo-repulsion (Dynamic Anti-clumping)
+        // Creates a divergent field based on time, space, and the particle's unique ID.
+        // As particles get close to each other, this unique offset pushes them apart,
+        // creating a dynamic, "dancing" Brownian motion that prevents static clumping.
+        float spatialNoise = sin(posGalaxy.x * 1.5) + cos(posGalaxy.y * 1.5) + sin(posGalaxy.z * 1.5);
+        vec3 repulsionOffset = vec3(
+          sin(uTime * 1.2 + aRandom.x * 30.0 + spatialNoise),
+          cos(uTime * 1.3 + aRandom.y * 30.0 + spatialNoise),
+          sin(uTime * 1.1 + aRandom.z * 30.0 + spatialNoise)
+        ) * 1.5; // Strength of the repulsion
+        
+        posGalaxy += repulsionOffset * restless;
+
+        // Audio reactive outward push
+        vec3 pushDir = normalize(posGalaxy + vec3(0.0001));
+        float pushStrength = reactivityLevel(PUSH_SOURCE, vBand) * (5.0 + aRandom.z * 15.0);
+        // The user's voice draws the galaxy inward, as if it leans in to listen
+        float pullStrength = uUserVolume * (3.0 + aRandom.z * 6.0);
+        vec3 finalPos = posGalaxy + pushDir * (pushStrength - pullStrength) * restless;
+
+        // Pointers and hands stir the field: attractors gather particles, repellers part them
+        vStir = 0.0;
+        for (int i = 0; i < ${INTERACTOR_SLOTS}; i++) {
+          vec4 interactor = uInteractors[i];
+          if (interactor.w == 0.0) continue;
+          vec3 toPoint = interactor.xyz - finalPos;
+          float falloff = exp(-dot(toPoint, toPoint) / 144.0) * abs(interactor.w);
+          finalPos += interactor.w > 0.0
+            ? toPoint * falloff * (0.5 + aRandom.z * 0.3)
+            : -normalize(toPoint + vec3(0.0001)) * falloff * (6.0 + aRandom.z * 6.0);
+          vStir += falloff * 0.5;
+        }
+
+        // Ripples: a ring of displacement racing outward and fading
+        for (int i = 0; i < ${RIPPLE_SLOTS}; i++) {
+          vec4 ripple = uRipples[i];
+          if (ripple.w < 0.0) continue;
+          vec3 away = finalPos - ripple.xyz;
+          float wave = (length(away) - ripple.w * 30.0) / 4.0;
+          float crest = exp(-wave * wave) * exp(-ripple.w * 1.5);
+          finalPos += normalize(away + vec3(0.0001)) * crest * 5.0;
+          vStir += crest;
+        }
+
+        vec4 mvPosition = modelViewMatrix * vec4(finalPos, 1.0);
+        
+        float pulseSize = 1.0 + (reactivityLevel(PULSE_SOURCE, vBand) * 1.5 * aRandom.x);
+        // Strong base size to ensure particles are highly visible when idle
+        float baseSize = 4.5 * pulseSize; 
+        
+        // Depth-of-field: out-of-focus particles grow into dim discs, keeping their total light
+        float blur = uDepthOfField * abs(-mvPosition.z - uFocusDistance);
+        vFocus = 1.0 / ((1.0 + blur) * (1.0 + blur));
+
+        gl_PointSize = baseSize * (1.0 + blur) * (100.0 / max(0.1, -mvPosition.z));
+        gl_Position = projectionMatrix * mvPosition;
+        
+        // Smooth transition between base colors and the moody purple-dominant active colors
+        // Scales quickly so shiny stars disappear instantly when speaking starts
+        float colorLevel = reactivityLevel(COLOR_MIX_SOURCE, vBand);
+        float colorMix = clamp(colorLevel * 3.0 + (aRandom.x * colorLevel), 0.0, 1.0);
+        vColor = mix(colorBase, colorActive, colorMix);
+
+        // Shared video colours bleed into the palette, each particle taking one, lit by its own brightness
+        vec3 tint = aRandom.z < 0.333 ? uTints[0] : aRandom.z < 0.666 ? uTints[1] : uTints[2];
+        float tintLuma = dot(vColor, vec3(0.299, 0.587, 0.114));
+        vColor = mix(vColor, tint * (0.35 + tintLuma * 1.3), uTintAmount);
+
+        // Spelled words glow, the one being spoken in the theme's active colour
+        float activeWord = abs(floor(word.w / 4.0) - uActiveWord) < 0.5 ? 1.0 : 0.0;
+        vColor = mix(vColor, uActiveWordColor, wordness * activeWord * 0.8);
+        vWord = wordness * (0.4 + activeWord * 0.6);
+      }
+    `,
+    fragmentShader: `
+      precision highp float;
+      uniform float uTime;
+      uniform float uVolume;
+      uniform float uUserVolume;
+      ${REACTIVITY_GLSL}
+
+      varying vec3 vColor;
+      varying vec3 vColorBase;
+      varying vec3 vRandom;
+      varying float vBand;
+      varying float vFocus;
+      varying float vStir;
+      varying float vWord;
+      
+      void main() {
+        vec2 pt = gl_PointCoord - vec2(0.5);
+        float distSq = dot(pt, pt);
+        if(distSq > 0.25) discard;
+        
+        float alpha = 1.0 - smoothstep(0.1, 0.5, sqrt(distSq));
+        
+        // Calculate natural luminance of the base color
+        float luma = dot(vColorBase, vec3(0.299, 0.587, 0.114));
+        // Isolate shiny stars (high luminance) from moody purples (low luminance)
+        float shinyFactor = smoothstep(0.15, 0.5, luma);
+        
+        // Force shiny stars to behave like moody purples when zooming/speaking
+        float effectiveShiny = shinyFactor * (1.0 - clamp(uVolume * 4.0, 0.0, 1.0));
+        
+        // Complex, captivating shimmer for the 10% shiny cool stars
+        float shimmerPhase = uTime * 3.0 + vRandom.y * 50.0;
+        float shimmer = sin(shimmerPhase) * cos(shimmerPhase * 0.8 + vRandom.x * 10.0);
+        shimmer = shimmer * 0.5 + 0.5; // Map to 0-1
+        
+        // Deep, pronounced slow pulse for the 90% moody purples
+        float deepPulse = (sin(uTime * 1.5 + vRandom.z * 20.0) * 0.5 + 0.5);
+        
+        // Interpolate the glow logic based on whether it's a shiny star or a moody purple
+        float idleGlow = mix(
+          1.2 + deepPulse * 0.6,   // Moody purples: deep, highly pronounced pulsing glow
+          1.5 + shimmer * 1.4,     // Shiny stars: brighter, gentle but captivating rapid shimmer
+          effectiveShiny
+        );
+        
+        // Add a modest volume boost to the brightness to avoid white-out
+        float brightnessBoost = idleGlow + (uVolume * 1.0);
+
+        // The user's voice lights the idle palette, shiny stars most, where the AI's voice darkens them
+        brightnessBoost += uUserVolume * (0.4 + shinyFactor * 0.8);
+
+        // Voice-driven sparkle across the whole galaxy, on top of the idle shimmer
+        brightnessBoost += reactivityLevel(SHIMMER_SOURCE, vBand) * shimmer * 0.8;
+
+        // Stirred particles catch the light
+        brightnessBoost += vStir * 0.8;
+        brightnessBoost += vWord;
+        
+        vec3 glowColor = vColor * brightnessBoost;
+        
+        gl_FragColor = vec4(glowColor, alpha * 0.95 * vFocus);
+      }
+    `,
+    transparent: true,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+  });
+
+  const particleSystem = new THREE.Points(geometry, material);
+  scene.add(particleSystem);
+  const shootingStars = createShootingStars(scene);
+
+  // --- Theme Cross-fades ---
+  let theme = initialTheme;
+  let currentSlot = 0;
+  let fade: {
+    duration: number;
+    elapsed: number;
+    fromSlot: number;
+    fromBackground: THREE.Color;
+    fromFog: THREE.Color;
+    fromDensity: number;
+  } | null = null;
+  const targetBackground = new THREE.Color(initialTheme.background);
+  const targetFog = new THREE.Color(initialTheme.fog.color);
+
+  const finishFade = () => {
+    if (!fade) return;
+    uniforms.uThemeMix.value = currentSlot;
+    background.copy(targetBackground);
+    fog.color.copy(targetFog);
+    fog.density = theme.fog.density;
+    fade = null;
+  };
+
+  const applyTheme = (next: GalaxyTheme, fadeSeconds = DEFAULT_THEME_FADE_SECONDS) => {
+    // A fade already in flight snaps to its target before the next one starts
+    finishFade();
+    const fromSlot = currentSlot;
+    currentSlot = 1 - currentSlot;
+    const slot = colorSlots[currentSlot];
+    writeThemeColors(next, paletteSelectors, slot.baseColors, slot.activeColors);
+    slot.base.needsUpdate = true;
+    slot.active.needsUpdate = true;
+
+    fade = {
+      duration: Math.max(0, fadeSeconds),
+      elapsed: 0,
+      fromSlot,
+      fromBackground: background.clone(),
+      fromFog: fog.color.clone(),
+      fromDensity: fog.density,
+    };
+    theme = next;
+    uniforms.uActiveWordColor.value.set(next.typography.activeColor);
+    targetBackground.set(next.background);
+    targetFog.set(next.fog.color);
+    if (fade.duration === 0) finishFade();
+  };
+
+  // --- Formation Morphs ---
+  // Slot A is always where a morph starts and slot B where it ends
+  const formationCache = new Map<string, Formation>([[initialFormation.id, initialFormation]]);
+  let formation = initialFormation.id;
+  let morph: { duration: number; elapsed: number } | null = null;
+  let morphRequest = 0;
+
+  const particleMorph = (edge0: number, value: number) => {
+    const t = Math.min(1, Math.max(0, (value - edge0) / (1 - MORPH_STAGGER)));
+    return smoothstep(t);
+  };
+
+  // Collapses what's on screen into slot A so a new morph starts from there, even mid-morph
+  const settleIntoSlotA = () => {
+    const from = formationA.array as Float32Array;
+    const to = formationB.array as Float32Array;
+    const m = uniforms.uMorph.value;
+    if (m >= 1) {
+      from.set(to);
+    } else if (m > 0) {
+      for (let i = 0; i < PARTICLE_COUNT; i++) {
+        const t = particleMorph(randoms[i * 3] * MORPH_STAGGER, m);
+        for (let k = 0; k < 3; k++) from[i * 3 + k] += (to[i * 3 + k] - from[i * 3 + k]) * t;
+      }
+    }
+    uniforms.uSwirlA.value += (uniforms.uSwirlB.value - uniforms.uSwirlA.value) * smoothstep(m);
+    formationA.needsUpdate = true;
+    writeVec3Texture(simulationInputs.formationA, from);
+  };
+
+  const startMorph = (target: Formation, morphSeconds: number) => {
+    settleIntoSlotA();
+    (formationB.array as Float32Array).set(target.positions);
+    formationB.needsUpdate = true;
+    writeVec3Texture(simulationInputs.formationB, target.positions);
+    uniforms.uSwirlB.value = target.swirl;
+    uniforms.uMorph.value = 0;
+    morph = { duration: Math.max(0, morphSeconds), elapsed: 0 };
+    if (morph.duration === 0) {
+      uniforms.uMorph.value = 1;
+      morph = null;
+    }
+  };
+
+  const morphTo = async (spec: FormationSpec, morphSeconds = DEFAULT_MORPH_SECONDS) => {
+    const id = formationId(spec);
+    // Already there, or on the way: a repeat mustn't cancel a morph that's still sampling
+    if (id === formation) return;
+    const request = ++morphRequest;
+    const previous = formation;
+    formation = id;
+
+    let target = formationCache.get(id);
+    if (!target) {
+      try {
+        target = spec.kind === 'text' || spec.kind === 'image'
+          ? await buildFormation(spec, PARTICLE_COUNT)
+          : buildShapeFormation(spec, PARTICLE_COUNT);
+      } catch (err) {
+        if (request === morphRequest) formation = previous;
+        throw err;
+      }
+      formationCache.set(id, target);
+    }
+    // A newer morph was requested while this one was sampling
+    if (request !== morphRequest) return;
+    startMorph(target, morphSeconds);
+  };
+
+  const updateMorph = (delta: number) => {
+    if (!morph) return;
+    morph.elapsed += delta;
+    const t = Math.min(1, morph.elapsed / morph.duration);
+    uniforms.uMorph.value = t;
+    if (t >= 1) morph = null;
+  };
+
+  // --- Reactivity ---
+  let reactivity = initialReactivity;
+  const setReactivity = (mapping: ReactivityMapping) => {
+    reactivity = mapping;
+    material.defines = reactivityDefines(mapping);
+    material.needsUpdate = true;
+  };
+
+  // --- Motion ---
+  let rotationSpeed = 1;
+  let spinEase: Ease | null = null;
+  let zoom = 1;
+  let zoomEase: Ease | null = null;
+  let cameraDistance = BASE_CAMERA_DISTANCE;
+
+  const setRotationSpeed = (speed: number, easeSeconds = DEFAULT_EASE_SECONDS) => {
+    const from = spinEase ? stepEase(spinEase, 0) : rotationSpeed;
+    rotationSpeed = Math.min(MAX_ROTATION_SPEED, Math.max(0, speed));
+    spinEase = { from, to: rotationSpeed, duration: Math.max(0, easeSeconds), elapsed: 0 };
+  };
+
+  const setZoom = (next: number, easeSeconds = DEFAULT_EASE_SECONDS) => {
+    const from = zoomEase ? stepEase(zoomEase, 0) : zoom;
+    zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next));
+    zoomEase = { from, to: zoom, duration: Math.max(0, easeSeconds), elapsed: 0 };
+  };
+
+  // --- Video Tint ---
+  const tintTargets = uniforms.uTints.value.map(color => color.clone());
+  let tintAmountTarget = 0;
+
+  const setTint = (colors: string[] | null) => {
+    tintAmountTarget = colors && colors.length > 0 ? TINT_STRENGTH : 0;
+    if (!colors || colors.length === 0) return;
+    // Fewer colours than slots repeat, so every particle still gets one
+    tintTargets.forEach((target, i) => target.set(colors[i % colors.length]));
+  };
+
+  const updateTint = (delta: number) => {
+    const amount = uniforms.uTintAmount;
+    if (amount.value === 0 && tintAmountTarget === 0) return;
+    const t = Math.min(1, TINT_FOLLOW_RATE * delta);
+    uniforms.uTints.value.forEach((color, i) => color.lerp(tintTargets[i], t));
+    amount.value += (tintAmountTarget - amount.value) * t;
+    if (tintAmountTarget === 0 && amount.value < 0.001) amount.value = 0;
+  };
+
+  // --- Interaction ---
+  const interactorTargets = Array.from({ length: INTERACTOR_SLOTS }, () => ({ point: new THREE.Vector3(), strength: 0 }));
+  let nextRipple = 0;
+
+  const setInteractor = (slot: number, point: THREE.Vector3 | null, strength = 1) => {
+    const target = interactorTargets[slot];
+    if (!target) return;
+    target.strength = point ? strength : 0;
+    if (!point) return;
+    target.point.copy(point);
+    // A fresh interactor appears where it is rather than sliding in from its last spot
+    const current = uniforms.uInteractors.value[slot];
+    if (current.w === 0) current.set(point.x, point.y, point.z, 0);
+  };
+
+  const ripple = (point: THREE.Vector3) => {
+    uniforms.uRipples.value[nextRipple].set(point.x, point.y, point.z, 0);
+    nextRipple = (nextRipple + 1) % RIPPLE_SLOTS;
+  };
+
+  const updateInteraction = (delta: number) => {
+    const t = Math.min(1, INTERACTOR_FOLLOW_RATE * delta);
+    uniforms.uInteractors.value.forEach((current, i) => {
+      const target = interactorTargets[i];
+      if (current.w === 0 && target.strength === 0) return;
+      current.x += (target.point.x - current.x) * t;
+      current.y += (target.point.y - current.y) * t;
+      current.z += (target.point.z - current.z) * t;
+      current.w += (target.strength - current.w) * t;
+      if (target.strength === 0 && Math.abs(current.w) < 0.001) current.w = 0;
+    });
+    for (const r of uniforms.uRipples.value) {
+      if (r.w < 0) continue;
+      r.w += delta;
+      if (r.w > RIPPLE_LIFETIME_SECONDS) r.w = -1;
+    }
+  };
+
+  // --- Particle Typography ---
+  // Two slots of particles take turns: one spells the current chunk while the
+  // other dissolves the previous one back into the swirl
+  const wordData = simulationInputs.wordTargets.image.data as Float32Array;
+  const wordEases: (Ease | null)[] = [null, null];
+  // The slot spelling the current chunk (0 when none), and the one used last
+  let wordSlot = 0;
+  let lastWordSlot = 2;
+  let spelled = '';
+
+  const easeWordSlot = (slot: number, to: number, duration: number) => {
+    const mix = uniforms.uWordMix.value;
+    const from = slot === 1 ? mix.x : mix.y;
+    wordEases[slot - 1] = { from, to, duration, elapsed: 0 };
+  };
+
+  const spellWords = (words: string[], style?: SpelledWordStyle, instant = false) => {
+    const { fontFamily, uppercase } = style ?? { fontFamily: theme.typography.fontFamily, uppercase: true };
+    const text = uppercase ? words.join(' ').toUpperCase() : words.join(' ');
+    // The same words in another face or case are spelled afresh
+    const key = `${fontFamily}|${text}`;
+    if (key === spelled) return;
+    spelled = key;
+    if (wordSlot) easeWordSlot(wordSlot, 0, instant ? 0 : WORD_DISSOLVE_SECONDS);
+    if (words.length === 0) {
+      wordSlot = 0;
+      return;
+    }
+
+    let cloud: WordCloud;
+    try {
+      cloud = buildWordCloud(text.split(' '), WORD_PARTICLES_PER_SLOT, `900 120px ${fontFamily}`);
+    } catch (err) {
+      console.warn('Could not spell words in particles:', err);
+      wordSlot = 0;
+      return;
+    }
+    // The slot being reused may still be dissolving an older chunk; it restarts from the swirl
+    const slot = lastWordSlot === 1 ? 2 : 1;
+    for (let k = 0; k < WORD_PARTICLES_PER_SLOT; k++) {
+      const i = k * 2 + slot - 1;
+      wordData[i * 4] = cloud.positions[k * 3];
+      wordData[i * 4 + 1] = cloud.positions[k * 3 + 1];
+      wordData[i * 4 + 2] = cloud.positions[k * 3 + 2];
+      wordData[i * 4 + 3] = slot + cloud.wordIndices[k] * 4;
+    }
+    simulationInputs.wordTargets.needsUpdate = true;
+    if (slot === 1) uniforms.uWordMix.value.x = 0;
+    else uniforms.uWordMix.value.y = 0;
+    easeWordSlot(slot, 1, instant ? 0 : WORD_FLY_IN_SECONDS);
+    wordSlot = slot;
+    lastWordSlot = slot;
+  };
+
+  const updateWords = (delta: number) => {
+    uniforms.uWordBasis.value.setFromMatrix4(camera.matrixWorld);
+    wordEases.forEach((ease, i) => {
+      if (!ease) return;
+      const value = stepEase(ease, delta);
+      if (i === 0) uniforms.uWordMix.value.x = value;
+      else uniforms.uWordMix.value.y = value;
+      if (ease.elapsed >= ease.duration) wordEases[i] = null;
+    });
+  };
+
+  const updateMotion = (delta: number) => {
+    let speed = rotationSpeed;
+    if (spinEase) {
+      speed = stepEase(spinEase, delta);
+      if (spinEase.elapsed >= spinEase.duration) spinEase = null;
+    }
+    uniforms.uSpin.value += BASE_SPIN_RATE * speed * delta;
+
+    if (zoomEase) {
+      cameraDistance = BASE_CAMERA_DISTANCE / stepEase(zoomEase, delta);
+      camera.position.z = cameraDistance;
+      if (zoomEase.elapsed >= zoomEase.duration) zoomEase = null;
+    }
+    shootingStars.update(delta);
+  };
+
+  const update = (delta: number) => {
+    updateMorph(delta);
+    updateMotion(delta);
+    updateTint(delta);
+    updateInteraction(delta);
+    updateWords(delta);
+    if (!fade) return;
+    fade.elapsed += delta;
+    const t = Math.min(1, fade.elapsed / fade.duration);
+    const eased = smoothstep(t);
+    uniforms.uThemeMix.value = fade.fromSlot + (currentSlot - fade.fromSlot) * eased;
+    background.copy(fade.fromBackground).lerp(targetBackground, eased);
+    fog.color.copy(fade.fromFog).lerp(targetFog, eased);
+    fog.density = fade.fromDensity + (theme.fog.density - fade.fromDensity) * eased;
+    if (t >= 1) finishFade();
+  };
+
+  return {
+    scene,
+    camera,
+    uniforms,
+    get theme() {
+      return theme;
+    },
+    applyTheme,
+    get formation() {
+      return formation;
+    },
+    morphTo,
+    get reactivity() {
+      return reactivity;
+    },
+    setReactivity,
+    get rotationSpeed() {
+      return rotationSpeed;
+    },
+    setRotationSpeed,
+    get zoom() {
+      return zoom;
+    },
+    setZoom,
+    get cameraDistance() {
+      return cameraDistance;
+    },
+    spawnShootingStar: () => shootingStars.spawn(theme.typography.activeColor),
+    setTint,
+    setInteractor,
+    ripple,
+    spellWords,
+    setActiveWord: (index) => {
+      uniforms.uActiveWord.value = index;
+    },
+    simulationInputs,
+    get particleCount() {
+      return geometry.drawRange.count === Infinity ? PARTICLE_COUNT : geometry.drawRange.count;
+    },
+    // aRandom is uniform per index, so any prefix is an even sample of the whole galaxy
+    setParticleCount: (count) => geometry.setDrawRange(0, Math.round(Math.min(PARTICLE_COUNT, Math.max(1, count)))),
+    update,
+    dispose: () => {
+      geometry.dispose();
+      material.dispose();
+      shootingStars.dispose();
+      simulationInputs.formationA.dispose();
+      simulationInputs.formationB.dispose();
+      simulationInputs.randoms.dispose();
+      simulationInputs.wordTargets.dispose();
+    },
+  };
+}
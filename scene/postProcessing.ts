@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/addons/postprocessing/RenderPass.js';
+import { AfterimagePass } from 'three/addons/postprocessing/AfterimagePass.js';
+import { UnrealBloomPass } from 'three/addons/postprocessing/UnrealBloomPass.js';
+import type { Galaxy } from './galaxy';
+import { DEFAULT_POST_PROCESSING } from './themes';
+
+// --- Post-processing ---
+// Bloom and motion trails run as composer passes over the rendered galaxy,
+// both pushed by the AI's voice. Depth-of-field happens in the particle shader
+// instead: a depth pre-pass would see the points' stored positions, not where
+// the vertex shader actually draws them. With every effect off the composer is
+// skipped and the scene renders straight to the canvas, as before.
+
+/** Which effects may run; the theme decides how strongly each one shows. */
+export interface PostEffects {
+  bloom: boolean;
+  trails: boolean;
+  depthOfField: boolean;
+}
+
+export const NO_POST_EFFECTS: PostEffects = { bloom: false, trails: false, depthOfField: false };
+export const ALL_POST_EFFECTS: PostEffects = { bloom: true, trails: true, depthOfField: true };
+
+export interface PostProcessing {
+  readonly effects: PostEffects;
+  setEffects: (effects: PostEffects) => void;
+  /** Logical size in CSS pixels, like WebGLRenderer.setSize. */
+  setSize: (width: number, height: number) => void;
+  setPixelRatio: (ratio: number) => void;
+  /** Renders one frame of the galaxy through the enabled effects. */
+  render: (delta: number) => void;
+  dispose: () => void;
+}
+
+export interface PostProcessingOptions {
+  /** MSAA samples for the composer's buffers; the canvas's own antialiasing doesn't reach them. */
+  samples?: number;
+}
+
+const BLOOM_RADIUS = 0.5;
+const BLOOM_THRESHOLD = 0.35;
+// How far the voice lifts bloom above the theme's resting strength
+const BLOOM_VOLUME_BOOST = 1.5;
+const BLOOM_ONSET_BOOST = 1;
+// Loud syllables stretch trails toward this persistence
+const MAX_TRAIL_PERSISTENCE = 0.95;
+const TRAIL_VOLUME_GAIN = 2.5;
+// Trail persistence is given per 60 fps frame and rescaled to the real frame time
+const TRAIL_REFERENCE_FPS = 60;
+
+export function createPostProcessing(
+  renderer: THREE.WebGLRenderer,
+  galaxy: Galaxy,
+  { samples = 0 }: PostProcessingOptions = {},
+): PostProcessing {
+  const size = renderer.getSize(new THREE.Vector2());
+  const pixelRatio = renderer.getPixelRatio();
+  const target = new THREE.WebGLRenderTarget(size.x * pixelRatio, size.y * pixelRatio, { type: THREE.HalfFloatType, samples });
+  const composer = new EffectComposer(renderer, target);
+  composer.setPixelRatio(pixelRatio);
+  composer.setSize(size.x, size.y);
+
+  const trailsPass = new AfterimagePass();
+  const bloomPass = new UnrealBloomPass(new THREE.Vector2(size.x, size.y), DEFAULT_POST_PROCESSING.bloom, BLOOM_RADIUS, BLOOM_THRESHOLD);
+  composer.addPass(new RenderPass(galaxy.scene, galaxy.camera));
+  composer.addPass(trailsPass);
+  composer.addPass(bloomPass);
+
+  let effects = NO_POST_EFFECTS;
+  const { uniforms } = galaxy;
+
+  const render = (delta: number) => {
+    const amounts = galaxy.theme.postProcessing ?? DEFAULT_POST_PROCESSING;
+    uniforms.uFocusDistance.value = galaxy.camera.position.length();
+    uniforms.uDepthOfField.value = effects.depthOfField ? amounts.depthOfField : 0;
+
+    const bloom = effects.bloom && amounts.bloom > 0;
+    const trails = effects.trails && amounts.trails > 0;
+    if (!bloom && !trails) {
+      renderer.render(galaxy.scene, galaxy.camera);
+      return;
+    }
+
+    const volume = uniforms.uVolume.value;
+    bloomPass.enabled = bloom;
+    bloomPass.strength = amounts.bloom * (1 + volume * BLOOM_VOLUME_BOOST + uniforms.uOnset.value * BLOOM_ONSET_BOOST);
+
+    trailsPass.enabled = trails;
+    const loudness = Math.min(1, volume * TRAIL_VOLUME_GAIN);
+    const persistence = amounts.trails + (MAX_TRAIL_PERSISTENCE - amounts.trails) * loudness;
+    trailsPass.damp = Math.pow(persistence, delta * TRAIL_REFERENCE_FPS);
+
+    composer.render(delta);
+  };
+
+  return {
+    get effects() {
+      return effects;
+    },
+    setEffects: (next) => {
+      effects = next;
+      if (!next.depthOfField) uniforms.uDepthOfField.value = 0;
+    },
+    setSize: (width, height) => composer.setSize(width, height),
+    setPixelRatio: (ratio) => composer.setPixelRatio(ratio),
+    render,
+    dispose: () => {
+      trailsPass.dispose();
+      bloomPass.dispose();
+      composer.dispose();
+    },
+  };
+}
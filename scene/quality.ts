@@ -0,0 +1,191 @@
+import { PARTICLE_COUNT } from './galaxy';
+import type { PostEffects } from './postProcessing';
+
+// --- Render Quality ---
+// Presets trade particle count, pixel ratio, antialiasing, post-processing and
+// the GPU simulation for frame rate. In auto mode a governor watches frame
+// times and steps between presets, so a slow laptop settles on what it can
+// hold and the rAF loop (which also times the teleprompter) stays smooth.
+
+export type QualityLevel = 'low' | 'medium' | 'high' | 'ultra';
+export type QualitySetting = QualityLevel | 'auto';
+
+export interface QualityPreset {
+  /** Particles drawn, out of the PARTICLE_COUNT allocated. */
+  particleCount: number;
+  /** Upper bound on the renderer's pixel ratio; the device's own ratio is used below it. */
+  maxPixelRatio: number;
+  /** Changing this recreates the renderer, so the governor does it rarely. */
+  antialias: boolean;
+  /** Post-processing effects allowed at this level; themes set their strength. */
+  effects: PostEffects;
+  /** Whether particles carry momentum in the GPU simulation, or are drawn stateless. */
+  simulation: boolean;
+}
+
+/** Lowest to highest, the order the governor steps through. */
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  low: {
+    particleCount: Math.round(PARTICLE_COUNT * 0.25),
+    maxPixelRatio: 1,
+    antialias: false,
+    effects: { bloom: false, trails: false, depthOfField: false },
+    simulation: false,
+  },
+  medium: {
+    particleCount: Math.round(PARTICLE_COUNT * 0.5),
+    maxPixelRatio: 1.25,
+    antialias: false,
+    effects: { bloom: true, trails: false, depthOfField: false },
+    simulation: true,
+  },
+  high: {
+    particleCount: Math.round(PARTICLE_COUNT * 0.75),
+    maxPixelRatio: 1.5,
+    antialias: true,
+    effects: { bloom: true, trails: true, depthOfField: false },
+    simulation: true,
+  },
+  ultra: {
+    particleCount: PARTICLE_COUNT,
+    maxPixelRatio: 2,
+    antialias: true,
+    effects: { bloom: true, trails: true, depthOfField: true },
+    simulation: true,
+  },
+};
+
+/** Where auto mode starts before it has measured anything. */
+export const AUTO_START_LEVEL: QualityLevel = 'high';
+
+export const DEFAULT_QUALITY: QualitySetting = 'auto';
+
+export interface GovernorOptions {
+  /** Average frame time (seconds) above which quality steps down. */
+  slowFrameSeconds?: number;
+  /** Average frame time below which quality may step up. */
+  fastFrameSeconds?: number;
+  /** How long frames must stay slow before stepping down. */
+  downgradeAfterSeconds?: number;
+  /** How long frames must stay fast before stepping up. */
+  upgradeAfterSeconds?: number;
+}
+
+const SLOW_FRAME_SECONDS = 1 / 45;
+const FAST_FRAME_SECONDS = 1 / 57;
+const DOWNGRADE_AFTER_SECONDS = 2;
+const UPGRADE_AFTER_SECONDS = 8;
+// Stalls this long are a hidden tab, a GC or a formation being sampled, not the GPU
+const MAX_COUNTED_FRAME_SECONDS = 0.25;
+// Weight of each new frame in the running average
+const FRAME_AVERAGE_RATE = 0.05;
+
+/**
+ * Steps auto quality down when frames run slow and back up when they have been
+ * fast for a while. A level that proved too slow is never tried again, so the
+ * governor settles instead of oscillating.
+ */
+export class PerformanceGovernor {
+  private averageFrame = 1 / 60;
+  private slowFor = 0;
+  private fastFor = 0;
+  private ceiling = QUALITY_LEVELS.length - 1;
+  private index: number;
+
+  private readonly slowFrameSeconds: number;
+  private readonly fastFrameSeconds: number;
+  private readonly downgradeAfterSeconds: number;
+  private readonly upgradeAfterSeconds: number;
+
+  constructor(
+    start: QualityLevel = AUTO_START_LEVEL,
+    {
+      slowFrameSeconds = SLOW_FRAME_SECONDS,
+      fastFrameSeconds = FAST_FRAME_SECONDS,
+      downgradeAfterSeconds = DOWNGRADE_AFTER_SECONDS,
+      upgradeAfterSeconds = UPGRADE_AFTER_SECONDS,
+    }: GovernorOptions = {},
+  ) {
+    this.index = QUALITY_LEVELS.indexOf(start);
+    this.slowFrameSeconds = slowFrameSeconds;
+    this.fastFrameSeconds = fastFrameSeconds;
+    this.downgradeAfterSeconds = downgradeAfterSeconds;
+    this.upgradeAfterSeconds = upgradeAfterSeconds;
+  }
+
+  get level(): QualityLevel {
+    return QUALITY_LEVELS[this.index];
+  }
+
+  /** Smoothed frame time in seconds. */
+  get frameSeconds() {
+    return this.averageFrame;
+  }
+
+  /** Feeds one frame's real duration; returns the new level when it changes, else null. */
+  update(frameSeconds: number): QualityLevel | null {
+    if (frameSeconds <= 0 || frameSeconds > MAX_COUNTED_FRAME_SECONDS) return null;
+    this.averageFrame += (frameSeconds - this.averageFrame) * FRAME_AVERAGE_RATE;
+
+    if (this.averageFrame > this.slowFrameSeconds) {
+      this.slowFor += frameSeconds;
+      this.fastFor = 0;
+    } else if (this.averageFrame < this.fastFrameSeconds) {
+      this.fastFor += frameSeconds;
+      this.slowFor = 0;
+    } else {
+      this.slowFor = 0;
+      this.fastFor = 0;
+    }
+
+    if (this.slowFor >= this.downgradeAfterSeconds && this.index > 0) {
+      this.ceiling = this.index - 1;
+      return this.step(-1);
+    }
+    if (this.fastFor >= this.upgradeAfterSeconds && this.index < this.ceiling) return this.step(1);
+    return null;
+  }
+
+  /** Forgets the running average, e.g. after the tab was hidden. */
+  reset() {
+    this.averageFrame = 1 / 60;
+    this.slowFor = 0;
+    this.fastFor = 0;
+  }
+
+  private step(direction: number): QualityLevel {
+    this.index += direction;
+    this.slowFor = 0;
+    this.fastFor = 0;
+    // The new level gets a fresh measurement rather than inheriting the old average
+    this.averageFrame = (this.slowFrameSeconds + this.fastFrameSeconds) / 2;
+    return this.level;
+  }
+}
+
+const STORAGE_KEY = 'sonic-entity:quality';
+
+export interface QualityPreference {
+  quality: QualitySetting;
+  showStats: boolean;
+}
+
+export function loadQualityPreference(): QualityPreference {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+    const quality = [...QUALITY_LEVELS, 'auto'].includes(stored.quality) ? stored.quality : DEFAULT_QUALITY;
+    return { quality, showStats: stored.showStats === true };
+  } catch {
+    return { quality: DEFAULT_QUALITY, showStats: false };
+  }
+}
+
+export function saveQualityPreference(preference: QualityPreference) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preference));
+  } catch (err) {
+    console.warn('Could not persist quality preference:', err);
+  }
+}
@@ -0,0 +1,106 @@
+// --- Audio Reactivity Mapping ---
+// Decides which audio feature drives each part of the galaxy's response.
+// Sources compile into the shaders as #defines, so a mapping costs nothing
+// per frame; changing it recompiles the material once.
+
+export type ReactivitySource =
+  | 'none'
+  | 'volume'
+  /** The particle's own band: each particle listens to bass, mid or treble. */
+  | 'band'
+  | 'bass'
+  | 'mid'
+  | 'treble'
+  | 'onset'
+  | 'centroid';
+
+export type ReactivityTarget = 'push' | 'pulse' | 'colorMix' | 'shimmer';
+
+export type ReactivityMapping = Record<ReactivityTarget, ReactivitySource>;
+
+export const REACTIVITY_SOURCES: ReactivitySource[] = ['none', 'volume', 'band', 'bass', 'mid', 'treble', 'onset', 'centroid'];
+
+export const DEFAULT_REACTIVITY: ReactivityMapping = {
+  push: 'band',
+  pulse: 'onset',
+  colorMix: 'volume',
+  shimmer: 'treble',
+};
+
+export const REACTIVITY_TARGETS: { target: ReactivityTarget; label: string; hint: string }[] = [
+  { target: 'push', label: 'Push', hint: 'How far particles are thrown outward' },
+  { target: 'pulse', label: 'Pulse', hint: 'How much particles swell' },
+  { target: 'colorMix', label: 'Colour', hint: 'How far colours blend toward the active palette' },
+  { target: 'shimmer', label: 'Shimmer', hint: 'How much particles sparkle' },
+];
+
+export const REACTIVITY_SOURCE_LABELS: Record<ReactivitySource, string> = {
+  none: 'Nothing',
+  volume: 'Volume',
+  band: "Particle's own band",
+  bass: 'Bass',
+  mid: 'Mids',
+  treble: 'Treble',
+  onset: 'Syllable attacks',
+  centroid: 'Brightness',
+};
+
+const DEFINE_NAMES: Record<ReactivityTarget, string> = {
+  push: 'PUSH_SOURCE',
+  pulse: 'PULSE_SOURCE',
+  colorMix: 'COLOR_MIX_SOURCE',
+  shimmer: 'SHIMMER_SOURCE',
+};
+
+export function reactivityDefines(mapping: ReactivityMapping): Record<string, number> {
+  const defines: Record<string, number> = {};
+  for (const target of Object.keys(DEFINE_NAMES) as ReactivityTarget[]) {
+    defines[DEFINE_NAMES[target]] = REACTIVITY_SOURCES.indexOf(mapping[target]);
+  }
+  return defines;
+}
+
+/** Uniforms and the source lookup, shared by the vertex and fragment shaders. */
+export const REACTIVITY_GLSL = `
+  uniform float uBass;
+  uniform float uMid;
+  uniform float uTreble;
+  uniform float uOnset;
+  uniform float uCentroid;
+
+  // Index order matches REACTIVITY_SOURCES; 'source' is always a #define, so this folds away
+  float reactivityLevel(int source, float band) {
+    if (source == 1) return uVolume;
+    if (source == 2) return band;
+    if (source == 3) return uBass;
+    if (source == 4) return uMid;
+    if (source == 5) return uTreble;
+    if (source == 6) return uOnset;
+    // Brightness only means something while there is sound
+    if (source == 7) return uCentroid * uVolume;
+    return 0.0;
+  }
+`;
+
+const STORAGE_KEY = 'sonic-entity:reactivity';
+
+export function loadReactivityMapping(): ReactivityMapping {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+    const mapping = { ...DEFAULT_REACTIVITY };
+    for (const { target } of REACTIVITY_TARGETS) {
+      if (REACTIVITY_SOURCES.includes(stored[target])) mapping[target] = stored[target];
+    }
+    return mapping;
+  } catch {
+    return DEFAULT_REACTIVITY;
+  }
+}
+
+export function saveReactivityMapping(mapping: ReactivityMapping) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mapping));
+  } catch (err) {
+    console.warn('Could not persist reactivity mapping:', err);
+  }
+}
@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+
+// --- Shooting Stars ---
+// Short-lived streaks across the galaxy: a bright head with a trail that
+// tapers and fades, drawn additively so they glow like the particles.
+
+export interface ShootingStars {
+  /** Launches one star on a random path; the oldest is recycled past the cap. */
+  spawn: (color: THREE.ColorRepresentation) => void;
+  update: (delta: number) => void;
+  dispose: () => void;
+}
+
+const MAX_STARS = 8;
+const TRAIL_POINTS = 48;
+// Each trail point lags the one ahead of it by this much of the flight
+const TRAIL_SPACING_SECONDS = 0.006;
+const LIFETIME_SECONDS = 1.3;
+
+interface ShootingStar {
+  points: THREE.Points;
+  origin: THREE.Vector3;
+  velocity: THREE.Vector3;
+  color: THREE.Color;
+  age: number;
+}
+
+export function createShootingStars(scene: THREE.Scene): ShootingStars {
+  const material = new THREE.PointsMaterial({
+    size: 1.6,
+    vertexColors: true,
+    transparent: true,
+    blending: THREE.AdditiveBlending,
+    depthWrite: false,
+    fog: false,
+  });
+  let stars: ShootingStar[] = [];
+
+  const remove = (star: ShootingStar) => {
+    scene.remove(star.points);
+    star.points.geometry.dispose();
+  };
+
+  const spawn = (color: THREE.ColorRepresentation) => {
+    if (stars.length >= MAX_STARS) remove(stars.shift()!);
+
+    // Enter high on one side and fall across and down, like a meteor
+    const side = Math.random() < 0.5 ? -1 : 1;
+    const origin = new THREE.Vector3(side * (35 + Math.random() * 25), 15 + Math.random() * 20, -10 + Math.random() * 30);
+    const velocity = new THREE.Vector3(-side * (60 + Math.random() * 30), -(15 + Math.random() * 15), (Math.random() - 0.5) * 10);
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(TRAIL_POINTS * 3), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(TRAIL_POINTS * 3), 3));
+    const points = new THREE.Points(geometry, material);
+    points.frustumCulled = false;
+    scene.add(points);
+
+    stars.push({ points, origin, velocity, color: new THREE.Color(color), age: 0 });
+  };
+
+  const update = (delta: number) => {
+    if (stars.length === 0) return;
+    for (const star of stars) {
+      star.age += delta;
+      const positions = star.points.geometry.getAttribute('position') as THREE.BufferAttribute;
+      const colors = star.points.geometry.getAttribute('color') as THREE.BufferAttribute;
+      // Quick fade in, long fade out
+      const life = star.age / LIFETIME_SECONDS;
+      const fade = Math.min(1, life * 8) * Math.max(0, 1 - life) ** 1.5;
+
+      for (let i = 0; i < TRAIL_POINTS; i++) {
+        const t = Math.max(0, star.age - i * TRAIL_SPACING_SECONDS);
+        positions.setXYZ(
+          i,
+          star.origin.x + star.velocity.x * t,
+          star.origin.y + star.velocity.y * t,
+          star.origin.z + star.velocity.z * t,
+        );
+        const taper = (1 - i / TRAIL_POINTS) ** 2 * fade;
+        colors.setXYZ(i, star.color.r * taper, star.color.g * taper, star.color.b * taper);
+      }
+      positions.needsUpdate = true;
+      colors.needsUpdate = true;
+    }
+
+    const expired = stars.filter(star => star.age >= LIFETIME_SECONDS);
+    if (expired.length > 0) {
+      expired.forEach(remove);
+      stars = stars.filter(star => star.age < LIFETIME_SECONDS);
+    }
+  };
+
+  return {
+    spawn,
+    update,
+    dispose: () => {
+      stars.forEach(remove);
+      stars = [];
+      material.dispose();
+    },
+  };
+}
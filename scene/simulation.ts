@@ -0,0 +1,237 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer } from 'three/addons/misc/GPUComputationRenderer.js';
+import { GALAXY_HOME_GLSL, Galaxy, PARTICLE_TEXTURE_SIZE } from './galaxy';
+
+// --- GPU Particle Simulation ---
+// Gives every particle a position and velocity that persist between frames,
+// ping-ponged between float render targets. Each particle is sprung toward
+// the home the stateless shader would have drawn it at (formation, morph,
+// swirl and any word it's spelling), so formations still read, while
+// curl-noise flow, gravity wells and audio impulses push it around and its
+// momentum carries the motion on. The galaxy's vertex shader then draws
+// particles from the position texture.
+
+export interface ParticleSimulation {
+  /** Advances the simulation and hands its positions to the galaxy; call once per frame after the galaxy updates. */
+  step: (delta: number) => void;
+  /** Puts every particle back at its home, at rest. */
+  reset: () => void;
+  /** Returns the galaxy to stateless drawing. */
+  dispose: () => void;
+}
+
+export class SimulationUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulationUnsupportedError';
+  }
+}
+
+const WELL_SLOTS = 4;
+// Syllable attacks this strong drop a gravity well into the galaxy
+const WELL_ONSET_THRESHOLD = 0.6;
+const WELL_COOLDOWN_SECONDS = 0.8;
+// Seconds for a well's pull to fall to about a third
+const WELL_LIFETIME_SECONDS = 1.5;
+const WELL_MIN_RADIUS = 8;
+const WELL_MAX_RADIUS = 30;
+// Larger steps would let the spring overshoot; stalls are split into substeps
+const MAX_STEP_SECONDS = 1 / 30;
+const MAX_SUBSTEPS = 4;
+
+// Shared by both passes; GPUComputationRenderer prepends the state samplers
+const SIMULATION_UNIFORMS_GLSL = `
+  uniform float uTime;
+  uniform float uDelta;
+  ${GALAXY_HOME_GLSL}
+  uniform sampler2D uFormationA;
+  uniform sampler2D uFormationB;
+  uniform sampler2D uRandoms;
+`;
+
+const VELOCITY_SHADER = `
+  ${SIMULATION_UNIFORMS_GLSL}
+  uniform float uVolume;
+  uniform float uOnset;
+  uniform vec4 uWells[${WELL_SLOTS}];
+
+  // A smooth vector potential; its curl is a divergence-free flow, so particles swirl without bunching up
+  vec3 potential(vec3 p) {
+    float t = uTime * 0.15;
+    return vec3(
+      sin(p.y + t) * cos(p.z * 1.3 - t * 0.7),
+      sin(p.z + t * 1.1) * cos(p.x * 1.3 + t * 0.5),
+      sin(p.x + t * 0.9) * cos(p.y * 1.3 - t * 0.6)
+    );
+  }
+
+  vec3 curlNoise(vec3 p) {
+    const float e = 0.1;
+    vec3 dx = vec3(e, 0.0, 0.0);
+    vec3 dy = vec3(0.0, e, 0.0);
+    vec3 dz = vec3(0.0, 0.0, e);
+    vec3 px = potential(p + dx) - potential(p - dx);
+    vec3 py = potential(p + dy) - potential(p - dy);
+    vec3 pz = potential(p + dz) - potential(p - dz);
+    return vec3(py.z - pz.y, pz.x - px.z, px.y - py.x) / (2.0 * e);
+  }
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 position = texture2D(texturePosition, uv).xyz;
+    vec3 velocity = texture2D(textureVelocity, uv).xyz;
+    vec3 random = texture2D(uRandoms, uv).xyz;
+    vec4 word = texture2D(uWordTargets, uv);
+    vec3 home = galaxyHome(texture2D(uFormationA, uv).xyz, texture2D(uFormationB, uv).xyz, random, word);
+    // Particles spelling a word are mostly spared the churn, so the word stays legible
+    float restless = 1.0 - wordWeight(word, random) * 0.85;
+
+    // A spring home keeps formations legible however hard the flow pushes
+    vec3 acceleration = (home - position) * 4.0;
+
+    // Curl-noise flow: a slow current while idle, churning as the AI gets louder
+    acceleration += curlNoise(position * 0.06) * (3.0 + uVolume * 30.0) * restless;
+
+    // Gravity wells pull particles in and around them
+    for (int i = 0; i < ${WELL_SLOTS}; i++) {
+      vec4 well = uWells[i];
+      if (well.w == 0.0) continue;
+      vec3 toWell = well.xyz - position;
+      float pull = well.w * 1500.0 / (dot(toWell, toWell) + 16.0);
+      vec3 inward = normalize(toWell + vec3(0.0001));
+      acceleration += (inward + cross(inward, vec3(0.0, 1.0, 0.0)) * 0.6) * pull * restless;
+    }
+
+    // Syllable attacks kick particles outward; the kicks add up in their velocity
+    acceleration += normalize(position + vec3(0.0001)) * uOnset * 120.0 * (0.5 + random.z) * restless;
+
+    velocity += acceleration * uDelta;
+    velocity *= exp(-1.5 * uDelta);
+    gl_FragColor = vec4(velocity, 1.0);
+  }
+`;
+
+const POSITION_SHADER = `
+  ${SIMULATION_UNIFORMS_GLSL}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 position = texture2D(texturePosition, uv).xyz;
+    vec3 velocity = texture2D(textureVelocity, uv).xyz;
+    gl_FragColor = vec4(position + velocity * uDelta, 1.0);
+  }
+`;
+
+const HOME_SHADER = `
+  ${SIMULATION_UNIFORMS_GLSL}
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 random = texture2D(uRandoms, uv).xyz;
+    vec4 word = texture2D(uWordTargets, uv);
+    gl_FragColor = vec4(galaxyHome(texture2D(uFormationA, uv).xyz, texture2D(uFormationB, uv).xyz, random, word), 1.0);
+  }
+`;
+
+/**
+ * Starts simulating the galaxy's particles on `renderer`'s GPU. The render
+ * targets belong to that renderer, so a new renderer needs a new simulation.
+ * Throws SimulationUnsupportedError where float render targets aren't available.
+ */
+export function createParticleSimulation(renderer: THREE.WebGLRenderer, galaxy: Galaxy): ParticleSimulation {
+  const gpu = new GPUComputationRenderer(PARTICLE_TEXTURE_SIZE, PARTICLE_TEXTURE_SIZE, renderer);
+  // Some mobile GPUs can only render to half floats; enough precision for positions this size
+  if (!renderer.extensions.has('EXT_color_buffer_float')) {
+    if (!renderer.extensions.has('EXT_color_buffer_half_float')) {
+      throw new SimulationUnsupportedError('This GPU cannot render to float textures.');
+    }
+    gpu.setDataType(THREE.HalfFloatType);
+  }
+
+  const { uniforms, simulationInputs } = galaxy;
+  const delta = { value: 0 };
+  const wells = Array.from({ length: WELL_SLOTS }, () => new THREE.Vector4());
+  // The galaxy's own uniform objects, so the simulation sees the same morph, swirl and audio
+  const sharedUniforms = () => ({
+    uTime: uniforms.uTime,
+    uSpin: uniforms.uSpin,
+    uMorph: uniforms.uMorph,
+    uSwirlA: uniforms.uSwirlA,
+    uSwirlB: uniforms.uSwirlB,
+    uDelta: delta,
+    uFormationA: { value: simulationInputs.formationA },
+    uFormationB: { value: simulationInputs.formationB },
+    uRandoms: { value: simulationInputs.randoms },
+    uWordTargets: uniforms.uWordTargets,
+    uWordMix: uniforms.uWordMix,
+    uWordBasis: uniforms.uWordBasis,
+  });
+
+  const velocityVariable = gpu.addVariable('textureVelocity', VELOCITY_SHADER, gpu.createTexture());
+  const positionVariable = gpu.addVariable('texturePosition', POSITION_SHADER, gpu.createTexture());
+  gpu.setVariableDependencies(velocityVariable, [positionVariable, velocityVariable]);
+  gpu.setVariableDependencies(positionVariable, [positionVariable, velocityVariable]);
+  Object.assign(velocityVariable.material.uniforms, sharedUniforms(), {
+    uVolume: uniforms.uVolume,
+    uOnset: uniforms.uOnset,
+    uWells: { value: wells },
+  });
+  Object.assign(positionVariable.material.uniforms, sharedUniforms());
+
+  const error = gpu.init();
+  if (error) {
+    gpu.dispose();
+    throw new SimulationUnsupportedError(error);
+  }
+  const homeMaterial = gpu.createShaderMaterial(HOME_SHADER, sharedUniforms());
+
+  // Render targets come back in whatever state the GPU left them; start every particle at home, at rest
+  const reset = () => {
+    for (const target of positionVariable.renderTargets) gpu.doRenderTarget(homeMaterial, target);
+    for (const target of velocityVariable.renderTargets) gpu.renderTexture(velocityVariable.initialValueTexture, target);
+  };
+  reset();
+
+  // --- Gravity Wells ---
+  let nextWell = 0;
+  let wellCooldown = 0;
+
+  const updateWells = (dt: number) => {
+    const decay = Math.exp(-dt / WELL_LIFETIME_SECONDS);
+    for (const well of wells) {
+      well.w *= decay;
+      if (well.w < 0.01) well.w = 0;
+    }
+    wellCooldown = Math.max(0, wellCooldown - dt);
+    const onset = uniforms.uOnset.value;
+    if (onset < WELL_ONSET_THRESHOLD || wellCooldown > 0) return;
+    // Somewhere in the disc, so the pull reads as the galaxy reacting rather than a wall
+    const angle = Math.random() * Math.PI * 2;
+    const radius = WELL_MIN_RADIUS + Math.random() * (WELL_MAX_RADIUS - WELL_MIN_RADIUS);
+    wells[nextWell].set(Math.cos(angle) * radius, (Math.random() - 0.5) * 6, Math.sin(angle) * radius, onset);
+    nextWell = (nextWell + 1) % WELL_SLOTS;
+    wellCooldown = WELL_COOLDOWN_SECONDS;
+  };
+
+  const step = (frameDelta: number) => {
+    const steps = Math.min(MAX_SUBSTEPS, Math.max(1, Math.ceil(frameDelta / MAX_STEP_SECONDS)));
+    delta.value = Math.min(frameDelta / steps, MAX_STEP_SECONDS);
+    updateWells(frameDelta);
+    for (let i = 0; i < steps; i++) gpu.compute();
+    uniforms.uSimPositions.value = gpu.getCurrentRenderTarget(positionVariable).texture;
+    uniforms.uSimulated.value = 1;
+  };
+
+  return {
+    step,
+    reset,
+    dispose: () => {
+      uniforms.uSimulated.value = 0;
+      uniforms.uSimPositions.value = null;
+      velocityVariable.material.dispose();
+      positionVariable.material.dispose();
+      homeMaterial.dispose();
+      gpu.dispose();
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_THEMES, parseTheme, serializeTheme, ThemeFormatError } from './themes';
+
+describe('parseTheme', () => {
+  it.each(BUILT_IN_THEMES.map(theme => [theme.id, theme] as const))('round-trips %s', (_id, theme) => {
+    expect(parseTheme(serializeTheme(theme))).toEqual(theme);
+  });
+
+  it('clamps post-processing into range', () => {
+    const theme = JSON.parse(serializeTheme(BUILT_IN_THEMES[0]));
+    theme.postProcessing = { bloom: 10, trails: -1 };
+    expect(parseTheme(JSON.stringify(theme)).postProcessing).toEqual({ bloom: 3, trails: 0, depthOfField: 0 });
+  });
+
+  it('keeps a fog density of 0 and clamps the rest', () => {
+    const withDensity = (density: unknown) =>
+      parseTheme(JSON.stringify({ ...BUILT_IN_THEMES[0], fog: { ...BUILT_IN_THEMES[0].fog, density } })).fog.density;
+    expect(withDensity(0)).toBe(0);
+    expect(withDensity(-1)).toBe(0);
+    expect(withDensity(5)).toBe(0.1);
+    expect(withDensity('thick')).toBe(BUILT_IN_THEMES[0].fog.density);
+  });
+
+  it('drops unknown keys from palette entries', () => {
+    const theme = { ...BUILT_IN_THEMES[0], idlePalette: [{ from: '#FFFFFF', weight: 1, onload: 'alert(1)' }] };
+    expect(parseTheme(JSON.stringify(theme)).idlePalette).toEqual([{ from: '#FFFFFF', weight: 1 }]);
+  });
+
+  it.each([
+    ['not JSON', '{', /not valid JSON/],
+    ['an array', '[]', /id and a name/],
+    ['a theme without fog', JSON.stringify({ ...BUILT_IN_THEMES[0], fog: null }), /fog\.color/],
+    ['a bad palette entry', JSON.stringify({ ...BUILT_IN_THEMES[0], idlePalette: [null] }), /idlePalette\[0\]\.from/],
+    ['a negative palette weight', JSON.stringify({ ...BUILT_IN_THEMES[0], activePalette: [{ from: '#FFFFFF', weight: -1 }] }), /activePalette\[0\]\.weight/],
+    ['post-processing that is not an object', JSON.stringify({ ...BUILT_IN_THEMES[0], postProcessing: 3 }), /postProcessing/],
+  ])('rejects %s', (_label, json, message) => {
+    expect(() => parseTheme(json)).toThrow(ThemeFormatError);
+    expect(() => parseTheme(json)).toThrow(message);
+  });
+});
@@ -0,0 +1,262 @@
+// --- Galaxy Themes ---
+// Everything that decides how the galaxy and its typography are coloured.
+// Palettes are weighted colour ranges: each particle picks an entry by weight
+// and a random point between `from` and `to`.
+
+export interface PaletteEntry {
+  from: string;
+  /** Defaults to `from` for a solid colour. */
+  to?: string;
+  weight: number;
+}
+
+/** How strongly each post-processing effect shows with this theme; 0 turns it off. */
+export interface ThemePostProcessing {
+  /** Bloom strength at rest; speech lifts it. */
+  bloom: number;
+  /** How long trails linger, 0–0.95; loud syllables stretch them. */
+  trails: number;
+  /** Depth-of-field blur per unit of distance from the galaxy's centre. */
+  depthOfField: number;
+}
+
+export const DEFAULT_POST_PROCESSING: ThemePostProcessing = { bloom: 0.6, trails: 0.5, depthOfField: 0 };
+
+export interface GalaxyTheme {
+  id: string;
+  name: string;
+  /** Colours while the entity is quiet. */
+  idlePalette: PaletteEntry[];
+  /** Colours particles shift to while the AI speaks. */
+  activePalette: PaletteEntry[];
+  /** How much of a particle's idle colour survives into its active colour (0–1). */
+  activeIdleBlend: number;
+  background: string;
+  fog: { color: string; density: number };
+  typography: {
+    fontFamily: string;
+    activeColor: string;
+    textColor: string;
+  };
+  /** Defaults to DEFAULT_POST_PROCESSING; the quality preset decides which effects may run at all. */
+  postProcessing?: ThemePostProcessing;
+}
+
+export const THEME_FILE_EXTENSION = '.theme.json';
+
+export const COSMIC_PURPLE: GalaxyTheme = {
+  id: 'cosmic-purple',
+  name: 'Cosmic Purple',
+  idlePalette: [
+    // 90% moody purples
+    { from: '#1A0033', to: '#4B0082', weight: 0.36 },
+    { from: '#4B0082', to: '#6A1B9A', weight: 0.36 },
+    { from: '#6A1B9A', to: '#1A0033', weight: 0.18 },
+    // 10% shiny cool stars
+    { from: '#00E5FF', weight: 0.05 },
+    { from: '#E0F7FA', weight: 0.05 },
+  ],
+  activePalette: [
+    { from: '#1A0033', to: '#4B0082', weight: 0.6 },
+    { from: '#4B0082', to: '#6A1B9A', weight: 0.4 },
+  ],
+  activeIdleBlend: 0.1,
+  background: '#050510',
+  fog: { color: '#050510', density: 0.015 },
+  typography: { fontFamily: '"Merienda", cursive', activeColor: '#FFD54F', textColor: '#F8F9FA' },
+};
+
+export const SOLAR_GOLD: GalaxyTheme = {
+  id: 'solar-gold',
+  name: 'Solar Gold',
+  idlePalette: [
+    { from: '#2B1400', to: '#7A3E00', weight: 0.45 },
+    { from: '#7A3E00', to: '#C77800', weight: 0.4 },
+    { from: '#FFD54F', weight: 0.1 },
+    { from: '#FFF8E1', weight: 0.05 },
+  ],
+  activePalette: [
+    { from: '#4A2000', to: '#A65E00', weight: 0.7 },
+    { from: '#A65E00', to: '#E09B1A', weight: 0.3 },
+  ],
+  activeIdleBlend: 0.15,
+  background: '#0A0602',
+  fog: { color: '#0A0602', density: 0.015 },
+  typography: { fontFamily: '"Merienda", cursive', activeColor: '#FFF3C4', textColor: '#FBE9D0' },
+  postProcessing: { bloom: 0.9, trails: 0.4, depthOfField: 0 },
+};
+
+export const AURORA: GalaxyTheme = {
+  id: 'aurora',
+  name: 'Aurora',
+  idlePalette: [
+    { from: '#001A14', to: '#00664F', weight: 0.45 },
+    { from: '#00664F', to: '#1B4F72', weight: 0.35 },
+    { from: '#69F0AE', weight: 0.1 },
+    { from: '#B388FF', weight: 0.1 },
+  ],
+  activePalette: [
+    { from: '#003D30', to: '#00897B', weight: 0.6 },
+    { from: '#1B4F72', to: '#4A148C', weight: 0.4 },
+  ],
+  activeIdleBlend: 0.2,
+  background: '#02080A',
+  fog: { color: '#02080A', density: 0.013 },
+  typography: { fontFamily: '"Space Grotesk", sans-serif', activeColor: '#69F0AE', textColor: '#E8FFF6' },
+  // Long trails read as curtains of light
+  postProcessing: { bloom: 0.5, trails: 0.8, depthOfField: 0 },
+};
+
+export const CRIMSON_NEBULA: GalaxyTheme = {
+  id: 'crimson-nebula',
+  name: 'Crimson Nebula',
+  idlePalette: [
+    { from: '#1A0008', to: '#7F0020', weight: 0.5 },
+    { from: '#7F0020', to: '#B71C1C', weight: 0.3 },
+    { from: '#FF8A65', weight: 0.12 },
+    { from: '#FFFFFF', weight: 0.08 },
+  ],
+  activePalette: [
+    { from: '#2A000C', to: '#8E0028', weight: 0.7 },
+    { from: '#8E0028', to: '#C62828', weight: 0.3 },
+  ],
+  activeIdleBlend: 0.1,
+  background: '#0A0205',
+  fog: { color: '#0A0205', density: 0.017 },
+  typography: { fontFamily: '"Cinzel", serif', activeColor: '#FF8A65', textColor: '#FBE9E7' },
+};
+
+export const MONOCHROME: GalaxyTheme = {
+  id: 'monochrome',
+  name: 'Monochrome',
+  idlePalette: [
+    { from: '#111111', to: '#3A3A3A', weight: 0.6 },
+    { from: '#3A3A3A', to: '#6E6E6E', weight: 0.3 },
+    { from: '#FFFFFF', weight: 0.1 },
+  ],
+  activePalette: [{ from: '#1E1E1E', to: '#5A5A5A', weight: 1 }],
+  activeIdleBlend: 0.1,
+  background: '#000000',
+  fog: { color: '#000000', density: 0.015 },
+  typography: { fontFamily: '"Space Grotesk", sans-serif', activeColor: '#FFFFFF', textColor: '#BDBDBD' },
+  postProcessing: { bloom: 0.35, trails: 0.3, depthOfField: 0.02 },
+};
+
+export const BUILT_IN_THEMES: GalaxyTheme[] = [COSMIC_PURPLE, SOLAR_GOLD, AURORA, CRIMSON_NEBULA, MONOCHROME];
+export const DEFAULT_THEME = COSMIC_PURPLE;
+
+export class ThemeFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeFormatError';
+  }
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+type JsonObject = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function assertColor(value: unknown, field: string): asserts value is string {
+  if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+    throw new ThemeFormatError(`${field} must be a #RRGGBB colour.`);
+  }
+}
+
+/** Rebuilds a palette from its validated fields only, so stray keys don't ride along. */
+function parsePalette(value: unknown, field: string): PaletteEntry[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ThemeFormatError(`${field} must be a non-empty list of colours.`);
+  }
+  return value.map((raw: unknown, i) => {
+    const entry: JsonObject = isJsonObject(raw) ? raw : {};
+    const { from, to, weight } = entry;
+    assertColor(from, `${field}[${i}].from`);
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      throw new ThemeFormatError(`${field}[${i}].weight must be a non-negative number.`);
+    }
+    if (to === undefined) return { from, weight };
+    assertColor(to, `${field}[${i}].to`);
+    return { from, to, weight };
+  });
+}
+
+// Beyond this the fog hides the whole galaxy
+const MAX_FOG_DENSITY = 0.1;
+
+const clampNumber = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+function parsePostProcessing(value: unknown): ThemePostProcessing {
+  if (!isJsonObject(value)) throw new ThemeFormatError('postProcessing must be an object.');
+  return {
+    bloom: clampNumber(value.bloom, 0, 3, DEFAULT_POST_PROCESSING.bloom),
+    trails: clampNumber(value.trails, 0, 0.95, DEFAULT_POST_PROCESSING.trails),
+    depthOfField: clampNumber(value.depthOfField, 0, 0.2, DEFAULT_POST_PROCESSING.depthOfField),
+  };
+}
+
+/** Parses and validates a theme exported with `serializeTheme`. */
+export function parseTheme(json: string): GalaxyTheme {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ThemeFormatError('Theme is not valid JSON.');
+  }
+  if (!isJsonObject(data) || typeof data.id !== 'string' || !data.id || typeof data.name !== 'string' || !data.name) {
+    throw new ThemeFormatError('Theme needs an id and a name.');
+  }
+  const fog: JsonObject = isJsonObject(data.fog) ? data.fog : {};
+  const typography: JsonObject = isJsonObject(data.typography) ? data.typography : {};
+  const idlePalette = parsePalette(data.idlePalette, 'idlePalette');
+  const activePalette = parsePalette(data.activePalette, 'activePalette');
+  assertColor(data.background, 'background');
+  assertColor(fog.color, 'fog.color');
+  assertColor(typography.activeColor, 'typography.activeColor');
+  assertColor(typography.textColor, 'typography.textColor');
+
+  return {
+    id: data.id,
+    name: data.name,
+    idlePalette,
+    activePalette,
+    activeIdleBlend: clampNumber(data.activeIdleBlend, 0, 1, 0),
+    background: data.background,
+    // 0 is a valid, fog-free density
+    fog: { color: fog.color, density: clampNumber(fog.density, 0, MAX_FOG_DENSITY, DEFAULT_THEME.fog.density) },
+    typography: {
+      fontFamily: typeof typography.fontFamily === 'string' ? typography.fontFamily : DEFAULT_THEME.typography.fontFamily,
+      activeColor: typography.activeColor,
+      textColor: typography.textColor,
+    },
+    // Themes saved before post-processing existed simply leave it out
+    ...(data.postProcessing !== undefined ? { postProcessing: parsePostProcessing(data.postProcessing) } : {}),
+  };
+}
+
+export function serializeTheme(theme: GalaxyTheme): string {
+  return JSON.stringify(theme, null, 2);
+}
+
+export function downloadTheme(theme: GalaxyTheme) {
+  const url = URL.createObjectURL(new Blob([serializeTheme(theme)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${theme.id}${THEME_FILE_EXTENSION}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Picks a palette entry by weight for selector `r` in [0, 1). */
+export function pickPaletteEntry(palette: PaletteEntry[], r: number): PaletteEntry {
+  const total = palette.reduce((sum, entry) => sum + entry.weight, 0);
+  let threshold = r * total;
+  for (const entry of palette) {
+    if (threshold < entry.weight) return entry;
+    threshold -= entry.weight;
+  }
+  return palette[palette.length - 1];
+}
@@ -0,0 +1,288 @@
+// Local stand-in for the Gemini Live API.
+//
+// Speaks just enough of the WebSocket protocol (no dependencies) to replay a
+// scripted conversation: synthesized 24 kHz PCM in `modelTurn` parts, with the
+// matching `outputTranscription` chunks and a `turnComplete` per turn.
+//
+//   npm run mock-server                 # built-in script
+//   npm run mock-server -- script.json  # custom script (same shape as DEFAULT_SCRIPT)
+//
+// Point the app at it with VOICE_PROVIDER=mock in .env.local.
+//
+// To exercise reconnection, MOCK_LIVE_DROP_AFTER_MS=15000 drops every
+// connection after that long without a close frame, like a network failure.
+// Sessions hand out resumption handles at the end of each turn, and a client
+// that reconnects with one picks the script up from the next turn.
+//
+// A turn's optional `toolCalls` ([{ name, args }]) are sent as a `toolCall`
+// before its audio; the client's `toolResponse` is logged. Typed messages
+// (`clientContent`) get a short spoken acknowledgement straight away.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+
+const PORT = Number(process.env.MOCK_LIVE_PORT || 8787);
+const DROP_AFTER_MS = Number(process.env.MOCK_LIVE_DROP_AFTER_MS || 0);
+const HANDLE_PREFIX = 'mock-turn-';
+const SAMPLE_RATE = 24000;
+const AUDIO_PACKET_SECONDS = 0.25;
+const SECONDS_PER_WORD = 0.32;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// Each turn is a list of transcription chunks, mirroring how the Live API
+// streams a few words of transcript ahead of the audio they belong to, plus an
+// optional `user` line replayed as input transcription.
+const DEFAULT_SCRIPT = {
+  loop: true,
+  idleGapMs: 4000,
+  turns: [
+    { chunks: ['Hello, traveler.', 'I am the galaxy', 'you hear humming', 'around you.'] },
+    {
+      user: 'What are you made of?',
+      toolCalls: [{ name: 'spawnShootingStar', args: { count: 3 } }],
+      chunks: ['Every word I speak', 'ripples through', 'forty thousand stars.'],
+    },
+    { chunks: ['Ask me anything,', 'and watch the light', 'bend to answer.'], interruptAfterMs: 2500 },
+  ],
+};
+
+const loadScript = () => {
+  const file = process.argv[2];
+  if (!file) return DEFAULT_SCRIPT;
+  return { ...DEFAULT_SCRIPT, ...JSON.parse(readFileSync(file, 'utf8')) };
+};
+
+// --- PCM Synthesis ---
+// A vowel-ish tone with one amplitude envelope per word, so the analyser and
+// teleprompter see something shaped like real speech.
+function synthesizeChunk(text, seed) {
+  const words = text.split(/\s+/).filter(Boolean);
+  const totalSamples = Math.round(words.length * SECONDS_PER_WORD * SAMPLE_RATE);
+  const pcm = new Int16Array(totalSamples);
+  const wordSamples = totalSamples / Math.max(1, words.length);
+  const baseFreq = 140 + (seed % 5) * 12;
+
+  for (let i = 0; i < totalSamples; i++) {
+    const t = i / SAMPLE_RATE;
+    const inWord = (i % wordSamples) / wordSamples;
+    // Attack/decay per word with a short silent gap at the end
+    const envelope = inWord < 0.8 ? Math.sin((inWord / 0.8) * Math.PI) : 0;
+    const vibrato = Math.sin(2 * Math.PI * 5 * t) * 4;
+    const f = baseFreq + vibrato;
+    const sample =
+      Math.sin(2 * Math.PI * f * t) * 0.6 +
+      Math.sin(2 * Math.PI * f * 2 * t) * 0.25 +
+      Math.sin(2 * Math.PI * f * 3 * t) * 0.15;
+    pcm[i] = Math.max(-1, Math.min(1, sample * envelope * 0.5)) * 32767;
+  }
+  return pcm;
+}
+
+function* turnMessages(turn, turnIndex) {
+  // Optional scripted user line, as if the server had transcribed the mic
+  if (turn.user) yield { serverContent: { inputTranscription: { text: turn.user } } };
+
+  if (turn.toolCalls?.length) {
+    const functionCalls = turn.toolCalls.map((call, i) => ({ id: `mock-call-${turnIndex}-${i}`, ...call }));
+    yield { toolCall: { functionCalls } };
+  }
+
+  for (let c = 0; c < turn.chunks.length; c++) {
+    const text = turn.chunks[c];
+    yield { serverContent: { outputTranscription: { text: ` ${text}` } } };
+
+    const pcm = synthesizeChunk(text, turnIndex + c);
+    const packetSamples = Math.round(AUDIO_PACKET_SECONDS * SAMPLE_RATE);
+    for (let offset = 0; offset < pcm.length; offset += packetSamples) {
+      const slice = pcm.subarray(offset, offset + packetSamples);
+      const data = Buffer.from(slice.buffer, slice.byteOffset, slice.byteLength).toString('base64');
+      yield {
+        serverContent: {
+          modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${SAMPLE_RATE}`, data } }] },
+        },
+      };
+    }
+  }
+  yield { serverContent: { turnComplete: true } };
+}
+
+const turnDurationMs = (turn) =>
+  turn.chunks.reduce((sum, text) => sum + text.split(/\s+/).filter(Boolean).length, 0) * SECONDS_PER_WORD * 1000;
+
+// --- Minimal WebSocket Framing ---
+function encodeFrame(payload, opcode = 0x1) {
+  const body = Buffer.isBuffer(payload) ? payload : Buffer.from(payload);
+  let header;
+  if (body.length < 126) {
+    header = Buffer.from([0x80 | opcode, body.length]);
+  } else if (body.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(body.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(body.length), 2);
+  }
+  return Buffer.concat([header, body]);
+}
+
+// Returns [frames, remainder]; client frames are always masked.
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length - cursor < 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length - cursor < 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (buffer.length - cursor < 4 + length) break;
+    const mask = buffer.subarray(cursor, cursor + 4);
+    cursor += 4;
+    const payload = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) payload[i] = buffer[cursor + i] ^ mask[i % 4];
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return [frames, buffer.subarray(offset)];
+}
+
+// --- Session ---
+function runSession(socket, script) {
+  const timers = new Set();
+  let closed = false;
+  let micBytes = 0;
+
+  const send = (message) => {
+    if (!closed) socket.write(encodeFrame(JSON.stringify(message)));
+  };
+  const later = (fn, ms) => {
+    const id = setTimeout(() => {
+      timers.delete(id);
+      fn();
+    }, ms);
+    timers.add(id);
+  };
+
+  let resumable = false;
+
+  const playTurn = (index) => {
+    if (closed) return;
+    if (index >= script.turns.length) {
+      if (!script.loop) return;
+      index = 0;
+    }
+    const turn = script.turns[index];
+    // Stream the whole turn up front, faster than realtime, like the Live API does
+    for (const message of turnMessages(turn, index)) send(message);
+
+    const duration = turnDurationMs(turn);
+    if (typeof turn.interruptAfterMs === 'number' && turn.interruptAfterMs > 0) {
+      later(() => send({ serverContent: { interrupted: true } }), turn.interruptAfterMs);
+    }
+    if (resumable) {
+      later(() => send({ sessionResumptionUpdate: { newHandle: `${HANDLE_PREFIX}${index + 1}`, resumable: true } }), duration);
+    }
+    later(() => playTurn(index + 1), duration + script.idleGapMs);
+  };
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    const [frames, rest] = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const { opcode, payload } of frames) {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(Buffer.alloc(0), 0x8));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(payload, 0xa));
+        continue;
+      }
+      if (opcode !== 0x1) continue;
+
+      const message = JSON.parse(payload.toString('utf8'));
+      if (message.setup) {
+        const resumption = message.setup.config?.sessionResumption;
+        resumable = Boolean(resumption);
+        const handle = resumption?.handle;
+        const startTurn = handle?.startsWith(HANDLE_PREFIX) ? Number(handle.slice(HANDLE_PREFIX.length)) || 0 : 0;
+        console.log(handle ? `[mock-live] resuming ${handle} at turn ${startTurn}` : '[mock-live] setup received, starting script');
+        send({ setupComplete: {} });
+        later(() => playTurn(startTurn), 1000);
+        if (DROP_AFTER_MS > 0) {
+          later(() => {
+            console.log('[mock-live] dropping connection');
+            socket.destroy();
+          }, DROP_AFTER_MS);
+        }
+      } else if (message.realtimeInput) {
+        const media = message.realtimeInput.media || message.realtimeInput.audio;
+        if (media?.data) micBytes += Buffer.byteLength(media.data, 'base64');
+        // Push-to-talk and half-duplex mark where the user's audio starts and stops
+        if (message.realtimeInput.activityStart) console.log('[mock-live] activity start');
+        if (message.realtimeInput.activityEnd) console.log('[mock-live] activity end');
+        if (message.realtimeInput.audioStreamEnd) console.log('[mock-live] audio stream end');
+      } else if (message.clientContent) {
+        const turns = [].concat(message.clientContent.turns ?? []);
+        const text = turns.flatMap(turn => turn.parts ?? []).map(part => part.text ?? '').join(' ').trim();
+        console.log(`[mock-live] typed message: ${text}`);
+        if (text) {
+          const reply = { chunks: ['I read your words:', text.split(/\s+/).slice(0, 12).join(' ')] };
+          for (const out of turnMessages(reply, 0)) send(out);
+        }
+      } else if (message.toolResponse) {
+        console.log('[mock-live] tool response:', JSON.stringify(message.toolResponse.functionResponses));
+      }
+    }
+  });
+
+  const stop = () => {
+    if (closed) return;
+    closed = true;
+    timers.forEach(clearTimeout);
+    timers.clear();
+    console.log(`[mock-live] client disconnected (${(micBytes / 1024).toFixed(1)} KiB of mic audio received)`);
+  };
+  socket.on('close', stop);
+  socket.on('error', stop);
+}
+
+const script = loadScript();
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket endpoint');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  );
+  console.log('[mock-live] client connected');
+  runSession(socket, script);
+});
+
+server.listen(PORT, () => {
+  // MOCK_LIVE_PORT=0 picks a free port, so tests can run their own server side by side
+  console.log(`[mock-live] listening on ws://localhost:${server.address().port} (${script.turns.length} scripted turns)`);
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { BandAnalyzer, SILENT_FEATURES } from './bands';
+
+const SAMPLE_RATE = 48000;
+const BINS = 1024;
+const BIN_HZ = SAMPLE_RATE / 2 / BINS;
+// smoothVolume reaches a rising target in exactly one frame of this length
+const FRAME = 1 / 16;
+
+/** An analyser frame with `level` in every bin between `fromHz` and `toHz`. */
+const spectrum = (fromHz: number, toHz: number, level: number) =>
+  Uint8Array.from({ length: BINS }, (_, i) => (i * BIN_HZ >= fromHz && i * BIN_HZ < toHz ? level : 0));
+
+describe('BandAnalyzer', () => {
+  it('stays silent on silence', () => {
+    expect(new BandAnalyzer(SAMPLE_RATE).analyze(new Uint8Array(BINS), FRAME)).toEqual(SILENT_FEATURES);
+  });
+
+  it.each([
+    ['bass', 0, 240],
+    ['mid', 300, 1900],
+    ['treble', 2100, 20000],
+  ] as const)('maps energy between the band edges to %s', (band, fromHz, toHz) => {
+    const features = new BandAnalyzer(SAMPLE_RATE).analyze(spectrum(fromHz, toHz, 200), FRAME);
+    expect(features[band]).toBe(1);
+    for (const other of (['bass', 'mid', 'treble'] as const).filter(key => key !== band)) {
+      expect(features[other]).toBe(0);
+    }
+  });
+
+  it('scales between the gate and the band maximum', () => {
+    // Bass gates at 20 and is full at 180
+    expect(new BandAnalyzer(SAMPLE_RATE).analyze(spectrum(0, 240, 20), FRAME).bass).toBe(0);
+    expect(new BandAnalyzer(SAMPLE_RATE).analyze(spectrum(0, 240, 100), FRAME).bass).toBeCloseTo(0.5);
+  });
+
+  it('releases more slowly than it attacks', () => {
+    const analyzer = new BandAnalyzer(SAMPLE_RATE);
+    analyzer.analyze(spectrum(0, 240, 200), FRAME);
+    expect(analyzer.analyze(new Uint8Array(BINS), FRAME).bass).toBeCloseTo(0.75);
+  });
+
+  it('places the centroid by brightness', () => {
+    const dark = new BandAnalyzer(SAMPLE_RATE).analyze(spectrum(100, 240, 200), FRAME).centroid;
+    const bright = new BandAnalyzer(SAMPLE_RATE).analyze(spectrum(3500, 4700, 200), FRAME).centroid;
+    expect(dark).toBe(0);
+    expect(bright).toBeGreaterThan(0.8);
+    expect(bright).toBeLessThanOrEqual(1);
+  });
+
+  it('fires an onset on a sudden rise, then lets it decay', () => {
+    const analyzer = new BandAnalyzer(SAMPLE_RATE);
+    analyzer.analyze(new Uint8Array(BINS), FRAME);
+    const loud = spectrum(0, 20000, 100);
+    expect(analyzer.analyze(loud, FRAME).onset).toBe(1);
+    // A steady sound has no flux
+    expect(analyzer.analyze(loud, FRAME).onset).toBeCloseTo(1 - 5 * FRAME);
+  });
+
+  it("doesn't fire on the first frame it sees", () => {
+    expect(new BandAnalyzer(SAMPLE_RATE).analyze(spectrum(0, 20000, 100), FRAME).onset).toBe(0);
+  });
+
+  it('forgets everything on reset', () => {
+    const analyzer = new BandAnalyzer(SAMPLE_RATE);
+    const loud = spectrum(0, 20000, 100);
+    analyzer.analyze(loud, FRAME);
+    analyzer.reset();
+    expect(analyzer.analyze(new Uint8Array(BINS), FRAME)).toEqual(SILENT_FEATURES);
+    // With no previous frame, the same loud frame isn't an onset
+    analyzer.reset();
+    expect(analyzer.analyze(loud, FRAME).onset).toBe(0);
+  });
+});
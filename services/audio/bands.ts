@@ -0,0 +1,109 @@
+import { smoothVolume } from './volume';
+
+// --- Analyser → Band Features ---
+// Splits the analyser's spectrum into the texture of a voice: where its
+// energy sits (bass/mid/treble, spectral centroid) and when syllables land
+// (onsets). Shared by the live render loop and the offline video exporter.
+
+export interface AudioFeatures {
+  /** Smoothed 0–1 band energies. */
+  bass: number;
+  mid: number;
+  treble: number;
+  /** Jumps to 1 on a spectral-flux onset, then decays. */
+  onset: number;
+  /** Brightness of the sound, 0 (dark, ~200 Hz) to 1 (bright, ~5 kHz). */
+  centroid: number;
+}
+
+export const SILENT_FEATURES: AudioFeatures = { bass: 0, mid: 0, treble: 0, onset: 0, centroid: 0 };
+
+interface Band {
+  key: 'bass' | 'mid' | 'treble';
+  minHz: number;
+  maxHz: number;
+  /** Byte magnitudes at or below this are treated as silence. */
+  gate: number;
+  /** Byte magnitude that maps to full energy; treble runs much quieter than bass in speech. */
+  max: number;
+}
+
+const BANDS: Band[] = [
+  { key: 'bass', minHz: 20, maxHz: 250, gate: 20, max: 180 },
+  { key: 'mid', minHz: 250, maxHz: 2000, gate: 10, max: 130 },
+  { key: 'treble', minHz: 2000, maxHz: Infinity, gate: 3, max: 50 },
+];
+
+const CENTROID_MIN_HZ = 200;
+const CENTROID_MAX_HZ = 5000;
+// AnalyserNode maps its default -100..-30 dB range onto 0–255; silence stays exactly 0
+const BYTE_TO_MAGNITUDE = Float32Array.from({ length: 256 }, (_, byte) => byte === 0 ? 0 : Math.pow(10, (byte / 255 * 70 - 100) / 20));
+const ONSET_DECAY_PER_SECOND = 5;
+// A frame is an onset when its flux beats the running mean by this factor
+const ONSET_SENSITIVITY = 1.6;
+const ONSET_MIN_FLUX = 2;
+const FLUX_MEAN_RATE = 3;
+
+export class BandAnalyzer {
+  private features: AudioFeatures = { ...SILENT_FEATURES };
+  private previous: Uint8Array | null = null;
+  private fluxMean = 0;
+
+  constructor(private readonly sampleRate: number) {}
+
+  /** Folds one analyser frame into the features; call once per rendered frame. */
+  analyze(frequencyData: Uint8Array, delta: number): AudioFeatures {
+    const binHz = this.sampleRate / 2 / frequencyData.length;
+    const next = { ...this.features };
+
+    for (const band of BANDS) {
+      const from = Math.max(0, Math.floor(band.minHz / binHz));
+      const to = Math.min(frequencyData.length, Math.ceil(band.maxHz / binHz));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += frequencyData[i];
+      const avg = to > from ? sum / (to - from) : 0;
+      const energy = avg <= band.gate ? 0 : Math.min(1, (avg - band.gate) / (band.max - band.gate));
+      next[band.key] = smoothVolume(this.features[band.key], energy, delta);
+    }
+
+    // Spectral centroid of linear magnitudes (the bytes are decibels), on a
+    // log scale so it tracks perceived brightness
+    let weighted = 0;
+    let total = 0;
+    for (let i = 1; i < frequencyData.length; i++) {
+      const magnitude = BYTE_TO_MAGNITUDE[frequencyData[i]];
+      weighted += i * binHz * magnitude;
+      total += magnitude;
+    }
+    if (total > 0) {
+      const hz = Math.min(CENTROID_MAX_HZ, Math.max(CENTROID_MIN_HZ, weighted / total));
+      const centroid = Math.log(hz / CENTROID_MIN_HZ) / Math.log(CENTROID_MAX_HZ / CENTROID_MIN_HZ);
+      next.centroid = smoothVolume(this.features.centroid, centroid, delta);
+    } else {
+      next.centroid = smoothVolume(this.features.centroid, 0, delta);
+    }
+
+    // Onsets: positive spectral flux against its own running mean
+    let flux = 0;
+    if (this.previous && this.previous.length === frequencyData.length) {
+      for (let i = 0; i < frequencyData.length; i++) {
+        const rise = frequencyData[i] - this.previous[i];
+        if (rise > 0) flux += rise;
+      }
+      flux /= frequencyData.length;
+    }
+    this.previous = Uint8Array.from(frequencyData);
+    const isOnset = flux > ONSET_MIN_FLUX && flux > this.fluxMean * ONSET_SENSITIVITY;
+    this.fluxMean += (flux - this.fluxMean) * Math.min(1, FLUX_MEAN_RATE * delta);
+    next.onset = isOnset ? 1 : Math.max(0, this.features.onset - ONSET_DECAY_PER_SECOND * delta);
+
+    this.features = next;
+    return next;
+  }
+
+  reset() {
+    this.features = { ...SILENT_FEATURES };
+    this.previous = null;
+    this.fluxMean = 0;
+  }
+}
@@ -0,0 +1,71 @@
+// --- Audio Device Selection ---
+// Lists microphones and speakers, follows plug/unplug events, and routes an
+// AudioContext to a chosen speaker where the browser supports setSinkId.
+
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+export const NO_AUDIO_DEVICES: AudioDevices = { inputs: [], outputs: [] };
+
+/** Empty id means "the system default". */
+export const DEFAULT_DEVICE_ID = '';
+
+// AudioContext.setSinkId isn't in TypeScript's DOM lib yet
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/** Labels stay empty until the page has been granted mic access. */
+export async function listAudioDevices(): Promise<AudioDevices> {
+  if (!navigator.mediaDevices?.enumerateDevices) return NO_AUDIO_DEVICES;
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // The "default" and "communications" aliases duplicate a real device, and the empty id already means default
+  const real = devices.filter(d => d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications');
+  return {
+    inputs: real.filter(d => d.kind === 'audioinput'),
+    outputs: real.filter(d => d.kind === 'audiooutput'),
+  };
+}
+
+/** Calls `listener` with the device lists now and whenever a device is plugged in or removed. */
+export function watchAudioDevices(listener: (devices: AudioDevices) => void): () => void {
+  let stopped = false;
+  const refresh = () => {
+    listAudioDevices()
+      .then(devices => { if (!stopped) listener(devices); })
+      .catch(err => console.warn('Could not list audio devices:', err));
+  };
+  refresh();
+  navigator.mediaDevices?.addEventListener('devicechange', refresh);
+  return () => {
+    stopped = true;
+    navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  };
+}
+
+export function micConstraints(deviceId: string): MediaStreamConstraints {
+  return {
+    audio: {
+      echoCancellation: true,
+      noiseSuppression: true,
+      ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+    },
+  };
+}
+
+/** The device a stream's first audio track is reading from, if the browser reports it. */
+export const streamDeviceId = (stream: MediaStream) => stream.getAudioTracks()[0]?.getSettings().deviceId ?? DEFAULT_DEVICE_ID;
+
+export const supportsOutputSelection = () =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/** Routes `ctx` to a speaker; resolves false where the browser can't choose. */
+export async function setOutputDevice(ctx: AudioContext, deviceId: string): Promise<boolean> {
+  const sinkable = ctx as SinkableAudioContext;
+  if (!sinkable.setSinkId) return false;
+  await sinkable.setSinkId(deviceId);
+  return true;
+}
+
+export const deviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label || `${device.kind === 'audioinput' ? 'Microphone' : 'Speaker'} ${index + 1}`;
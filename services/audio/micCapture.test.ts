@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { PCM_ENCODER_SOURCE } from './micCapture';
+
+type Encode = (input: Float32Array) => void;
+
+const { toBase64, createPcmEncoder } = new Function(`${PCM_ENCODER_SOURCE}\nreturn { toBase64, createPcmEncoder };`)() as {
+  toBase64: (bytes: Uint8Array) => string;
+  createPcmEncoder: (inputRate: number, targetRate: number, chunkSamples: number, emit: (data: string) => void) => Encode;
+};
+
+const samplesOf = (base64: string) => {
+  const bytes = Buffer.from(base64, 'base64');
+  return Array.from(new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 2));
+};
+
+/** Feeds `blocks` through a fresh encoder and returns every sample it emitted. */
+const encode = (inputRate: number, targetRate: number, chunkSamples: number, blocks: number[][]) => {
+  const chunks: string[] = [];
+  const process = createPcmEncoder(inputRate, targetRate, chunkSamples, data => chunks.push(data));
+  blocks.forEach(block => process(Float32Array.from(block)));
+  return { chunks, samples: chunks.flatMap(samplesOf) };
+};
+
+const ramp = (length: number) => Array.from({ length }, (_, i) => i / 100);
+
+describe('toBase64', () => {
+  it.each([0, 1, 2, 3, 4, 5, 64])('matches the standard encoding for %d bytes', (length) => {
+    const bytes = Uint8Array.from({ length }, (_, i) => (i * 37 + 11) % 256);
+    expect(toBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+  });
+});
+
+describe('createPcmEncoder', () => {
+  it('converts to 16-bit, clipping anything outside -1..1', () => {
+    const { samples } = encode(16000, 16000, 6, [[0, 0.5, 1, -1, 1.5, -1.5]]);
+    expect(samples).toEqual([0, 16383, 32767, -32768, 32767, -32768]);
+  });
+
+  it('emits only whole chunks and keeps the remainder for the next block', () => {
+    const { chunks } = encode(16000, 16000, 4, [[0, 0, 0], [0, 0, 0], [0, 0]]);
+    expect(chunks).toHaveLength(2);
+    expect(chunks.every(chunk => samplesOf(chunk).length === 4)).toBe(true);
+  });
+
+  it('downsamples by picking every third sample at 48 kHz', () => {
+    const { samples } = encode(48000, 16000, 3, [ramp(9)]);
+    expect(samples).toEqual([0, 0.03, 0.06].map(s => Math.trunc(s * 0x7fff)));
+  });
+
+  it('interpolates when upsampling, across block boundaries', () => {
+    const { samples } = encode(16000, 48000, 7, [[0, 0.3], [0.6]]);
+    const expected = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6].map(s => Math.trunc(s * 0x7fff));
+    samples.forEach((sample, i) => expect(Math.abs(sample - expected[i])).toBeLessThanOrEqual(1));
+  });
+
+  it.each([
+    [48000, 16000],
+    [44100, 16000],
+    [16000, 24000],
+  ])('gives the same stream at %d → %d Hz however the input is split', (inputRate, targetRate) => {
+    const input = ramp(96);
+    const whole = encode(inputRate, targetRate, 8, [input]);
+    const odd = encode(inputRate, targetRate, 8, [input.slice(0, 5), input.slice(5, 38), input.slice(38, 39), input.slice(39)]);
+    expect(odd.samples).toEqual(whole.samples);
+    expect(whole.samples.length).toBeGreaterThan(0);
+  });
+
+  it('ignores empty blocks', () => {
+    expect(encode(48000, 16000, 2, [[], [0, 0, 0, 0, 0, 0], []]).chunks).toHaveLength(1);
+  });
+});
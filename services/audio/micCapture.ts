@@ -0,0 +1,239 @@
+import type { Blob as GenAIBlob } from '@google/genai';
+
+// --- Off-Main-Thread Mic Capture ---
+// Float32 → Int16 conversion, resampling and base64 chunking all happen inside
+// an AudioWorklet (or a Worker when worklets are unavailable), so the particle
+// render loop never competes with the mic pipeline for main-thread time.
+
+export const TARGET_SAMPLE_RATE = 16000;
+const DEFAULT_CHUNK_SAMPLES = 4096;
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+export type MicCaptureMode = 'worklet' | 'worker';
+
+export interface MicCaptureOptions {
+  /** Sample rate sent to the backend; input is linearly resampled when the context differs. */
+  targetSampleRate?: number;
+  /** Samples per emitted chunk at the target rate (4096 ≈ 256 ms at 16 kHz). */
+  chunkSamples?: number;
+}
+
+export interface MicCapture {
+  readonly mode: MicCaptureMode;
+  stop(): void;
+}
+
+// Shared by the worklet and the worker. Plain JS so it can be inlined into a
+// Blob URL: AudioWorkletGlobalScope has no btoa, hence the hand-rolled base64.
+// Exported so tests can evaluate it outside either scope.
+export const PCM_ENCODER_SOURCE = `
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function toBase64(bytes) {
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += BASE64_ALPHABET[(n >> 18) & 63] + BASE64_ALPHABET[(n >> 12) & 63] +
+      BASE64_ALPHABET[(n >> 6) & 63] + BASE64_ALPHABET[n & 63];
+  }
+  const rest = bytes.length - i;
+  if (rest === 1) {
+    const n = bytes[i] << 16;
+    out += BASE64_ALPHABET[(n >> 18) & 63] + BASE64_ALPHABET[(n >> 12) & 63] + '==';
+  } else if (rest === 2) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    out += BASE64_ALPHABET[(n >> 18) & 63] + BASE64_ALPHABET[(n >> 12) & 63] +
+      BASE64_ALPHABET[(n >> 6) & 63] + '=';
+  }
+  return out;
+}
+
+function createPcmEncoder(inputRate, targetRate, chunkSamples, emit) {
+  const ratio = inputRate / targetRate;
+  let chunk = new Int16Array(chunkSamples);
+  let filled = 0;
+  // Fractional read position relative to the current block; -1 is the last sample of the previous block
+  let position = 0;
+  let lastSample = 0;
+
+  const push = (s) => {
+    const clamped = Math.max(-1, Math.min(1, s));
+    chunk[filled++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
+    if (filled === chunkSamples) {
+      emit(toBase64(new Uint8Array(chunk.buffer)));
+      chunk = new Int16Array(chunkSamples);
+      filled = 0;
+    }
+  };
+
+  return function process(input) {
+    const n = input.length;
+    if (n === 0) return;
+    if (ratio === 1) {
+      for (let i = 0; i < n; i++) push(input[i]);
+      return;
+    }
+    while (position <= n - 1) {
+      const i0 = Math.floor(position);
+      const frac = position - i0;
+      const s0 = i0 < 0 ? lastSample : input[i0];
+      const s1 = i0 + 1 < n ? input[i0 + 1] : s0;
+      push(s0 + (s1 - s0) * frac);
+      position += ratio;
+    }
+    position -= n;
+    lastSample = input[n - 1];
+  };
+}
+`;
+
+const WORKLET_SOURCE = `${PCM_ENCODER_SOURCE}
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSamples } = options.processorOptions;
+    this.encode = createPcmEncoder(sampleRate, targetSampleRate, chunkSamples, (data) => {
+      this.port.postMessage(data);
+    });
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.encode(channel);
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const WORKER_SOURCE = `${PCM_ENCODER_SOURCE}
+let encode = null;
+self.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    encode = createPcmEncoder(message.inputSampleRate, message.targetSampleRate, message.chunkSamples, (data) => {
+      self.postMessage(data);
+    });
+  } else if (message.type === 'samples' && encode) {
+    encode(message.samples);
+  }
+};
+`;
+
+const toBlobUrl = (source: string) =>
+  URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+
+// addModule is per-context, so remember which contexts already have the processor
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+async function startWorkletCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  sink: AudioNode,
+  options: Required<MicCaptureOptions>,
+  onChunk: (data: string) => void,
+): Promise<MicCapture> {
+  if (!registeredContexts.has(ctx)) {
+    const url = toBlobUrl(WORKLET_SOURCE);
+    try {
+      await ctx.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    registeredContexts.add(ctx);
+  }
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: options,
+  });
+  node.port.onmessage = (event: MessageEvent<string>) => onChunk(event.data);
+  source.connect(node);
+  node.connect(sink);
+
+  return {
+    mode: 'worklet',
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect(node);
+      node.disconnect();
+    },
+  };
+}
+
+function startWorkerCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  sink: AudioNode,
+  options: Required<MicCaptureOptions>,
+  onChunk: (data: string) => void,
+): MicCapture {
+  const url = toBlobUrl(WORKER_SOURCE);
+  const worker = new Worker(url);
+  URL.revokeObjectURL(url);
+  worker.postMessage({ type: 'init', inputSampleRate: ctx.sampleRate, ...options });
+  worker.onmessage = (event: MessageEvent<string>) => onChunk(event.data);
+
+  // The ScriptProcessor only copies samples out; all encoding runs in the worker
+  const processor = ctx.createScriptProcessor(4096, 1, 1);
+  processor.onaudioprocess = (audioProcessingEvent) => {
+    const samples = audioProcessingEvent.inputBuffer.getChannelData(0).slice();
+    worker.postMessage({ type: 'samples', samples }, [samples.buffer]);
+  };
+  source.connect(processor);
+  processor.connect(sink);
+
+  return {
+    mode: 'worker',
+    stop: () => {
+      processor.onaudioprocess = null;
+      source.disconnect(processor);
+      processor.disconnect();
+      worker.terminate();
+    },
+  };
+}
+
+/**
+ * Streams mic audio from `source` as base64 PCM chunks ready for `sendRealtimeInput`.
+ * Prefers an AudioWorklet and falls back to a Worker if the worklet can't be loaded.
+ */
+export async function startMicCapture(
+  ctx: AudioContext,
+  source: AudioNode,
+  onChunk: (blob: GenAIBlob) => void,
+  { targetSampleRate = TARGET_SAMPLE_RATE, chunkSamples = DEFAULT_CHUNK_SAMPLES }: MicCaptureOptions = {},
+): Promise<MicCapture> {
+  const options = { targetSampleRate, chunkSamples };
+  const mimeType = `audio/pcm;rate=${targetSampleRate}`;
+  const emit = (data: string) => onChunk({ data, mimeType });
+
+  // Capture nodes must reach the destination to be pulled, but should stay silent
+  const sink = ctx.createGain();
+  sink.gain.value = 0;
+  sink.connect(ctx.destination);
+
+  let capture: MicCapture;
+  if (ctx.audioWorklet) {
+    try {
+      capture = await startWorkletCapture(ctx, source, sink, options, emit);
+    } catch (err) {
+      console.warn('AudioWorklet capture unavailable, falling back to Worker:', err);
+      capture = startWorkerCapture(ctx, source, sink, options, emit);
+    }
+  } else {
+    capture = startWorkerCapture(ctx, source, sink, options, emit);
+  }
+
+  return {
+    mode: capture.mode,
+    stop: () => {
+      capture.stop();
+      sink.disconnect();
+    },
+  };
+}
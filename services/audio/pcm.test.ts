@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { decode, decodeAudioData } from './pcm';
+
+/** Just enough of an AudioContext to build buffers in memory. */
+const fakeContext = () => ({
+  createBuffer: (channels: number, length: number, sampleRate: number) => {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { numberOfChannels: channels, length, sampleRate, getChannelData: (channel: number) => data[channel] };
+  },
+}) as unknown as AudioContext;
+
+const pcmBytes = (...samples: number[]) => new Uint8Array(Int16Array.from(samples).buffer);
+
+describe('decode', () => {
+  it('turns base64 into bytes', () => {
+    expect(decode('AAH/gA==')).toEqual(Uint8Array.from([0, 1, 255, 128]));
+    expect(decode('')).toEqual(new Uint8Array(0));
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('scales 16-bit samples to -1..1', async () => {
+    const buffer = await decodeAudioData(pcmBytes(0, 16384, -32768, 32767), fakeContext(), 24000, 1);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+
+  it('splits interleaved channels', async () => {
+    const buffer = await decodeAudioData(pcmBytes(16384, -16384, 8192, -8192), fakeContext(), 24000, 2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, -0.25]);
+  });
+
+  it('drops a trailing half sample', async () => {
+    const bytes = Uint8Array.from([...pcmBytes(16384, -16384), 7]);
+    const buffer = await decodeAudioData(bytes, fakeContext(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -0.5]);
+  });
+
+  it('reads only its own view of a shared buffer', async () => {
+    const shared = new Uint8Array(8);
+    shared.set(pcmBytes(16384), 3);
+    const buffer = await decodeAudioData(shared.subarray(3, 5), fakeContext(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5]);
+  });
+});
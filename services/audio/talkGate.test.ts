@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { TalkGate } from './talkGate';
+
+describe('TalkGate', () => {
+  it('always passes audio on an open mic', () => {
+    const gate = new TalkGate('open');
+    expect(gate.isOpen(false, 0)).toBe(true);
+    expect(gate.isOpen(true, 1)).toBe(true);
+    expect(gate.press()).toBe(false);
+  });
+
+  describe('push-to-talk', () => {
+    it('passes audio only while held', () => {
+      const gate = new TalkGate('push-to-talk');
+      expect(gate.isOpen(false, 0)).toBe(false);
+      expect(gate.press()).toBe(true);
+      expect(gate.isHeld).toBe(true);
+      expect(gate.isOpen(false, 1)).toBe(true);
+      // The AI talking doesn't close a held gate
+      expect(gate.isOpen(true, 2)).toBe(true);
+      expect(gate.release()).toBe(true);
+      expect(gate.isOpen(false, 3)).toBe(false);
+    });
+
+    it('reports only the first press and release of a turn', () => {
+      const gate = new TalkGate('push-to-talk');
+      expect(gate.release()).toBe(false);
+      expect(gate.press()).toBe(true);
+      expect(gate.press()).toBe(false);
+      expect(gate.release()).toBe(true);
+      expect(gate.release()).toBe(false);
+    });
+  });
+
+  describe('half-duplex', () => {
+    it('closes while the AI plays and for the echo tail after it stops', () => {
+      const gate = new TalkGate('half-duplex', 0.5);
+      expect(gate.isOpen(false, 0)).toBe(true);
+      expect(gate.isOpen(true, 10)).toBe(false);
+      expect(gate.isOpen(false, 10.25)).toBe(false);
+      expect(gate.isOpen(false, 10.5)).toBe(true);
+    });
+
+    it('times the tail from the last moment the AI was heard', () => {
+      const gate = new TalkGate('half-duplex', 0.5);
+      gate.isOpen(true, 10);
+      gate.isOpen(true, 12);
+      expect(gate.isOpen(false, 12.25)).toBe(false);
+      expect(gate.isOpen(false, 12.5)).toBe(true);
+    });
+
+    it('ignores the talk button', () => {
+      const gate = new TalkGate('half-duplex');
+      expect(gate.press()).toBe(false);
+      expect(gate.isHeld).toBe(false);
+    });
+  });
+});
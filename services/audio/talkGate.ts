@@ -0,0 +1,51 @@
+import type { TalkMode } from '../settings/sessionSettings';
+
+// --- Talk Gate ---
+// Decides whether captured mic audio reaches the session. Open mic always
+// passes it through; push-to-talk only while the talk key or button is held;
+// half-duplex only when the AI is silent, so speakers without echo
+// cancellation can't feed the AI its own voice.
+
+// Playback ends a moment before the room does; wait out the tail of the echo
+const HALF_DUPLEX_TAIL_SECONDS = 0.3;
+
+export class TalkGate {
+  private held = false;
+  private lastAiAudio = -Infinity;
+
+  constructor(readonly mode: TalkMode, private readonly tailSeconds = HALF_DUPLEX_TAIL_SECONDS) {}
+
+  get isHeld() {
+    return this.held;
+  }
+
+  /** Starts a push-to-talk turn; false if the mode isn't push-to-talk or the turn already started. */
+  press(): boolean {
+    if (this.mode !== 'push-to-talk' || this.held) return false;
+    this.held = true;
+    return true;
+  }
+
+  /** Ends a push-to-talk turn; false if none was in progress. */
+  release(): boolean {
+    if (!this.held) return false;
+    this.held = false;
+    return true;
+  }
+
+  /** Whether mic audio should be sent, given if AI audio is playing at `now` (seconds). */
+  isOpen(aiPlaying: boolean, now: number): boolean {
+    switch (this.mode) {
+      case 'push-to-talk':
+        return this.held;
+      case 'half-duplex':
+        if (aiPlaying) {
+          this.lastAiAudio = now;
+          return false;
+        }
+        return now - this.lastAiAudio >= this.tailSeconds;
+      default:
+        return true;
+    }
+  }
+}
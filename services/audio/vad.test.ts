@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { VoiceActivityDetector } from './vad';
+
+// A power of two, so accumulated frame times are exact
+const FRAME = 0.125;
+
+/** Feeds `seconds` of constant `energy`; returns what each frame reported. */
+const feed = (vad: VoiceActivityDetector, energy: number, seconds: number, delta = FRAME) =>
+  Array.from({ length: Math.round(seconds / delta) }, () => vad.update(energy, delta));
+
+/** A detector that has learned a room with a noise floor of `floor`. */
+const warmedUp = (options?: ConstructorParameters<typeof VoiceActivityDetector>[0], floor = 10) => {
+  const vad = new VoiceActivityDetector(options);
+  feed(vad, floor, 0.5);
+  return vad;
+};
+
+describe('VoiceActivityDetector', () => {
+  it('reports nothing while it learns the room', () => {
+    const vad = new VoiceActivityDetector();
+    expect(feed(vad, 80, 0.5)).toEqual([false, false, false, false]);
+  });
+
+  it("doesn't spend its warm-up on digital silence", () => {
+    const vad = new VoiceActivityDetector();
+    feed(vad, 0, 2);
+    expect(vad.update(50, FRAME)).toBe(false);
+    expect(warmedUp().update(50, FRAME)).toBe(true);
+  });
+
+  it('needs sustained energy above the floor before reporting speech', () => {
+    const vad = warmedUp();
+    expect(feed(vad, 50, 0.1, 0.05)).toEqual([false, true]);
+  });
+
+  it('only hears energy that clears the floor by the margin', () => {
+    expect(feed(warmedUp({ margin: 6 }), 15, 0.5)).not.toContain(true);
+    expect(feed(warmedUp({ margin: 4 }), 15, 0.5)).toContain(true);
+  });
+
+  it('holds speech through the hangover, then lets go', () => {
+    const vad = warmedUp({ hangoverSeconds: 0.45 });
+    feed(vad, 50, 0.5);
+    expect(vad.isSpeaking).toBe(true);
+    // 0.125, 0.25 and 0.375 s of quiet are a pause; 0.5 s ends the speech
+    expect(feed(vad, 10, 0.5)).toEqual([true, true, true, false]);
+  });
+
+  it('keeps speaking through a short dip', () => {
+    const vad = warmedUp();
+    feed(vad, 50, 0.5);
+    feed(vad, 10, 0.25);
+    expect(vad.update(50, FRAME)).toBe(true);
+    expect(feed(vad, 10, 0.375)).toEqual([true, true, true]);
+  });
+
+  it('lets a steady hum raise the floor until it no longer reads as speech', () => {
+    const vad = warmedUp();
+    const frames = feed(vad, 30, 30);
+    expect(frames[0]).toBe(true);
+    expect(frames[frames.length - 1]).toBe(false);
+  });
+
+  it('starts learning the room again after a reset', () => {
+    const vad = warmedUp();
+    feed(vad, 50, 0.5);
+    vad.reset();
+    expect(vad.isSpeaking).toBe(false);
+    expect(vad.update(50, FRAME)).toBe(false);
+  });
+});
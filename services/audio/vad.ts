@@ -0,0 +1,80 @@
+// --- Client-side Voice Activity Detection ---
+// A light energy VAD over the mic analyser, used for UI feedback only: the
+// server still decides turn-taking. It tracks the room's noise floor so a
+// fan or hum doesn't read as speech.
+
+export interface VadOptions {
+  /** How far above the noise floor (in analyser magnitude units) speech must rise. */
+  margin?: number;
+  /** Seconds of sustained energy before speech is reported. */
+  attackSeconds?: number;
+  /** Seconds speech is held after energy drops, so pauses between words don't flicker. */
+  hangoverSeconds?: number;
+}
+
+const DEFAULT_MARGIN = 6;
+const DEFAULT_ATTACK_SECONDS = 0.08;
+const DEFAULT_HANGOVER_SECONDS = 0.45;
+// The floor falls quickly to quiet rooms and rises slowly, and slower still
+// during speech so a long sentence can't drag it up (steady hum still escapes)
+const FLOOR_FALL_RATE = 2.0;
+const FLOOR_RISE_RATE = 0.5;
+const FLOOR_RISE_RATE_SPEAKING = 0.05;
+// The floor follows the room directly at first, before any speech is reported
+const WARMUP_SECONDS = 0.5;
+const MIN_FLOOR = 1;
+
+export class VoiceActivityDetector {
+  private noiseFloor = MIN_FLOOR;
+  private warmup = WARMUP_SECONDS;
+  private aboveFor = 0;
+  private belowFor = 0;
+  private speaking = false;
+
+  private readonly margin: number;
+  private readonly attackSeconds: number;
+  private readonly hangoverSeconds: number;
+
+  constructor({ margin = DEFAULT_MARGIN, attackSeconds = DEFAULT_ATTACK_SECONDS, hangoverSeconds = DEFAULT_HANGOVER_SECONDS }: VadOptions = {}) {
+    this.margin = margin;
+    this.attackSeconds = attackSeconds;
+    this.hangoverSeconds = hangoverSeconds;
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  /** Feeds one frame's average magnitude; returns whether the user is speaking. */
+  update(energy: number, delta: number): boolean {
+    if (this.warmup > 0) {
+      // Digital silence means no input is connected yet; don't spend the warm-up on it
+      if (energy > 0) this.warmup -= delta;
+      this.noiseFloor = Math.max(MIN_FLOOR, energy);
+      return false;
+    }
+
+    const riseRate = this.speaking ? FLOOR_RISE_RATE_SPEAKING : FLOOR_RISE_RATE;
+    const rate = energy < this.noiseFloor ? FLOOR_FALL_RATE : riseRate;
+    this.noiseFloor = Math.max(MIN_FLOOR, this.noiseFloor + (energy - this.noiseFloor) * Math.min(1, rate * delta));
+
+    if (energy > this.noiseFloor + this.margin) {
+      this.aboveFor += delta;
+      this.belowFor = 0;
+      if (this.aboveFor >= this.attackSeconds) this.speaking = true;
+    } else {
+      this.belowFor += delta;
+      this.aboveFor = 0;
+      if (this.belowFor >= this.hangoverSeconds) this.speaking = false;
+    }
+    return this.speaking;
+  }
+
+  reset() {
+    this.noiseFloor = MIN_FLOOR;
+    this.warmup = WARMUP_SECONDS;
+    this.aboveFor = 0;
+    this.belowFor = 0;
+    this.speaking = false;
+  }
+}
@@ -0,0 +1,24 @@
+// --- Analyser → uVolume Mapping ---
+// Shared by the live render loop and the offline video exporter.
+
+const NOISE_GATE = 3;
+const MAX_VOLUME = 60;
+
+export function averageMagnitude(frequencyData: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < frequencyData.length; i++) { sum += frequencyData[i]; }
+  return sum / frequencyData.length;
+}
+
+/** Maps the analyser's average magnitude to a gated 0–1 volume. */
+export function gateVolume(avgVolume: number): number {
+  if (avgVolume <= NOISE_GATE) return 0;
+  const volume = (avgVolume - NOISE_GATE) / (MAX_VOLUME - NOISE_GATE);
+  return Math.min(1.0, Math.max(0.0, volume));
+}
+
+/** Fast attack, slow release. */
+export function smoothVolume(current: number, target: number, delta: number): number {
+  const lerpSpeed = target > current ? 16.0 : 4.0;
+  return current + (target - current) * lerpSpeed * delta;
+}
@@ -0,0 +1,29 @@
+import type { Content, LiveSendClientContentParameters, Part, PartUnion } from '@google/genai';
+
+// --- Typed Turns ---
+// Text the user types goes to the Live session as a complete client-content
+// turn, so the model answers it the same way it answers speech.
+
+export const MAX_TEXT_TURN_LENGTH = 2000;
+
+export function textTurn(text: string): LiveSendClientContentParameters {
+  return {
+    turns: [{ role: 'user', parts: [{ text: text.slice(0, MAX_TEXT_TURN_LENGTH) }] }],
+    turnComplete: true,
+  };
+}
+
+const partText = (part: PartUnion) => (typeof part === 'string' ? part : part.text ?? '');
+
+const isContent = (item: Content | PartUnion): item is Content =>
+  typeof item !== 'string' && ('parts' in item || 'role' in item);
+
+/** The plain text of a client-content message, whichever union shape it uses. */
+export function clientContentText({ turns }: LiveSendClientContentParameters): string {
+  if (!turns) return '';
+  const items = (Array.isArray(turns) ? turns : [turns]) as (Content | PartUnion)[];
+  return items
+    .map(item => (isContent(item) ? (item.parts ?? []).map(partText).join('') : partText(item as Part | string)))
+    .join(' ')
+    .trim();
+}
@@ -0,0 +1,106 @@
+import type { KineticText } from '../teleprompter/kinetic';
+import { DEFAULT_THEME, GalaxyTheme } from '../../scene/themes';
+
+// --- Canvas Kinetic Typography ---
+// A 2D-canvas rendition of GalaxyScene's HTML word overlay, so exported frames
+// carry the same burned-in typography. Sizes are authored for a 1080p frame.
+
+const REFERENCE_HEIGHT = 1080;
+const FONT_SIZE = 72;
+const GAP_X = 20;
+const GAP_Y = 16;
+const MAX_LINE_WIDTH = 1152;
+const PADDING = 32;
+
+type Typography = GalaxyTheme['typography'];
+
+// Matches the overlay's stacked text-shadow
+const SHADOWS = [
+  { offsetY: 12, blur: 35, color: 'rgba(0,0,0,1)' },
+  { offsetY: 5, blur: 15, color: 'rgba(0,0,0,0.9)' },
+  { offsetY: 0, blur: 10, color: 'rgba(0,0,0,0.8)' },
+];
+
+/** Waits for the overlay font so the first frames don't render in a fallback face. */
+export async function loadKineticFont(typography: Typography = DEFAULT_THEME.typography) {
+  if (document.fonts) await document.fonts.load(`900 ${FONT_SIZE}px ${typography.fontFamily}`);
+}
+
+export function paintKineticText(
+  ctx: CanvasRenderingContext2D,
+  text: KineticText,
+  width: number,
+  height: number,
+  typography: Typography = DEFAULT_THEME.typography,
+) {
+  if (text.words.length === 0) return;
+
+  const scale = height / REFERENCE_HEIGHT;
+  // The overlay switches to 5.4vw below the md breakpoint
+  const fontSize = width < 768 ? width * 0.054 : FONT_SIZE * scale;
+  const gapX = GAP_X * scale;
+  const gapY = GAP_Y * scale;
+  const maxLineWidth = Math.min(MAX_LINE_WIDTH * scale, width - PADDING * 2 * scale);
+
+  ctx.save();
+  ctx.font = `900 ${fontSize}px ${typography.fontFamily}`;
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'center';
+  // Not in every browser's canvas yet
+  if ('letterSpacing' in ctx) ctx.letterSpacing = `${-0.05 * fontSize}px`;
+
+  // Flex-wrap layout: greedy lines, each centred
+  const words = text.words.map(word => word.toUpperCase());
+  const widths = words.map(word => ctx.measureText(word).width);
+  const lines: number[][] = [[]];
+  let lineWidth = 0;
+  words.forEach((_, i) => {
+    const line = lines[lines.length - 1];
+    const needed = line.length === 0 ? widths[i] : lineWidth + gapX + widths[i];
+    if (line.length > 0 && needed > maxLineWidth) {
+      lines.push([i]);
+      lineWidth = widths[i];
+    } else {
+      line.push(i);
+      lineWidth = needed;
+    }
+  });
+
+  const blockHeight = lines.length * fontSize + (lines.length - 1) * gapY;
+  let y = (height - blockHeight) / 2 + fontSize / 2;
+
+  for (const line of lines) {
+    const total = line.reduce((sum, i) => sum + widths[i], 0) + gapX * (line.length - 1);
+    let x = (width - total) / 2;
+    for (const i of line) {
+      const isActive = i === text.activeIndex;
+      const isSpoken = i < text.activeIndex;
+      const wordScale = isActive ? 1.1 : isSpoken ? 1.0 : 0.95;
+      const cx = x + widths[i] / 2;
+
+      ctx.save();
+      ctx.globalAlpha = isActive ? 1 : isSpoken ? 0.9 : 0.4;
+      ctx.translate(cx, y);
+      ctx.scale(wordScale, wordScale);
+
+      // Draw shadows from an off-canvas copy so they don't stack the fill's opacity
+      const away = width * 4;
+      for (const shadow of SHADOWS) {
+        ctx.shadowColor = shadow.color;
+        ctx.shadowBlur = shadow.blur * scale;
+        ctx.shadowOffsetX = away * wordScale;
+        ctx.shadowOffsetY = shadow.offsetY * scale;
+        ctx.fillStyle = '#000';
+        ctx.fillText(words[i], -away, 0);
+      }
+      ctx.shadowColor = 'transparent';
+      ctx.fillStyle = isActive ? typography.activeColor : typography.textColor;
+      ctx.fillText(words[i], 0, 0);
+      ctx.restore();
+
+      x += widths[i] + gapX;
+    }
+    y += fontSize + gapY;
+  }
+  ctx.restore();
+}
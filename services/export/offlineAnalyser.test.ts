@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { OfflineAnalyser } from './offlineAnalyser';
+
+const SAMPLE_RATE = 24000;
+
+const sine = (hz: number, amplitude: number, length = 4096) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE));
+
+const peakBin = (data: Uint8Array) => data.indexOf(Math.max(...data));
+
+describe('OfflineAnalyser', () => {
+  it('reads silence, and samples before the buffer starts, as zero', () => {
+    const analyser = new OfflineAnalyser();
+    const out = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(sine(1000, 0.5), 0, out);
+    expect(out.every(byte => byte === 0)).toBe(true);
+  });
+
+  it('puts a tone in its frequency bin', () => {
+    const analyser = new OfflineAnalyser({ fftSize: 512, smoothingTimeConstant: 0 });
+    const out = new Uint8Array(analyser.frequencyBinCount);
+    // Bin 20 of 256 at 24 kHz is centred on 937.5 Hz
+    // Quiet enough not to saturate the neighbouring bins
+    analyser.getByteFrequencyData(sine(937.5, 0.01), 2048, out);
+    expect(peakBin(out)).toBe(20);
+    expect(out[20]).toBeGreaterThan(100);
+    expect(out[100]).toBeLessThan(out[20] / 2);
+  });
+
+  it('maps louder tones to higher bytes', () => {
+    const level = (amplitude: number) => {
+      const analyser = new OfflineAnalyser({ smoothingTimeConstant: 0 });
+      const out = new Uint8Array(analyser.frequencyBinCount);
+      analyser.getByteFrequencyData(sine(937.5, amplitude), 2048, out);
+      return out[20];
+    };
+    expect(level(0.001)).toBeLessThan(level(0.01));
+    expect(level(0.01)).toBeLessThan(level(0.1));
+  });
+
+  it('smooths across calls like AnalyserNode', () => {
+    const smoothed = new OfflineAnalyser({ smoothingTimeConstant: 0.8 });
+    const instant = new OfflineAnalyser({ smoothingTimeConstant: 0 });
+    const a = new Uint8Array(smoothed.frequencyBinCount);
+    const b = new Uint8Array(instant.frequencyBinCount);
+    const tone = sine(937.5, 0.01);
+    smoothed.getByteFrequencyData(tone, 2048, a);
+    instant.getByteFrequencyData(tone, 2048, b);
+    expect(a[20]).toBeLessThan(b[20]);
+    // Repeated frames converge on the unsmoothed level
+    for (let i = 0; i < 40; i++) smoothed.getByteFrequencyData(tone, 2048, a);
+    expect(Math.abs(a[20] - b[20])).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,102 @@
+// --- Offline AnalyserNode Replica ---
+// Reproduces AnalyserNode.getByteFrequencyData (Blackman window, magnitude
+// smoothing, dB → byte mapping) over a pre-rendered buffer, so an exported
+// video's uVolume envelope matches what the live analyser would have produced.
+
+export interface OfflineAnalyserOptions {
+  fftSize?: number;
+  smoothingTimeConstant?: number;
+  minDecibels?: number;
+  maxDecibels?: number;
+}
+
+export class OfflineAnalyser {
+  readonly fftSize: number;
+  readonly frequencyBinCount: number;
+  private readonly smoothing: number;
+  private readonly minDecibels: number;
+  private readonly maxDecibels: number;
+  private readonly window: Float32Array;
+  private readonly real: Float32Array;
+  private readonly imag: Float32Array;
+  private readonly smoothed: Float32Array;
+
+  constructor({
+    fftSize = 512,
+    smoothingTimeConstant = 0.5,
+    minDecibels = -100,
+    maxDecibels = -30,
+  }: OfflineAnalyserOptions = {}) {
+    this.fftSize = fftSize;
+    this.frequencyBinCount = fftSize / 2;
+    this.smoothing = smoothingTimeConstant;
+    this.minDecibels = minDecibels;
+    this.maxDecibels = maxDecibels;
+    this.real = new Float32Array(fftSize);
+    this.imag = new Float32Array(fftSize);
+    this.smoothed = new Float32Array(this.frequencyBinCount);
+
+    // Blackman window, as specified for AnalyserNode
+    this.window = new Float32Array(fftSize);
+    const a0 = 0.42, a1 = 0.5, a2 = 0.08;
+    for (let i = 0; i < fftSize; i++) {
+      const x = (2 * Math.PI * i) / fftSize;
+      this.window[i] = a0 - a1 * Math.cos(x) + a2 * Math.cos(2 * x);
+    }
+  }
+
+  /** Fills `out` with byte frequency data for the `fftSize` samples ending at `endSample`. */
+  getByteFrequencyData(samples: Float32Array, endSample: number, out: Uint8Array) {
+    const n = this.fftSize;
+    const start = endSample - n;
+    for (let i = 0; i < n; i++) {
+      const index = start + i;
+      const sample = index >= 0 && index < samples.length ? samples[index] : 0;
+      this.real[i] = sample * this.window[i];
+      this.imag[i] = 0;
+    }
+    fft(this.real, this.imag);
+
+    const range = this.maxDecibels - this.minDecibels;
+    for (let k = 0; k < this.frequencyBinCount && k < out.length; k++) {
+      const magnitude = Math.hypot(this.real[k], this.imag[k]) / n;
+      this.smoothed[k] = this.smoothing * this.smoothed[k] + (1 - this.smoothing) * magnitude;
+      const db = this.smoothed[k] > 0 ? 20 * Math.log10(this.smoothed[k]) : -Infinity;
+      const scaled = (255 / range) * (db - this.minDecibels);
+      out[k] = Math.max(0, Math.min(255, Math.floor(scaled)));
+    }
+  }
+}
+
+/** In-place iterative radix-2 FFT; length must be a power of two. */
+function fft(real: Float32Array, imag: Float32Array) {
+  const n = real.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const step = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const angle = step * k;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const a = start + k;
+        const b = a + half;
+        const tr = real[b] * cos - imag[b] * sin;
+        const ti = real[b] * sin + imag[b] * cos;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
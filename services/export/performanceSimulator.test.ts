@@ -0,0 +1,116 @@
+import type { LiveServerMessage } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { RECORDING_FORMAT, RECORDING_VERSION, Recording, RecordingEvent } from '../recording/recording';
+import { KINETIC_LINGER_MS } from '../teleprompter/kinetic';
+import { OUTPUT_SAMPLE_RATE, PerformanceFrame, PerformanceSimulator } from './performanceSimulator';
+
+const FPS = 30;
+const TAIL_SECONDS = KINETIC_LINGER_MS / 1000 + 0.5;
+
+/** Half a second of a 440 Hz tone as base64 16-bit PCM at the output rate. */
+const tone = (seconds = 0.5) => {
+  const samples = Int16Array.from({ length: seconds * OUTPUT_SAMPLE_RATE }, (_, i) =>
+    Math.round(Math.sin((2 * Math.PI * 440 * i) / OUTPUT_SAMPLE_RATE) * 16000));
+  return Buffer.from(samples.buffer).toString('base64');
+};
+
+const server = (t: number, serverContent: LiveServerMessage['serverContent']): RecordingEvent =>
+  ({ t, kind: 'server', message: { serverContent } as LiveServerMessage });
+
+const audio = (t: number) => server(t, { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: tone() } }] } });
+
+const recordingOf = (events: RecordingEvent[]): Recording => ({
+  format: RECORDING_FORMAT,
+  version: RECORDING_VERSION,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  durationMs: events[events.length - 1].t,
+  events,
+});
+
+// One turn: three words over two half-second buffers, the second queued behind the first
+const TURN = recordingOf([
+  server(100, { outputTranscription: { text: 'Hello bright world.' } }),
+  audio(100),
+  audio(150),
+  server(200, { turnComplete: true }),
+]);
+
+/** Steps `simulator` on the fixed timestep the exporter uses, returning every frame with its time. */
+const run = (simulator: PerformanceSimulator) =>
+  Array.from({ length: Math.ceil(simulator.duration * FPS) }, (_, frame) => {
+    const time = frame / FPS;
+    return { time, ...simulator.step(time, 1 / FPS) };
+  });
+
+const at = (frames: (PerformanceFrame & { time: number })[], time: number) =>
+  frames[Math.round(time * FPS)];
+
+describe('PerformanceSimulator', () => {
+  it('schedules buffers back to back and mixes them into one track', () => {
+    const simulator = new PerformanceSimulator(TURN);
+    // Audio runs from 0.1 s to 1.1 s, then the teleprompter's linger
+    expect(simulator.duration).toBeCloseTo(1.1 + TAIL_SECONDS);
+    expect(simulator.audio.length).toBe(Math.ceil(simulator.duration * OUTPUT_SAMPLE_RATE));
+
+    const peak = (from: number, to: number) =>
+      simulator.audio.subarray(Math.round(from * OUTPUT_SAMPLE_RATE), Math.round(to * OUTPUT_SAMPLE_RATE))
+        .reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+    expect(peak(0, 0.1)).toBe(0);
+    expect(peak(0.1, 0.6)).toBeGreaterThan(0.4);
+    expect(peak(0.6, 1.1)).toBeGreaterThan(0.4);
+    expect(peak(1.1, simulator.duration)).toBe(0);
+  });
+
+  it('follows the session through the turn', () => {
+    const frames = run(new PerformanceSimulator(TURN));
+    expect(at(frames, 0).session.kind).toBe('listening');
+    expect(at(frames, 0.5).session.kind).toBe('ai-speaking');
+    expect(at(frames, 1).session.kind).toBe('ai-speaking');
+    expect(at(frames, 1.2).session.kind).toBe('listening');
+  });
+
+  it('drives the volume from the mixed audio', () => {
+    const frames = run(new PerformanceSimulator(TURN));
+    expect(at(frames, 0).volume).toBe(0);
+    expect(at(frames, 0.5).volume).toBeGreaterThan(0.05);
+    expect(at(frames, 0.5).features.mid + at(frames, 0.5).features.bass).toBeGreaterThan(0);
+    expect(at(frames, 1.1 + TAIL_SECONDS - 0.1).volume).toBeLessThan(0.01);
+  });
+
+  it('walks the teleprompter through the words, lingers, then clears', () => {
+    const frames = run(new PerformanceSimulator(TURN));
+    const spoken = frames.filter(frame => frame.kinetic.words.length > 0);
+    expect(spoken[0].kinetic.words).toEqual(['Hello', 'bright', 'world.']);
+
+    // The active word only moves forward
+    const active = spoken.map(frame => frame.kinetic.activeIndex);
+    expect(active).toEqual([...active].sort((a, b) => a - b));
+    expect(active[0]).toBe(0);
+    expect(active[active.length - 1]).toBe(2);
+
+    // The last word holds for the linger after the audio stops, then the overlay empties
+    expect(at(frames, 1.1 + KINETIC_LINGER_MS / 1000 - 0.2).kinetic.words).toEqual(['Hello', 'bright', 'world.']);
+    expect(frames[frames.length - 1].kinetic.words).toEqual([]);
+  });
+
+  it('gives the same frames every time', () => {
+    expect(run(new PerformanceSimulator(TURN))).toEqual(run(new PerformanceSimulator(TURN)));
+  });
+
+  it('cuts the audio and clears the words on an interruption', () => {
+    const simulator = new PerformanceSimulator(recordingOf([
+      server(100, { outputTranscription: { text: 'I was saying' } }),
+      audio(100),
+      audio(150),
+      server(400, { interrupted: true }),
+    ]));
+    const cut = Math.round(0.4 * OUTPUT_SAMPLE_RATE);
+    expect(simulator.audio.subarray(cut).every(sample => sample === 0)).toBe(true);
+    expect(simulator.duration).toBeCloseTo(0.4 + TAIL_SECONDS);
+
+    const frames = run(simulator);
+    expect(at(frames, 0.3).kinetic.words.length).toBeGreaterThan(0);
+    expect(at(frames, 0.45).session.kind).toBe('interrupted');
+    expect(at(frames, 0.45).kinetic.words).toEqual([]);
+  });
+});
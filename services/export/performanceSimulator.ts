@@ -0,0 +1,218 @@
+import type { Recording } from '../recording/recording';
+import { decode } from '../audio/pcm';
+import { averageMagnitude, gateVolume, smoothVolume } from '../audio/volume';
+import { AudioFeatures, BandAnalyzer } from '../audio/bands';
+import { VoiceActivityDetector } from '../audio/vad';
+import { TurnTimeline } from '../teleprompter/wordTimeline';
+import { SpeechActivityTracker, resolveActiveWord } from '../teleprompter/speechActivity';
+import { EMPTY_KINETIC_TEXT, KineticText, KINETIC_LINGER_MS, kineticChunk } from '../teleprompter/kinetic';
+import { SessionMachine, SessionState } from '../session/sessionState';
+import { OfflineAnalyser } from './offlineAnalyser';
+
+// --- Deterministic Replay of a Recorded Performance ---
+// Mirrors GalaxyScene's playback scheduling, analyser and teleprompter logic
+// on a fixed timestep, so frames can be rendered as fast (or slow) as needed.
+
+export const OUTPUT_SAMPLE_RATE = 24000;
+const TAIL_SECONDS = KINETIC_LINGER_MS / 1000 + 0.5;
+const DEFAULT_MIC_SAMPLE_RATE = 16000;
+
+interface ScheduledBuffer {
+  /** When the message carrying it arrived (it counts as "playing" from then, like sourcesRef). */
+  arrival: number;
+  start: number;
+  samples: Float32Array;
+  /** When playback stops, naturally or because of an interruption. */
+  ended: number;
+}
+
+type TimelineOp =
+  | { t: number; kind: 'transcription'; text: string }
+  | { t: number; kind: 'audio'; start: number; duration: number }
+  | { t: number; kind: 'complete' }
+  | { t: number; kind: 'interrupt' };
+
+export interface PerformanceFrame {
+  /** Smoothed 0–1 volume, ready for uVolume. */
+  volume: number;
+  features: AudioFeatures;
+  /** Smoothed 0–1 level of the user's recorded voice, ready for uUserVolume. */
+  userVolume: number;
+  kinetic: KineticText;
+  session: SessionState;
+}
+
+function pcm16ToFloat(base64: string): Float32Array {
+  const bytes = decode(base64);
+  const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 1);
+  const out = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) out[i] = int16[i] / 32768.0;
+  return out;
+}
+
+export class PerformanceSimulator {
+  /** The AI's voice, mixed exactly as it would have played, at OUTPUT_SAMPLE_RATE. */
+  readonly audio: Float32Array;
+  readonly duration: number;
+
+  private readonly buffers: ScheduledBuffer[] = [];
+  private readonly ops: TimelineOp[] = [];
+
+  private opIndex = 0;
+  private readonly timeline = new TurnTimeline();
+  private readonly speechActivity = new SpeechActivityTracker();
+  private readonly analyser = new OfflineAnalyser({ fftSize: 512, smoothingTimeConstant: 0.5 });
+  private readonly frequencyData: Uint8Array;
+  private readonly bands = new BandAnalyzer(OUTPUT_SAMPLE_RATE);
+
+  // The user's recorded mic, laid out the way the replay plays it back
+  private readonly userAudio: Float32Array;
+  private readonly userSampleRate: number;
+  private readonly userAnalyser = new OfflineAnalyser({ fftSize: 512, smoothingTimeConstant: 0.5 });
+  private readonly userFrequencyData: Uint8Array;
+  private readonly vad = new VoiceActivityDetector();
+  private userVolume = 0;
+  private activeWord = -1;
+  private wasPlaying = false;
+  private clearAt = Infinity;
+  private kinetic: KineticText = EMPTY_KINETIC_TEXT;
+  private volume = 0;
+  private readonly session = new SessionMachine();
+
+  constructor(recording: Recording) {
+    // A recording only exists for an open session
+    this.session.dispatch({ type: 'connecting', provider: 'Recording' });
+    this.session.dispatch({ type: 'opened' });
+
+    this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+    this.userFrequencyData = new Uint8Array(this.userAnalyser.frequencyBinCount);
+    let nextStartTime = 0;
+    let nextInputStartTime = 0;
+    let lastEventTime = 0;
+    let userSampleRate = DEFAULT_MIC_SAMPLE_RATE;
+    const userChunks: { start: number; samples: Float32Array }[] = [];
+
+    for (const event of recording.events) {
+      const t = event.t / 1000;
+      if (event.kind === 'mic') {
+        userSampleRate = Number(/rate=(\d+)/.exec(event.media.mimeType ?? '')?.[1]) || userSampleRate;
+        const samples = pcm16ToFloat(event.media.data ?? '');
+        nextInputStartTime = Math.max(nextInputStartTime, t);
+        userChunks.push({ start: nextInputStartTime, samples });
+        nextInputStartTime += samples.length / userSampleRate;
+        continue;
+      }
+      // Typed messages don't show in the galaxy or the teleprompter
+      if (event.kind === 'text') continue;
+      const content = event.message.serverContent;
+      lastEventTime = t;
+      if (!content) continue;
+
+      if (content.outputTranscription?.text) {
+        this.ops.push({ t, kind: 'transcription', text: content.outputTranscription.text });
+      }
+
+      const base64Audio = content.modelTurn?.parts?.[0]?.inlineData?.data;
+      if (base64Audio) {
+        const samples = pcm16ToFloat(base64Audio);
+        const duration = samples.length / OUTPUT_SAMPLE_RATE;
+        if (nextStartTime === 0 || nextStartTime < t) nextStartTime = t;
+        this.buffers.push({ arrival: t, start: nextStartTime, samples, ended: nextStartTime + duration });
+        this.ops.push({ t, kind: 'audio', start: nextStartTime, duration });
+        nextStartTime += duration;
+      }
+
+      if (content.turnComplete) this.ops.push({ t, kind: 'complete' });
+
+      if (content.interrupted) {
+        for (const buffer of this.buffers) {
+          if (buffer.ended > t) buffer.ended = t;
+        }
+        nextStartTime = 0;
+        this.ops.push({ t, kind: 'interrupt' });
+      }
+    }
+
+    const audioEnd = this.buffers.reduce((end, b) => Math.max(end, b.ended), 0);
+    this.duration = Math.max(audioEnd, lastEventTime, nextInputStartTime) + TAIL_SECONDS;
+
+    this.userSampleRate = userSampleRate;
+    this.userAudio = new Float32Array(Math.ceil(this.duration * userSampleRate));
+    for (const chunk of userChunks) {
+      const offset = Math.round(chunk.start * userSampleRate);
+      this.userAudio.set(chunk.samples.subarray(0, Math.max(0, this.userAudio.length - offset)), offset);
+    }
+
+    this.audio = new Float32Array(Math.ceil(this.duration * OUTPUT_SAMPLE_RATE));
+    for (const buffer of this.buffers) {
+      const offset = Math.round(buffer.start * OUTPUT_SAMPLE_RATE);
+      const playable = Math.max(0, Math.min(buffer.samples.length, Math.round((buffer.ended - buffer.start) * OUTPUT_SAMPLE_RATE)));
+      for (let i = 0; i < playable && offset + i < this.audio.length; i++) {
+        this.audio[offset + i] += buffer.samples[i];
+      }
+    }
+  }
+
+  private resetTurn() {
+    this.timeline.reset();
+    this.speechActivity.reset();
+    this.activeWord = -1;
+  }
+
+  private applyOps(time: number) {
+    while (this.opIndex < this.ops.length && this.ops[this.opIndex].t <= time) {
+      const op = this.ops[this.opIndex++];
+      if (op.kind === 'transcription') this.timeline.addTranscription(op.text);
+      else if (op.kind === 'audio') this.timeline.addAudio(op.start, op.duration);
+      else if (op.kind === 'complete') this.timeline.markComplete();
+      else {
+        this.resetTurn();
+        this.kinetic = EMPTY_KINETIC_TEXT;
+        this.session.dispatch({ type: 'interrupted' });
+      }
+    }
+  }
+
+  /** Advances to `time` (seconds); call with monotonically increasing times. */
+  step(time: number, delta: number): PerformanceFrame {
+    this.applyOps(time);
+
+    this.analyser.getByteFrequencyData(this.audio, Math.floor(time * OUTPUT_SAMPLE_RATE), this.frequencyData);
+    const avgVolume = averageMagnitude(this.frequencyData);
+    this.volume = smoothVolume(this.volume, gateVolume(avgVolume), delta);
+    const features = this.bands.analyze(this.frequencyData, delta);
+
+    this.userAnalyser.getByteFrequencyData(this.userAudio, Math.floor(time * this.userSampleRate), this.userFrequencyData);
+    const userLevel = averageMagnitude(this.userFrequencyData);
+    const userSpeaking = this.vad.update(userLevel, delta);
+    this.userVolume = smoothVolume(this.userVolume, userSpeaking ? gateVolume(userLevel) : 0, delta);
+
+    const isPlaying = this.buffers.some(b => b.arrival <= time && time < b.ended);
+    const session = this.session.updateAudio(time, isPlaying, userSpeaking);
+    const words = this.timeline.words;
+
+    if (session.kind === 'ai-speaking') {
+      const activity = this.speechActivity.update(avgVolume, delta);
+      if (words.length > 0) {
+        this.activeWord = resolveActiveWord(this.timeline.timings, time, this.activeWord, activity);
+        if (this.activeWord >= 0) this.kinetic = kineticChunk(words, this.activeWord);
+      }
+      this.wasPlaying = true;
+      this.clearAt = Infinity;
+    } else if (this.wasPlaying) {
+      // Settle on the final word, then linger like the live overlay does
+      this.wasPlaying = false;
+      if (words.length > 0) {
+        this.activeWord = words.length - 1;
+        this.kinetic = kineticChunk(words, this.activeWord);
+      }
+      this.clearAt = time + KINETIC_LINGER_MS / 1000;
+    } else if (time >= this.clearAt) {
+      this.resetTurn();
+      this.kinetic = EMPTY_KINETIC_TEXT;
+      this.clearAt = Infinity;
+    }
+
+    return { volume: this.volume, features, userVolume: this.userVolume, kinetic: { words: this.kinetic.words, activeIndex: this.kinetic.activeIndex }, session };
+  }
+}
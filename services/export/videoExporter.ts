@@ -0,0 +1,279 @@
+import * as THREE from 'three';
+import { Muxer, ArrayBufferTarget } from 'webm-muxer';
+import type { Recording } from '../recording/recording';
+import { applyAudioFeatures, createGalaxy } from '../../scene/galaxy';
+import { ALL_POST_EFFECTS, createPostProcessing } from '../../scene/postProcessing';
+import { createParticleSimulation, ParticleSimulation, SimulationUnsupportedError } from '../../scene/simulation';
+import { DEFAULT_THEME, GalaxyTheme } from '../../scene/themes';
+import { DEFAULT_FORMATION_MAPPING, FormationMapping, formationTriggerFor } from '../../scene/formations';
+import { DEFAULT_REACTIVITY, ReactivityMapping } from '../../scene/reactivity';
+import { PerformanceSimulator, OUTPUT_SAMPLE_RATE } from './performanceSimulator';
+import { loadKineticFont, paintKineticText } from './kineticPainter';
+
+// --- Offline Video Export ---
+// Renders a recorded performance frame-by-frame at a fixed timestep, with
+// uTime/uVolume driven by the recording rather than THREE.Clock, and encodes
+// it to WebM with the AI's voice muxed in. WebCodecs renders faster than
+// realtime; browsers without it fall back to MediaRecorder at realtime pace.
+
+export interface VideoExportOptions {
+  width?: number;
+  height?: number;
+  fps?: number;
+  theme?: GalaxyTheme;
+  formations?: FormationMapping;
+  reactivity?: ReactivityMapping;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const OPUS_SAMPLE_RATE = 48000;
+const AUDIO_CHUNK_SECONDS = 0.5;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+type FrameRenderer = (frame: number) => void;
+type EncodeSettings = Required<Pick<VideoExportOptions, 'width' | 'height' | 'fps'>> & VideoExportOptions;
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Video export cancelled.', 'AbortError');
+};
+
+/** Linear 24 kHz → 48 kHz upsample; Opus in WebCodecs only reliably accepts 48 kHz. */
+function upsample(input: Float32Array, factor: number): Float32Array {
+  const out = new Float32Array(input.length * factor);
+  for (let i = 0; i < input.length; i++) {
+    const a = input[i];
+    const b = i + 1 < input.length ? input[i + 1] : a;
+    for (let k = 0; k < factor; k++) out[i * factor + k] = a + ((b - a) * k) / factor;
+  }
+  return out;
+}
+
+async function pickVideoCodec(width: number, height: number, fps: number) {
+  const candidates = [
+    { encoder: 'vp09.00.10.08', muxer: 'V_VP9' },
+    { encoder: 'vp8', muxer: 'V_VP8' },
+  ];
+  for (const candidate of candidates) {
+    const config: VideoEncoderConfig = { codec: candidate.encoder, width, height, bitrate: 8_000_000, framerate: fps };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, muxerCodec: candidate.muxer };
+  }
+  throw new Error('No WebM video codec is available for encoding in this browser.');
+}
+
+async function encodeWithWebCodecs(
+  renderFrame: FrameRenderer,
+  frameCanvas: HTMLCanvasElement,
+  audio: Float32Array,
+  totalFrames: number,
+  { width, height, fps, onProgress, signal }: EncodeSettings,
+): Promise<Blob> {
+  const { config: videoConfig, muxerCodec } = await pickVideoCodec(width, height, fps);
+  const target = new ArrayBufferTarget();
+  const muxer = new Muxer({
+    target,
+    video: { codec: muxerCodec, width, height, frameRate: fps },
+    audio: { codec: 'A_OPUS', numberOfChannels: 1, sampleRate: OPUS_SAMPLE_RATE },
+    firstTimestampBehavior: 'offset',
+  });
+
+  let encodeError: Error | null = null;
+  const onError = (e: DOMException) => { encodeError = e; };
+
+  const videoEncoder = new VideoEncoder({ output: (chunk, meta) => muxer.addVideoChunk(chunk, meta), error: onError });
+  videoEncoder.configure(videoConfig);
+  const audioEncoder = new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: onError });
+  audioEncoder.configure({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: 1, bitrate: 128_000 });
+
+  try {
+    // Audio first: it's cheap and lets the muxer interleave as video arrives
+    const audio48k = upsample(audio, OPUS_SAMPLE_RATE / OUTPUT_SAMPLE_RATE);
+    const chunkFrames = OPUS_SAMPLE_RATE * AUDIO_CHUNK_SECONDS;
+    for (let offset = 0; offset < audio48k.length; offset += chunkFrames) {
+      const data = audio48k.slice(offset, offset + chunkFrames);
+      const audioData = new AudioData({
+        format: 'f32-planar',
+        sampleRate: OPUS_SAMPLE_RATE,
+        numberOfFrames: data.length,
+        numberOfChannels: 1,
+        timestamp: Math.round((offset / OPUS_SAMPLE_RATE) * 1e6),
+        data,
+      });
+      audioEncoder.encode(audioData);
+      audioData.close();
+    }
+
+    const frameDuration = 1e6 / fps;
+    const keyFrameInterval = Math.round(fps * KEYFRAME_INTERVAL_SECONDS);
+    for (let frame = 0; frame < totalFrames; frame++) {
+      throwIfAborted(signal);
+      if (encodeError) throw encodeError;
+
+      renderFrame(frame);
+      const videoFrame = new VideoFrame(frameCanvas, { timestamp: Math.round(frame * frameDuration), duration: Math.round(frameDuration) });
+      videoEncoder.encode(videoFrame, { keyFrame: frame % keyFrameInterval === 0 });
+      videoFrame.close();
+
+      // Backpressure keeps memory flat and lets the page repaint progress
+      if (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => videoEncoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+      if (frame % 10 === 0) {
+        onProgress?.(frame / totalFrames);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+
+    await videoEncoder.flush();
+    await audioEncoder.flush();
+    if (encodeError) throw encodeError;
+    muxer.finalize();
+    onProgress?.(1);
+    return new Blob([target.buffer], { type: 'video/webm' });
+  } finally {
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    if (audioEncoder.state !== 'closed') audioEncoder.close();
+  }
+}
+
+async function encodeWithMediaRecorder(
+  renderFrame: FrameRenderer,
+  frameCanvas: HTMLCanvasElement,
+  audio: Float32Array,
+  totalFrames: number,
+  { fps, onProgress, signal }: EncodeSettings,
+): Promise<Blob> {
+  const mimeType = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm']
+    .find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error('This browser cannot record WebM video.');
+
+  const audioContext = new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+  const buffer = audioContext.createBuffer(1, audio.length, OUTPUT_SAMPLE_RATE);
+  buffer.copyToChannel(audio, 0);
+  const source = audioContext.createBufferSource();
+  source.buffer = buffer;
+  const destination = audioContext.createMediaStreamDestination();
+  source.connect(destination);
+
+  const stream = frameCanvas.captureStream(fps);
+  destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  try {
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    const audioEnded = new Promise<void>(resolve => { source.onended = () => resolve(); });
+    if (audioContext.state === 'suspended') await audioContext.resume();
+    recorder.start(1000);
+    const startTime = audioContext.currentTime;
+    source.start(startTime);
+
+    // Realtime pacing: the audio clock picks which fixed-timestep frame is due
+    await new Promise<void>((resolve, reject) => {
+      let nextFrame = 0;
+      const tick = () => {
+        if (signal?.aborted) {
+          reject(new DOMException('Video export cancelled.', 'AbortError'));
+          return;
+        }
+        const due = Math.min(totalFrames, Math.floor((audioContext.currentTime - startTime) * fps) + 1);
+        while (nextFrame < due) renderFrame(nextFrame++);
+        onProgress?.(nextFrame / totalFrames);
+        if (nextFrame >= totalFrames) resolve();
+        else requestAnimationFrame(tick);
+      };
+      tick();
+    });
+
+    // The last frame is painted a frame before the audio ends, and captureStream
+    // samples the canvas on its own schedule: let both run out before stopping
+    await audioEnded;
+    await new Promise(resolve => setTimeout(resolve, 1000 / fps));
+    throwIfAborted(signal);
+    recorder.requestData();
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+    audioContext.close();
+  }
+}
+
+/** Renders `recording` to a WebM clip of the galaxy with burned-in kinetic typography. */
+export async function exportRecordingToVideo(
+  recording: Recording,
+  { width = 1920, height = 1080, fps = 30, theme = DEFAULT_THEME, formations = DEFAULT_FORMATION_MAPPING, reactivity = DEFAULT_REACTIVITY, onProgress, signal }: VideoExportOptions = {},
+): Promise<Blob> {
+  const simulator = new PerformanceSimulator(recording);
+  const totalFrames = Math.ceil(simulator.duration * fps);
+  await loadKineticFont(theme.typography);
+  throwIfAborted(signal);
+
+  // Everything created below is torn down in reverse, however far setup got
+  const cleanup: (() => void)[] = [];
+  try {
+    const glCanvas = document.createElement('canvas');
+    const renderer = new THREE.WebGLRenderer({ canvas: glCanvas, antialias: true, alpha: false, preserveDrawingBuffer: true });
+    cleanup.push(() => {
+      renderer.dispose();
+      // Browsers cap live WebGL contexts; repeated exports mustn't crowd out the live scene's
+      renderer.forceContextLoss();
+    });
+    renderer.setPixelRatio(1);
+    renderer.setSize(width, height, false);
+    const galaxy = createGalaxy(width / height, theme, reactivity);
+    cleanup.push(() => galaxy.dispose());
+    // Exports always get the full effect set; they aren't bound by the live frame rate
+    const post = createPostProcessing(renderer, galaxy, { samples: 4 });
+    cleanup.push(() => post.dispose());
+    post.setEffects(ALL_POST_EFFECTS);
+    let simulation: ParticleSimulation | null = null;
+    try {
+      simulation = createParticleSimulation(renderer, galaxy);
+      cleanup.push(() => simulation?.dispose());
+    } catch (err) {
+      if (!(err instanceof SimulationUnsupportedError)) throw err;
+      console.warn('Exporting without the GPU particle simulation:', err.message);
+    }
+
+    const frameCanvas = document.createElement('canvas');
+    frameCanvas.width = width;
+    frameCanvas.height = height;
+    const ctx = frameCanvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a 2D canvas for video export.');
+
+    const delta = 1 / fps;
+    let formationTrigger = '';
+    const renderFrame: FrameRenderer = (frame) => {
+      const time = frame * delta;
+      const { volume, features, userVolume, kinetic, session } = simulator.step(time, delta);
+      const trigger = formationTriggerFor(session);
+      if (trigger !== formationTrigger) {
+        formationTrigger = trigger;
+        galaxy.morphTo(formations[trigger]).catch(err => console.error('Formation morph failed:', err));
+      }
+      galaxy.update(delta);
+      galaxy.uniforms.uTime.value = time;
+      galaxy.uniforms.uVolume.value = volume;
+      applyAudioFeatures(galaxy.uniforms, features);
+      galaxy.uniforms.uUserVolume.value = userVolume;
+      simulation?.step(delta);
+      post.render(delta);
+      ctx.drawImage(glCanvas, 0, 0, width, height);
+      paintKineticText(ctx, kinetic, width, height, theme.typography);
+    };
+
+    const settings: EncodeSettings = { width, height, fps, onProgress, signal };
+    if (typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined') {
+      return await encodeWithWebCodecs(renderFrame, frameCanvas, simulator.audio, totalFrames, settings);
+    }
+    return await encodeWithMediaRecorder(renderFrame, frameCanvas, simulator.audio, totalFrames, settings);
+  } finally {
+    cleanup.reverse().forEach(dispose => dispose());
+  }
+}
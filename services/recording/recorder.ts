@@ -0,0 +1,86 @@
+import type { Blob as GenAIBlob, LiveServerMessage } from '@google/genai';
+import type { VoiceConnectOptions, VoiceSession, VoiceSessionProvider } from '../voice/types';
+import { Recording, RecordingEvent, RECORDING_FORMAT, RECORDING_VERSION } from './recording';
+import { clientContentText } from '../chat/textTurn';
+
+/** Collects server messages, mic chunks and typed messages while armed. */
+export class SessionRecorder {
+  private events: RecordingEvent[] = [];
+  private startedAt = 0;
+  private createdAt = '';
+  private recording = false;
+
+  get isRecording() {
+    return this.recording;
+  }
+
+  start() {
+    this.events = [];
+    this.startedAt = performance.now();
+    this.createdAt = new Date().toISOString();
+    this.recording = true;
+  }
+
+  stop(): Recording {
+    this.recording = false;
+    const durationMs = this.events.length > 0 ? this.events[this.events.length - 1].t : 0;
+    const recording: Recording = {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      createdAt: this.createdAt,
+      durationMs,
+      events: this.events,
+    };
+    this.events = [];
+    return recording;
+  }
+
+  private now() {
+    return Math.round(performance.now() - this.startedAt);
+  }
+
+  recordServer(message: LiveServerMessage) {
+    if (this.recording) this.events.push({ t: this.now(), kind: 'server', message });
+  }
+
+  recordMic(media: GenAIBlob) {
+    if (this.recording) this.events.push({ t: this.now(), kind: 'mic', media });
+  }
+
+  recordText(text: string) {
+    if (this.recording && text) this.events.push({ t: this.now(), kind: 'text', text });
+  }
+}
+
+/** Wraps a provider so everything flowing through its sessions is offered to `recorder`. */
+export function withRecorder(provider: VoiceSessionProvider, recorder: SessionRecorder): VoiceSessionProvider {
+  return {
+    label: provider.label,
+    requiresMicrophone: provider.requiresMicrophone,
+    async connect({ callbacks, config }: VoiceConnectOptions): Promise<VoiceSession> {
+      const session = await provider.connect({
+        config,
+        callbacks: {
+          ...callbacks,
+          onmessage: (message) => {
+            recorder.recordServer(message);
+            callbacks.onmessage(message);
+          },
+        },
+      });
+      return {
+        sendRealtimeInput: (params) => {
+          const media = params.media ?? params.audio;
+          if (media?.mimeType?.startsWith('audio/')) recorder.recordMic(media);
+          session.sendRealtimeInput(params);
+        },
+        sendClientContent: (params) => {
+          recorder.recordText(clientContentText(params));
+          session.sendClientContent(params);
+        },
+        sendToolResponse: (params) => session.sendToolResponse(params),
+        close: () => session.close(),
+      };
+    },
+  };
+}
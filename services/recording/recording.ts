@@ -0,0 +1,70 @@
+import type { Blob as GenAIBlob, LiveServerMessage } from '@google/genai';
+
+// --- Portable Session Recording Format ---
+// A single JSON document: every server message plus every mic chunk and typed
+// message we sent, each stamped with milliseconds since the recording started.
+
+export const RECORDING_FORMAT = 'sonic-entity-recording';
+export const RECORDING_VERSION = 1;
+export const RECORDING_EXTENSION = '.sonic.json';
+
+export type RecordingEvent =
+  | { t: number; kind: 'server'; message: LiveServerMessage }
+  | { t: number; kind: 'mic'; media: GenAIBlob }
+  | { t: number; kind: 'text'; text: string };
+
+export interface Recording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  createdAt: string;
+  durationMs: number;
+  events: RecordingEvent[];
+}
+
+export class RecordingFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingFormatError';
+  }
+}
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRecordingEvent = (value: unknown): value is RecordingEvent =>
+  isJsonObject(value) && typeof value.t === 'number' && (value.kind === 'server' || value.kind === 'mic' || value.kind === 'text');
+
+export function parseRecording(json: string): Recording {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new RecordingFormatError('Recording is not valid JSON.');
+  }
+  if (!isJsonObject(data) || data.format !== RECORDING_FORMAT) {
+    throw new RecordingFormatError('Not a Sonic Entity recording.');
+  }
+  if (typeof data.version !== 'number' || data.version > RECORDING_VERSION) {
+    throw new RecordingFormatError(`Unsupported recording version: ${data.version}`);
+  }
+  if (!Array.isArray(data.events)) {
+    throw new RecordingFormatError('Recording has no events.');
+  }
+  const events = data.events.filter(isRecordingEvent).sort((a, b) => a.t - b.t);
+  return {
+    format: RECORDING_FORMAT,
+    version: data.version,
+    createdAt: typeof data.createdAt === 'string' ? data.createdAt : new Date(0).toISOString(),
+    durationMs: typeof data.durationMs === 'number' ? data.durationMs : events[events.length - 1]?.t ?? 0,
+    events,
+  };
+}
+
+export function downloadRecording(recording: Recording) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(recording)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sonic-entity-${recording.createdAt.replace(/[:.]/g, '-')}${RECORDING_EXTENSION}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,203 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  INTERRUPTED_HOLD_MS,
+  SessionEvent,
+  SessionMachine,
+  SessionState,
+  SessionStateKind,
+  transition,
+} from './sessionState';
+
+const STATES: Record<SessionStateKind, SessionState> = {
+  'initializing': { kind: 'initializing' },
+  'requesting-mic': { kind: 'requesting-mic' },
+  'connecting': { kind: 'connecting', provider: 'Mock' },
+  'listening': { kind: 'listening' },
+  'user-speaking': { kind: 'user-speaking' },
+  'ai-speaking': { kind: 'ai-speaking' },
+  'interrupted': { kind: 'interrupted' },
+  'reconnecting': { kind: 'reconnecting', attempt: 1 },
+  'error': { kind: 'error', message: 'earlier failure' },
+  'closed': { kind: 'closed', reason: 'disconnected' },
+};
+
+const EVENTS: Record<SessionEvent['type'], SessionEvent> = {
+  'mic-requested': { type: 'mic-requested' },
+  'connecting': { type: 'connecting', provider: 'Gemini' },
+  'opened': { type: 'opened' },
+  'user-speech-start': { type: 'user-speech-start' },
+  'user-speech-end': { type: 'user-speech-end' },
+  'ai-audio-start': { type: 'ai-audio-start' },
+  'ai-audio-end': { type: 'ai-audio-end' },
+  'interrupted': { type: 'interrupted' },
+  'interrupt-settled': { type: 'interrupt-settled' },
+  'connection-lost': { type: 'connection-lost', attempt: 2 },
+  'failed': { type: 'failed', message: 'boom' },
+  'closed': { type: 'closed', reason: 'replay-finished' },
+};
+
+// The state each event leads to from each state; events left out are rejected
+const EXPECTED: Record<SessionStateKind, Partial<Record<SessionEvent['type'], SessionState>>> = {
+  'initializing': {
+    'mic-requested': { kind: 'requesting-mic' },
+    'connecting': { kind: 'connecting', provider: 'Gemini' },
+    'failed': { kind: 'error', message: 'boom' },
+    'closed': { kind: 'closed', reason: 'replay-finished' },
+  },
+  'requesting-mic': {
+    'connecting': { kind: 'connecting', provider: 'Gemini' },
+    'failed': { kind: 'error', message: 'boom' },
+    'closed': { kind: 'closed', reason: 'replay-finished' },
+  },
+  'connecting': {
+    'opened': { kind: 'listening' },
+    'connection-lost': { kind: 'reconnecting', attempt: 2 },
+    'failed': { kind: 'error', message: 'boom' },
+    'closed': { kind: 'closed', reason: 'replay-finished' },
+  },
+  'listening': {
+    'user-speech-start': { kind: 'user-speaking' },
+    'ai-audio-start': { kind: 'ai-speaking' },
+    'interrupted': { kind: 'interrupted' },
+    'connection-lost': { kind: 'reconnecting', attempt: 2 },
+    'failed': { kind: 'error', message: 'boom' },
+    'closed': { kind: 'closed', reason: 'replay-finished' },
+  },
+  'user-speaking': {
+    'user-speech-end': { kind: 'listening' },
+    'ai-audio-start': { kind: 'ai-speaking' },
+    'interrupted': { kind: 'interrupted' },
+    'connection-lost': { kind: 'reconnecting', attempt: 2 },
+    'failed': { kind: 'error', message: 'boom' },
+    'closed': { kind: 'closed', reason: 'replay-finished' },
+  },
+  'ai-speaking': {
+    'ai-audio-end': { kind: 'listening' },
+    'interrupted': { kind: 'interrupted' },
+    'connection-lost': { kind: 'reconnecting', attempt: 2 },
+    'failed': { kind: 'error', message: 'boom' },
+    'closed': { kind: 'closed', reason: 'replay-finished' },
+  },
+  'interrupted': {
+    'user-speech-start': { kind: 'user-speaking' },
+    'ai-audio-start': { kind: 'ai-speaking' },
+    'interrupt-settled': { kind: 'listening' },
+    'connection-lost': { kind: 'reconnecting', attempt: 2 },
+    'failed': { kind: 'error', message: 'boom' },
+    'closed': { kind: 'closed', reason: 'replay-finished' },
+  },
+  'reconnecting': {
+    'opened': { kind: 'listening' },
+    'connection-lost': { kind: 'reconnecting', attempt: 2 },
+    'failed': { kind: 'error', message: 'boom' },
+    'closed': { kind: 'closed', reason: 'replay-finished' },
+  },
+  'error': {
+    'connecting': { kind: 'connecting', provider: 'Gemini' },
+  },
+  'closed': {
+    'connecting': { kind: 'connecting', provider: 'Gemini' },
+  },
+};
+
+const CASES = Object.entries(STATES).flatMap(([stateKind, state]) =>
+  Object.entries(EVENTS).map(([eventType, event]) => ({
+    stateKind,
+    eventType,
+    state,
+    event,
+    expected: EXPECTED[stateKind as SessionStateKind][eventType as SessionEvent['type']],
+  })),
+);
+
+describe('transition', () => {
+  it.each(CASES.filter(c => c.expected))('$stateKind + $eventType moves on', ({ state, event, expected }) => {
+    expect(transition(state, event)).toEqual(expected);
+  });
+
+  it.each(CASES.filter(c => !c.expected))('$stateKind + $eventType is rejected', ({ state, event }) => {
+    // Rejected events hand back the very same object, so callers can skip the update
+    expect(transition(state, event)).toBe(state);
+  });
+
+  it('ignores a repeat interruption without re-notifying listeners', () => {
+    const machine = new SessionMachine();
+    machine.dispatch({ type: 'connecting', provider: 'Gemini' });
+    machine.dispatch({ type: 'opened' });
+    const held = machine.dispatch({ type: 'interrupted' });
+    const listener = vi.fn();
+    machine.subscribe(listener);
+    expect(machine.dispatch({ type: 'interrupted' })).toBe(held);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('ignores a repeat of the reconnect attempt already under way', () => {
+    const state = STATES.reconnecting;
+    expect(transition(state, { type: 'connection-lost', attempt: 1 })).toBe(state);
+  });
+
+  it('walks a barge-in from ai-speaking through interrupted back to listening', () => {
+    const events: SessionEvent[] = [{ type: 'interrupted' }, { type: 'interrupt-settled' }];
+    const kinds: SessionStateKind[] = [];
+    let state = STATES['ai-speaking'];
+    for (const event of events) {
+      state = transition(state, event);
+      kinds.push(state.kind);
+    }
+    expect(kinds).toEqual(['interrupted', 'listening']);
+  });
+
+  it('accepts nothing after closing but a fresh connection', () => {
+    let state = transition(STATES.listening, { type: 'closed', reason: 'disconnected' });
+    for (const event of Object.values(EVENTS)) {
+      if (event.type !== 'connecting') expect(transition(state, event)).toBe(state);
+    }
+    state = transition(state, EVENTS.connecting);
+    expect(state).toEqual({ kind: 'connecting', provider: 'Gemini' });
+  });
+});
+
+describe('SessionMachine', () => {
+  const conversing = () => {
+    const machine = new SessionMachine();
+    machine.dispatch({ type: 'connecting', provider: 'Mock' });
+    machine.dispatch({ type: 'opened' });
+    return machine;
+  };
+
+  it('notifies listeners of real changes only', () => {
+    const machine = conversing();
+    const heard: SessionStateKind[] = [];
+    machine.subscribe(state => heard.push(state.kind));
+    machine.dispatch({ type: 'ai-audio-start' });
+    machine.dispatch({ type: 'ai-audio-start' });
+    machine.dispatch({ type: 'user-speech-start' });
+    machine.dispatch({ type: 'ai-audio-end' });
+    expect(heard).toEqual(['ai-speaking', 'listening']);
+  });
+
+  it('stops notifying once unsubscribed', () => {
+    const machine = conversing();
+    const heard: SessionStateKind[] = [];
+    const unsubscribe = machine.subscribe(state => heard.push(state.kind));
+    unsubscribe();
+    machine.dispatch({ type: 'ai-audio-start' });
+    expect(heard).toEqual([]);
+  });
+
+  it('holds the interrupted state before settling back to listening', () => {
+    const machine = conversing();
+    machine.updateAudio(0, true, false);
+    machine.dispatch({ type: 'interrupted' });
+    const hold = INTERRUPTED_HOLD_MS / 1000;
+    expect(machine.updateAudio(1, false, false).kind).toBe('interrupted');
+    expect(machine.updateAudio(1 + hold / 2, false, false).kind).toBe('interrupted');
+    expect(machine.updateAudio(1 + hold, false, false).kind).toBe('listening');
+  });
+
+  it('leaves the interrupted hold as soon as someone speaks', () => {
+    const machine = conversing();
+    machine.dispatch({ type: 'interrupted' });
+    expect(machine.updateAudio(0, false, true).kind).toBe('user-speaking');
+  });
+});
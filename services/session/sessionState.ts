@@ -0,0 +1,170 @@
+// --- Session State Machine ---
+// One typed source of truth for where the conversation is. Connection
+// events are edge-triggered; audio events are level-triggered and safe to
+// dispatch every frame, since a transition to the same state is a no-op.
+
+export type SessionState =
+  | { kind: 'initializing' }
+  | { kind: 'requesting-mic' }
+  | { kind: 'connecting'; provider: string }
+  | { kind: 'listening' }
+  | { kind: 'user-speaking' }
+  | { kind: 'ai-speaking' }
+  | { kind: 'interrupted' }
+  | { kind: 'reconnecting'; attempt: number }
+  | { kind: 'error'; message: string }
+  | { kind: 'closed'; reason: 'disconnected' | 'replay-finished' };
+
+export type SessionStateKind = SessionState['kind'];
+
+export type SessionEvent =
+  | { type: 'mic-requested' }
+  | { type: 'connecting'; provider: string }
+  | { type: 'opened' }
+  | { type: 'user-speech-start' }
+  | { type: 'user-speech-end' }
+  | { type: 'ai-audio-start' }
+  | { type: 'ai-audio-end' }
+  | { type: 'interrupted' }
+  | { type: 'interrupt-settled' }
+  | { type: 'connection-lost'; attempt: number }
+  | { type: 'failed'; message: string }
+  | { type: 'closed'; reason: 'disconnected' | 'replay-finished' };
+
+/** How long the interrupted state holds before settling back to listening. */
+export const INTERRUPTED_HOLD_MS = 1500;
+
+export const INITIAL_SESSION_STATE: SessionState = { kind: 'initializing' };
+
+const CONVERSING: SessionStateKind[] = ['listening', 'user-speaking', 'ai-speaking', 'interrupted'];
+
+/** True once the session is open and exchanging audio. */
+export const isConversing = (state: SessionState) => CONVERSING.includes(state.kind);
+
+/**
+ * Pure transition function. Events that don't apply to the current state
+ * return it unchanged (same object), which callers can use to skip updates.
+ */
+export function transition(state: SessionState, event: SessionEvent): SessionState {
+  // Failures and closes apply from anywhere that isn't already terminal
+  if (state.kind !== 'error' && state.kind !== 'closed') {
+    if (event.type === 'failed') return { kind: 'error', message: event.message };
+    if (event.type === 'closed') return { kind: 'closed', reason: event.reason };
+  }
+
+  switch (state.kind) {
+    case 'initializing':
+      if (event.type === 'mic-requested') return { kind: 'requesting-mic' };
+      if (event.type === 'connecting') return { kind: 'connecting', provider: event.provider };
+      return state;
+
+    case 'requesting-mic':
+      if (event.type === 'connecting') return { kind: 'connecting', provider: event.provider };
+      return state;
+
+    case 'connecting':
+      if (event.type === 'opened') return { kind: 'listening' };
+      if (event.type === 'connection-lost') return { kind: 'reconnecting', attempt: event.attempt };
+      return state;
+
+    case 'listening':
+      if (event.type === 'ai-audio-start') return { kind: 'ai-speaking' };
+      if (event.type === 'user-speech-start') return { kind: 'user-speaking' };
+      break;
+
+    case 'user-speaking':
+      if (event.type === 'ai-audio-start') return { kind: 'ai-speaking' };
+      if (event.type === 'user-speech-end') return { kind: 'listening' };
+      break;
+
+    case 'ai-speaking':
+      // The user talking over the AI is echo or a barge-in; the server decides which via 'interrupted'
+      if (event.type === 'ai-audio-end') return { kind: 'listening' };
+      break;
+
+    case 'interrupted':
+      // A second interruption while already held changes nothing
+      if (event.type === 'interrupted') return state;
+      if (event.type === 'ai-audio-start') return { kind: 'ai-speaking' };
+      if (event.type === 'user-speech-start') return { kind: 'user-speaking' };
+      if (event.type === 'interrupt-settled') return { kind: 'listening' };
+      break;
+
+    case 'reconnecting':
+      if (event.type === 'opened') return { kind: 'listening' };
+      if (event.type === 'connection-lost' && event.attempt !== state.attempt) {
+        return { kind: 'reconnecting', attempt: event.attempt };
+      }
+      return state;
+
+    case 'error':
+    case 'closed':
+      // A fresh session may start over
+      if (event.type === 'connecting') return { kind: 'connecting', provider: event.provider };
+      return state;
+  }
+
+  // Shared by every conversing state
+  if (event.type === 'interrupted') return { kind: 'interrupted' };
+  if (event.type === 'connection-lost') return { kind: 'reconnecting', attempt: event.attempt };
+  return state;
+}
+
+export class SessionMachine {
+  private current: SessionState = INITIAL_SESSION_STATE;
+  private listeners = new Set<(state: SessionState) => void>();
+  private interruptedSince: number | null = null;
+
+  get state(): SessionState {
+    return this.current;
+  }
+
+  subscribe(listener: (state: SessionState) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Applies `event`; listeners only hear about real changes. */
+  dispatch(event: SessionEvent): SessionState {
+    const next = transition(this.current, event);
+    if (next !== this.current) {
+      this.current = next;
+      this.listeners.forEach(listener => listener(next));
+    }
+    return next;
+  }
+
+  /**
+   * Feeds one frame of audio levels; `now` is in seconds on any steady clock
+   * and times the interrupted hold.
+   */
+  updateAudio(now: number, aiPlaying: boolean, userSpeaking: boolean): SessionState {
+    this.dispatch({ type: aiPlaying ? 'ai-audio-start' : 'ai-audio-end' });
+    this.dispatch({ type: userSpeaking ? 'user-speech-start' : 'user-speech-end' });
+
+    if (this.current.kind !== 'interrupted') {
+      this.interruptedSince = null;
+    } else if (this.interruptedSince === null) {
+      this.interruptedSince = now;
+    } else if (now - this.interruptedSince >= INTERRUPTED_HOLD_MS / 1000) {
+      this.dispatch({ type: 'interrupt-settled' });
+    }
+    return this.current;
+  }
+}
+
+/** HUD wording for a state. */
+export function describeSessionState(state: SessionState, { replay = false } = {}): string {
+  switch (state.kind) {
+    case 'initializing': return 'Initializing...';
+    case 'requesting-mic': return 'Requesting Microphone...';
+    case 'connecting': return `Connecting to ${state.provider}...`;
+    case 'listening': return replay ? 'Replaying recording...' : 'Listening...';
+    case 'user-speaking': return 'Hearing you...';
+    case 'ai-speaking': return 'AI is speaking...';
+    case 'interrupted': return 'Interrupted';
+    case 'reconnecting': return `Reconnecting (attempt ${state.attempt})...`;
+    case 'error': return `Error: ${state.message}`;
+    case 'closed': return state.reason === 'replay-finished' ? 'Replay finished.' : 'Disconnected.';
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, MODELS, normalizeSettings, readSharedSettings } from './sessionSettings';
+
+describe('normalizeSettings', () => {
+  it('only accepts the listed models', () => {
+    expect(normalizeSettings({ model: MODELS[1] }).model).toBe(MODELS[1]);
+    expect(normalizeSettings({ model: 'some-other-model' }).model).toBe(DEFAULT_SETTINGS.model);
+  });
+});
+
+describe('readSharedSettings', () => {
+  const stored = { ...DEFAULT_SETTINGS, voice: 'Kore', personaId: 'oracle' };
+
+  it('returns only the link values that would change the stored settings', () => {
+    const shared = readSharedSettings(stored, '?voice=Kore&persona=custom&instructions=Only%20speak%20in%20rhyme');
+    expect(shared).toEqual({ personaId: 'custom', customInstructions: 'Only speak in rhyme' });
+  });
+
+  it('drops values the settings would not accept', () => {
+    expect(readSharedSettings(stored, '?model=some-other-model&voice=Nobody&talk=shout')).toEqual({});
+  });
+
+  it('keeps a link value that happens to be the default', () => {
+    expect(readSharedSettings(stored, '?voice=Puck')).toEqual({ voice: 'Puck' });
+  });
+
+  it('caps shared instructions', () => {
+    const shared = readSharedSettings(stored, `?instructions=${'a'.repeat(5000)}`);
+    expect(shared.customInstructions).toHaveLength(2000);
+  });
+
+  it('is empty for a plain link', () => {
+    expect(readSharedSettings(stored, '')).toEqual({});
+  });
+});
@@ -0,0 +1,241 @@
+import { EndSensitivity, LiveConnectConfig, RealtimeInputConfig, StartSensitivity } from '@google/genai';
+import { DEFAULT_LIVE_MODEL } from '../voice/geminiProvider';
+
+// --- Session Settings ---
+// Who the entity is and how it sounds. Persisted in localStorage and
+// shareable as URL query parameters. A shared link can rewrite the persona and
+// its instructions, so its values only replace stored ones once the visitor
+// accepts them.
+
+export interface Persona {
+  id: string;
+  name: string;
+  instruction: string;
+}
+
+/**
+ * How the mic reaches the session: always open, only while a key or button is
+ * held, or closed whenever the AI is talking (for speakers that echo).
+ */
+export type TalkMode = 'open' | 'push-to-talk' | 'half-duplex';
+
+/** How readily speech is detected, on the server and in the client-side VAD. */
+export type VadSensitivity = 'low' | 'medium' | 'high';
+
+export interface SessionSettings {
+  model: string;
+  voice: string;
+  /** BCP-47 code for speech output; empty lets the model choose. */
+  language: string;
+  personaId: string;
+  /** Appended to the persona's instruction, or used alone with the custom persona. */
+  customInstructions: string;
+  talkMode: TalkMode;
+  vadSensitivity: VadSensitivity;
+}
+
+export const CUSTOM_PERSONA_ID = 'custom';
+
+export const PERSONAS: Persona[] = [
+  {
+    id: 'cosmic-galaxy',
+    name: 'Cosmic Galaxy',
+    instruction: 'You are a cosmic, glowing sentient galaxy. Speak naturally in a conversational tone. Keep your sentences punchy.',
+  },
+  {
+    id: 'stargazer',
+    name: 'Stargazing Guide',
+    instruction: 'You are a warm, knowledgeable stargazing guide. Explain astronomy simply and with wonder, in short spoken sentences.',
+  },
+  {
+    id: 'oracle',
+    name: 'Ancient Oracle',
+    instruction: 'You are an ancient oracle speaking from the depths of space. Answer in calm, poetic, but brief sentences.',
+  },
+  {
+    id: 'companion',
+    name: 'Friendly Companion',
+    instruction: 'You are a friendly, upbeat companion. Chat casually, ask follow-up questions, and keep replies short.',
+  },
+  { id: CUSTOM_PERSONA_ID, name: 'Custom', instruction: '' },
+];
+
+export const VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const LANGUAGES: { code: string; label: string }[] = [
+  { code: '', label: 'Auto' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'hi-IN', label: 'Hindi' },
+];
+
+export const TALK_MODES: { mode: TalkMode; label: string }[] = [
+  { mode: 'open', label: 'Open mic' },
+  { mode: 'push-to-talk', label: 'Push to talk' },
+  { mode: 'half-duplex', label: 'Half-duplex' },
+];
+
+export const VAD_SENSITIVITIES: VadSensitivity[] = ['low', 'medium', 'high'];
+
+export const MODELS = [DEFAULT_LIVE_MODEL, 'gemini-live-2.5-flash-preview'];
+
+export const DEFAULT_SETTINGS: SessionSettings = {
+  model: DEFAULT_LIVE_MODEL,
+  voice: 'Puck',
+  language: '',
+  personaId: 'cosmic-galaxy',
+  customInstructions: '',
+  talkMode: 'open',
+  vadSensitivity: 'medium',
+};
+
+const STORAGE_KEY = 'sonic-entity:settings';
+
+// Short query parameter names keep share links readable
+const URL_PARAMS: Record<keyof SessionSettings, string> = {
+  model: 'model',
+  voice: 'voice',
+  language: 'lang',
+  personaId: 'persona',
+  customInstructions: 'instructions',
+  talkMode: 'talk',
+  vadSensitivity: 'vad',
+};
+
+const MAX_CUSTOM_INSTRUCTIONS = 2000;
+
+export const SETTING_LABELS: Record<keyof SessionSettings, string> = {
+  model: 'Model',
+  voice: 'Voice',
+  language: 'Language',
+  personaId: 'Persona',
+  customInstructions: 'Instructions',
+  talkMode: 'Talk mode',
+  vadSensitivity: 'Speech detection',
+};
+
+/** Drops unknown or malformed values back to their defaults. */
+export function normalizeSettings(value: Partial<Record<keyof SessionSettings, unknown>>): SessionSettings {
+  const pick = (candidate: unknown, allowed: string[], fallback: string) =>
+    typeof candidate === 'string' && allowed.includes(candidate) ? candidate : fallback;
+
+  return {
+    model: pick(value.model, MODELS, DEFAULT_SETTINGS.model),
+    voice: pick(value.voice, VOICES, DEFAULT_SETTINGS.voice),
+    language: pick(value.language, LANGUAGES.map(l => l.code), DEFAULT_SETTINGS.language),
+    personaId: pick(value.personaId, PERSONAS.map(p => p.id), DEFAULT_SETTINGS.personaId),
+    customInstructions: typeof value.customInstructions === 'string'
+      ? value.customInstructions.slice(0, MAX_CUSTOM_INSTRUCTIONS)
+      : DEFAULT_SETTINGS.customInstructions,
+    talkMode: pick(value.talkMode, TALK_MODES.map(t => t.mode), DEFAULT_SETTINGS.talkMode) as TalkMode,
+    vadSensitivity: pick(value.vadSensitivity, VAD_SENSITIVITIES, DEFAULT_SETTINGS.vadSensitivity) as VadSensitivity,
+  };
+}
+
+function readStoredSettings(): Partial<SessionSettings> {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+}
+
+function readUrlSettings(search: string): Partial<SessionSettings> {
+  const params = new URLSearchParams(search);
+  const fromUrl: Partial<SessionSettings> = {};
+  for (const key of Object.keys(URL_PARAMS) as (keyof SessionSettings)[]) {
+    const value = params.get(URL_PARAMS[key]);
+    if (value !== null) (fromUrl as Record<string, string>)[key] = value;
+  }
+  return fromUrl;
+}
+
+/** Stored settings; a shared link's values come separately from `readSharedSettings`. */
+export function loadSettings(): SessionSettings {
+  return normalizeSettings({ ...DEFAULT_SETTINGS, ...readStoredSettings() });
+}
+
+/** The valid settings in this page's link that differ from `settings`, for the visitor to accept or ignore. */
+export function readSharedSettings(settings: SessionSettings, search = window.location.search): Partial<SessionSettings> {
+  const fromUrl = readUrlSettings(search);
+  const shared = normalizeSettings({ ...settings, ...fromUrl });
+  const changed: Partial<SessionSettings> = {};
+  for (const key of Object.keys(fromUrl) as (keyof SessionSettings)[]) {
+    // A malformed value normalizes to the default, which mustn't displace a stored choice
+    const valid = shared[key] !== DEFAULT_SETTINGS[key] || fromUrl[key] === DEFAULT_SETTINGS[key];
+    if (valid && shared[key] !== settings[key]) (changed as Record<string, string>)[key] = shared[key];
+  }
+  return changed;
+}
+
+/** Drops a shared link's parameters from the address bar once the visitor has answered. */
+export function clearSharedSettings() {
+  const url = new URL(window.location.href);
+  Object.values(URL_PARAMS).forEach(param => url.searchParams.delete(param));
+  window.history.replaceState(window.history.state, '', url);
+}
+
+export function saveSettings(settings: SessionSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Could not persist settings:', err);
+  }
+}
+
+/** A link to this page that opens with `settings`; defaults are left out to keep it short. */
+export function shareUrl(settings: SessionSettings): string {
+  const url = new URL(window.location.href);
+  for (const key of Object.keys(URL_PARAMS) as (keyof SessionSettings)[]) {
+    if (settings[key] && settings[key] !== DEFAULT_SETTINGS[key]) url.searchParams.set(URL_PARAMS[key], settings[key]);
+    else url.searchParams.delete(URL_PARAMS[key]);
+  }
+  return url.toString();
+}
+
+export function systemInstructionFor(settings: SessionSettings): string {
+  const persona = PERSONAS.find(p => p.id === settings.personaId) ?? PERSONAS[0];
+  const custom = settings.customInstructions.trim();
+  if (persona.id === CUSTOM_PERSONA_ID) return custom || PERSONAS[0].instruction;
+  return custom ? `${persona.instruction}\n\n${custom}` : persona.instruction;
+}
+
+function realtimeInputConfigFor({ talkMode, vadSensitivity }: SessionSettings): RealtimeInputConfig | undefined {
+  // Push-to-talk marks turns itself with activityStart/activityEnd
+  if (talkMode === 'push-to-talk') return { automaticActivityDetection: { disabled: true } };
+  if (vadSensitivity === 'medium') return undefined;
+  const high = vadSensitivity === 'high';
+  return {
+    automaticActivityDetection: {
+      startOfSpeechSensitivity: high ? StartSensitivity.START_SENSITIVITY_HIGH : StartSensitivity.START_SENSITIVITY_LOW,
+      endOfSpeechSensitivity: high ? EndSensitivity.END_SENSITIVITY_HIGH : EndSensitivity.END_SENSITIVITY_LOW,
+    },
+  };
+}
+
+/** The parts of the Live connect config that settings control. */
+export function liveConfigFor(settings: SessionSettings): Pick<LiveConnectConfig, 'systemInstruction' | 'speechConfig' | 'realtimeInputConfig'> {
+  const realtimeInputConfig = realtimeInputConfigFor(settings);
+  return {
+    systemInstruction: systemInstructionFor(settings),
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } },
+      ...(settings.language ? { languageCode: settings.language } : {}),
+    },
+    ...(realtimeInputConfig ? { realtimeInputConfig } : {}),
+  };
+}
+
+/** Client-side VAD margin (analyser units above the noise floor) for each sensitivity. */
+export const VAD_MARGINS: Record<VadSensitivity, number> = { low: 10, medium: 6, high: 4 };
+
+/** Settings that need a new Live session when they change. */
+export const sessionKey = (settings: SessionSettings) =>
+  [settings.model, settings.voice, settings.language, systemInstructionFor(settings), settings.talkMode, settings.vadSensitivity].join('|');
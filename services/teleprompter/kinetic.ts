@@ -0,0 +1,78 @@
+import { SENTENCE_END } from './wordTimeline';
+
+// --- Kinetic Typography Chunking ---
+
+export const KINETIC_CHUNK_SIZE = 5;
+export const MIN_KINETIC_CHUNK_SIZE = 2;
+export const MAX_KINETIC_CHUNK_SIZE = 10;
+/** How long the last chunk stays on screen after the AI stops speaking. */
+export const KINETIC_LINGER_MS = 3500;
+
+/**
+ * How the words are laid out: a centred chunk at a time, one word at a time,
+ * a karaoke line scrolling past the active word, or subtitle-style captions.
+ */
+export type KineticLayout = 'centred' | 'flash' | 'karaoke' | 'captions';
+
+export interface KineticText {
+  words: string[];
+  activeIndex: number;
+}
+
+export const EMPTY_KINETIC_TEXT: KineticText = { words: [], activeIndex: -1 };
+
+// Long run-on speech is announced in pieces of at most this many words
+const MAX_ANNOUNCED_WORDS = 25;
+
+/** The on-screen chunk containing word `index` of the turn, plus a key that changes when the display does. */
+export function kineticChunk(words: readonly string[], index: number, chunkSize = KINETIC_CHUNK_SIZE): KineticText & { key: string } {
+  const chunkIndex = Math.floor(index / chunkSize);
+  const activeIndex = index % chunkSize;
+  return {
+    words: words.slice(chunkIndex * chunkSize, (chunkIndex + 1) * chunkSize),
+    activeIndex,
+    key: `${chunkSize}:${chunkIndex}-${activeIndex}`,
+  };
+}
+
+/** What `layout` shows while word `index` is spoken; the karaoke line keeps `chunkSize` words either side. */
+export function kineticView(
+  words: readonly string[],
+  index: number,
+  layout: KineticLayout,
+  chunkSize = KINETIC_CHUNK_SIZE,
+): KineticText & { key: string } {
+  switch (layout) {
+    case 'flash':
+      return { words: words.slice(index, index + 1), activeIndex: 0, key: `flash:${index}` };
+    case 'karaoke': {
+      const start = Math.max(0, index - chunkSize);
+      return { words: words.slice(start, index + chunkSize + 1), activeIndex: index - start, key: `karaoke:${chunkSize}:${index}` };
+    }
+    default: {
+      const { key, ...chunk } = kineticChunk(words, index, chunkSize);
+      return { ...chunk, key: `${layout}:${key}` };
+    }
+  }
+}
+
+/**
+ * Speech for a screen reader's live region: the sentences spoken so far that
+ * haven't been announced, or everything left once the turn is `finished`.
+ * Returns the text and the word count it brings `announced` up to, or null
+ * while a sentence is still under way.
+ */
+export function pendingAnnouncement(
+  words: readonly string[],
+  announced: number,
+  index: number,
+  finished = false,
+): { text: string; announced: number } | null {
+  let end = finished ? words.length - 1 : -1;
+  for (let i = Math.min(index, words.length - 1); end < 0 && i >= announced; i--) {
+    if (SENTENCE_END.test(words[i])) end = i;
+  }
+  if (end < 0 && index - announced + 1 >= MAX_ANNOUNCED_WORDS) end = index;
+  if (end < announced) return null;
+  return { text: words.slice(announced, end + 1).join(' '), announced: end + 1 };
+}
@@ -0,0 +1,105 @@
+import { alignWordIndex, WordTiming } from './wordTimeline';
+
+// --- Energy-Based Syllable & Pause Detection ---
+// Fed the analyser's average magnitude every frame. Tracks an adaptive noise
+// floor, flags syllable onsets (sharp rises in energy) and pauses (energy held
+// near the floor), which the teleprompter uses to nudge word timing.
+
+export interface SpeechActivity {
+  /** True on the frame a syllable nucleus starts. */
+  onset: boolean;
+  /** True while the voice has been near-silent for longer than a breath. */
+  pause: boolean;
+  /** Energy above the noise floor, 0–1. */
+  level: number;
+}
+
+const PAUSE_HOLD_SECONDS = 0.12;
+const ONSET_RATIO = 1.35;
+const ONSET_REFRACTORY_SECONDS = 0.09;
+
+export class SpeechActivityTracker {
+  private floor = 2;
+  private smoothed = 0;
+  private quietFor = 0;
+  private sinceOnset = Infinity;
+  private armed = true;
+
+  update(energy: number, delta: number): SpeechActivity {
+    // Floor follows quiet passages quickly and loud ones very slowly
+    const floorRate = energy < this.floor ? 4.0 : 0.05;
+    this.floor += (energy - this.floor) * Math.min(1, floorRate * delta);
+
+    const previous = this.smoothed;
+    this.smoothed += (energy - this.smoothed) * Math.min(1, 25 * delta);
+    const gate = this.floor + 3;
+
+    if (this.smoothed < gate) {
+      this.quietFor += delta;
+      this.armed = true;
+    } else {
+      this.quietFor = 0;
+    }
+
+    this.sinceOnset += delta;
+    let onset = false;
+    if (
+      this.smoothed > gate &&
+      this.smoothed > previous * ONSET_RATIO &&
+      this.armed &&
+      this.sinceOnset > ONSET_REFRACTORY_SECONDS
+    ) {
+      onset = true;
+      this.armed = false;
+      this.sinceOnset = 0;
+    } else if (this.smoothed < previous * 0.8) {
+      // A dip between syllables re-arms onset detection
+      this.armed = true;
+    }
+
+    return {
+      onset,
+      pause: this.quietFor > PAUSE_HOLD_SECONDS,
+      level: Math.min(1, Math.max(0, (this.smoothed - this.floor) / 60)),
+    };
+  }
+
+  reset() {
+    this.smoothed = 0;
+    this.quietFor = 0;
+    this.sinceOnset = Infinity;
+    this.armed = true;
+  }
+}
+
+// How far ahead of the timeline an onset may pull the next word
+const ONSET_SNAP_SECONDS = 0.15;
+// How long a pause may hold a word past its scheduled end before timing wins anyway
+const PAUSE_HOLD_LIMIT_SECONDS = 0.35;
+
+/**
+ * Resolves the highlighted word from the timeline plus live speech activity.
+ * Never moves backwards within a turn: `previous` is the last index shown.
+ */
+export function resolveActiveWord(
+  timings: WordTiming[],
+  time: number,
+  previous: number,
+  activity: SpeechActivity,
+): number {
+  let index = alignWordIndex(timings, time);
+
+  // The voice has paused: hold the current word rather than run ahead into silence
+  if (activity.pause && index > previous && previous >= 0) {
+    const overdue = time - timings[previous].end;
+    if (overdue < PAUSE_HOLD_LIMIT_SECONDS) index = previous;
+  }
+
+  // A fresh syllable just before the next scheduled word means that word has started
+  const next = Math.max(index, previous) + 1;
+  if (activity.onset && next < timings.length && timings[next].start - time < ONSET_SNAP_SECONDS) {
+    index = next;
+  }
+
+  return Math.max(index, previous);
+}
@@ -0,0 +1,137 @@
+import type { GalaxyTheme } from '../../scene/themes';
+import { KINETIC_CHUNK_SIZE, KineticLayout, MAX_KINETIC_CHUNK_SIZE, MIN_KINETIC_CHUNK_SIZE } from './kinetic';
+
+// --- Kinetic Typography Preferences ---
+// How the teleprompter's words are shown: as a DOM overlay over the canvas, or
+// spelled by the galaxy's own particles inside the scene; how they're laid
+// out, and how they're set for readability.
+
+export type WordRendering = 'overlay' | 'particles';
+export type KineticFont = 'theme' | 'readable' | 'system';
+export type KineticContrast = 'normal' | 'high';
+
+export interface TypographyPreference {
+  rendering: WordRendering;
+  layout: KineticLayout;
+  /** Words per chunk; the karaoke line shows this many either side of the active word. */
+  chunkSize: number;
+  font: KineticFont;
+  /** Multiplier on the layout's own text size. */
+  size: number;
+  contrast: KineticContrast;
+  uppercase: boolean;
+}
+
+export const MIN_KINETIC_SIZE = 0.5;
+export const MAX_KINETIC_SIZE = 2;
+
+export const DEFAULT_TYPOGRAPHY_PREFERENCE: TypographyPreference = {
+  rendering: 'overlay',
+  layout: 'centred',
+  chunkSize: KINETIC_CHUNK_SIZE,
+  font: 'theme',
+  size: 1,
+  contrast: 'normal',
+  uppercase: true,
+};
+
+/** Captions in a dyslexia-friendly face, mixed case, larger and on solid backing. */
+export const ACCESSIBLE_TYPOGRAPHY_PREFERENCE: TypographyPreference = {
+  ...DEFAULT_TYPOGRAPHY_PREFERENCE,
+  layout: 'captions',
+  font: 'readable',
+  size: 1.25,
+  contrast: 'high',
+  uppercase: false,
+};
+
+export const WORD_RENDERINGS: { rendering: WordRendering; label: string }[] = [
+  { rendering: 'overlay', label: 'Overlay' },
+  { rendering: 'particles', label: 'Particles' },
+];
+
+export const KINETIC_LAYOUTS: { layout: KineticLayout; label: string }[] = [
+  { layout: 'centred', label: 'Centred' },
+  { layout: 'flash', label: 'Flash' },
+  { layout: 'karaoke', label: 'Karaoke' },
+  { layout: 'captions', label: 'Captions' },
+];
+
+export const KINETIC_FONTS: { font: KineticFont; label: string }[] = [
+  { font: 'theme', label: 'Theme' },
+  { font: 'readable', label: 'Atkinson Hyperlegible' },
+  { font: 'system', label: 'System sans-serif' },
+];
+
+export const KINETIC_CONTRASTS: { contrast: KineticContrast; label: string }[] = [
+  { contrast: 'normal', label: 'Normal' },
+  { contrast: 'high', label: 'High' },
+];
+
+/** The CSS font-family for `font`; "theme" follows the active theme's face. */
+export function kineticFontFamily(font: KineticFont, typography: GalaxyTheme['typography']): string {
+  switch (font) {
+    case 'readable':
+      return '"Atkinson Hyperlegible", sans-serif';
+    case 'system':
+      return 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+    default:
+      return typography.fontFamily;
+  }
+}
+
+/**
+ * The layout the words are actually laid out in. Particles spell one chunk at
+ * a time, so a karaoke line, which moves on every word, falls back to centred chunks.
+ */
+export function effectiveKineticLayout({ rendering, layout }: TypographyPreference): KineticLayout {
+  return rendering === 'particles' && layout === 'karaoke' ? 'centred' : layout;
+}
+
+// --- Reduced Motion ---
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/** Calls `onChange` with the OS "reduce motion" setting now and whenever it changes; returns an unsubscribe. */
+export function watchReducedMotion(onChange: (reduced: boolean) => void): () => void {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    onChange(false);
+    return () => {};
+  }
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const handleChange = () => onChange(query.matches);
+  handleChange();
+  query.addEventListener('change', handleChange);
+  return () => query.removeEventListener('change', handleChange);
+}
+
+const STORAGE_KEY = 'sonic-entity:typography';
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+export function loadTypographyPreference(): TypographyPreference {
+  const defaults = DEFAULT_TYPOGRAPHY_PREFERENCE;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+    return {
+      rendering: WORD_RENDERINGS.some(option => option.rendering === stored.rendering) ? stored.rendering : defaults.rendering,
+      layout: KINETIC_LAYOUTS.some(option => option.layout === stored.layout) ? stored.layout : defaults.layout,
+      chunkSize: Math.round(clamp(stored.chunkSize, MIN_KINETIC_CHUNK_SIZE, MAX_KINETIC_CHUNK_SIZE, defaults.chunkSize)),
+      font: KINETIC_FONTS.some(option => option.font === stored.font) ? stored.font : defaults.font,
+      size: clamp(stored.size, MIN_KINETIC_SIZE, MAX_KINETIC_SIZE, defaults.size),
+      contrast: KINETIC_CONTRASTS.some(option => option.contrast === stored.contrast) ? stored.contrast : defaults.contrast,
+      uppercase: typeof stored.uppercase === 'boolean' ? stored.uppercase : defaults.uppercase,
+    };
+  } catch {
+    return DEFAULT_TYPOGRAPHY_PREFERENCE;
+  }
+}
+
+export function saveTypographyPreference(preference: TypographyPreference) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preference));
+  } catch (err) {
+    console.warn('Could not persist typography preference:', err);
+  }
+}
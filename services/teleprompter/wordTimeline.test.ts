@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { alignWordIndex, buildWordTimings, estimateSyllables, TurnTimeline } from './wordTimeline';
+
+const starts = (timings: { start: number }[]) => timings.map(t => Number(t.start.toFixed(6)));
+
+describe('estimateSyllables', () => {
+  it('weights sentence ends more than clause ends', () => {
+    expect(estimateSyllables('go')).toBe(1);
+    expect(estimateSyllables('go,')).toBe(1.5);
+    expect(estimateSyllables('go.')).toBe(2);
+    expect(estimateSyllables('go?")')).toBe(2);
+  });
+});
+
+describe('buildWordTimings', () => {
+  it('spreads a chunk across its words by punctuation-weighted syllables', () => {
+    const timings = buildWordTimings([{ words: ['go,', 'go', 'go.'], spans: [{ start: 10, duration: 4.5 }] }]);
+    // Weights 1.5, 1 and 2 share 4.5 seconds
+    expect(starts(timings)).toEqual([10, 11.5, 12.5]);
+    expect(timings[2].end).toBeCloseTo(14.5);
+  });
+
+  it('skips the gaps between audio buffers', () => {
+    const timings = buildWordTimings([{
+      words: ['one', 'two'],
+      spans: [{ start: 0, duration: 1 }, { start: 5, duration: 1 }],
+    }]);
+    expect(starts(timings)).toEqual([0, 5]);
+  });
+
+  it('holds words whose audio has not arrived at the end of the known audio', () => {
+    const timings = buildWordTimings([
+      { words: ['heard'], spans: [{ start: 2, duration: 1 }] },
+      { words: ['not', 'yet'], spans: [] },
+    ]);
+    expect(starts(timings)).toEqual([2, 3, 3]);
+  });
+
+  it('keeps a still-streaming chunk to a plausible speaking rate', () => {
+    // Twenty one-syllable words but only a second of audio so far
+    const segments = [{ words: Array(20).fill('word'), spans: [{ start: 0, duration: 1 }] }];
+    expect(buildWordTimings(segments, false)[5].start).toBeCloseTo(0.25);
+    expect(buildWordTimings(segments, true)[5].start).toBeCloseTo(0.6);
+    // Words past the audio so far wait at its end
+    expect(buildWordTimings(segments, true)[19].start).toBe(1);
+  });
+
+  it('returns nothing for an empty turn', () => {
+    expect(buildWordTimings([])).toEqual([]);
+    expect(buildWordTimings([{ words: [], spans: [{ start: 0, duration: 1 }] }])).toEqual([]);
+  });
+});
+
+describe('alignWordIndex', () => {
+  const timings = buildWordTimings([{ words: ['go,', 'go', 'go.'], spans: [{ start: 10, duration: 4.5 }] }]);
+
+  it('finds the word being spoken', () => {
+    expect(alignWordIndex(timings, 10)).toBe(0);
+    expect(alignWordIndex(timings, 11.49)).toBe(0);
+    expect(alignWordIndex(timings, 11.5)).toBe(1);
+    expect(alignWordIndex(timings, 13)).toBe(2);
+  });
+
+  it('is -1 before the first word', () => {
+    expect(alignWordIndex(timings, 9.9)).toBe(-1);
+  });
+
+  it('stays on the last known word when playback runs ahead of the transcript', () => {
+    expect(alignWordIndex(timings, 60)).toBe(2);
+  });
+
+  it('is -1 for an empty turn', () => {
+    expect(alignWordIndex([], 5)).toBe(-1);
+  });
+});
+
+describe('TurnTimeline', () => {
+  it('pairs chunks with the audio that follows them', () => {
+    const timeline = new TurnTimeline();
+    timeline.addTranscription('Hello there.');
+    timeline.addAudio(0, 1);
+    timeline.addAudio(1, 1);
+    timeline.addTranscription('How are you?');
+    timeline.addAudio(2, 1.5);
+    timeline.markComplete();
+    expect(timeline.words).toEqual(['Hello', 'there.', 'How', 'are', 'you?']);
+    expect(timeline.audioDuration).toBe(3.5);
+    expect(timeline.timings[2].start).toBe(2);
+  });
+
+  it('pairs audio that arrives before its transcript', () => {
+    const timeline = new TurnTimeline();
+    timeline.addAudio(4, 2);
+    timeline.addTranscription('early audio');
+    timeline.markComplete();
+    expect(starts(timeline.timings)).toEqual([4, 5]);
+  });
+
+  it('starts over cleanly after an interruption', () => {
+    const timeline = new TurnTimeline();
+    timeline.addTranscription('I was saying');
+    timeline.addAudio(0, 2);
+    expect(alignWordIndex(timeline.timings, 1.5)).toBe(2);
+
+    timeline.reset();
+    expect(timeline.words).toEqual([]);
+    expect(timeline.timings).toEqual([]);
+    expect(timeline.audioDuration).toBe(0);
+    expect(alignWordIndex(timeline.timings, 1.5)).toBe(-1);
+
+    timeline.addTranscription('New turn');
+    timeline.addAudio(30, 1);
+    timeline.markComplete();
+    expect(timeline.words).toEqual(['New', 'turn']);
+    expect(alignWordIndex(timeline.timings, 29)).toBe(-1);
+    expect(alignWordIndex(timeline.timings, 30.2)).toBe(0);
+  });
+});
@@ -0,0 +1,186 @@
+// --- Word-Accurate Teleprompter Timing ---
+// The Live API streams a few words of transcript alongside the audio buffers
+// that voice them. Pairing each transcription chunk with the buffers that
+// arrive next gives per-chunk word counts and durations, and spreading each
+// chunk's audio across its words by syllable weight gives a start time for
+// every word in output AudioContext time.
+
+export interface AudioSpan {
+  /** AudioContext time the buffer was scheduled to start. */
+  start: number;
+  duration: number;
+}
+
+export interface TimelineSegment {
+  words: string[];
+  spans: AudioSpan[];
+}
+
+export interface WordTiming {
+  word: string;
+  /** AudioContext time the word starts being spoken. */
+  start: number;
+  end: number;
+}
+
+// Fastest plausible speech rate; stops a still-streaming chunk from squeezing its words into partial audio
+const MIN_SECONDS_PER_SYLLABLE = 0.12;
+
+export const SENTENCE_END = /[.!?…]["')\]]*$/;
+const CLAUSE_END = /[,;:—–-]["')\]]*$/;
+
+/**
+ * Rough spoken weight of a word: vowel groups for Latin script, one unit per
+ * character for scripts without spaces between syllables, plus a trailing
+ * pause for punctuation.
+ */
+export function estimateSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  let syllables: number;
+  if (!letters) {
+    syllables = 0.5;
+  } else if (/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u.test(letters)) {
+    syllables = letters.length;
+  } else if (/^\p{N}+$/u.test(letters)) {
+    // Digits are read out as words, which are long
+    syllables = letters.length * 1.5;
+  } else {
+    const groups = letters.replace(/e$/, '').match(/[aeiouyàáâãäåèéêëìíîïòóôõöùúûüýæœ]+/g);
+    syllables = Math.max(1, groups ? groups.length : Math.ceil(letters.length / 3));
+  }
+
+  if (SENTENCE_END.test(word)) syllables += 1;
+  else if (CLAUSE_END.test(word)) syllables += 0.5;
+  return syllables;
+}
+
+export const splitWords = (text: string) => text.trim().split(/\s+/).filter(w => w.length > 0);
+
+/**
+ * Maps an offset into a segment's voiced audio onto AudioContext time, skipping
+ * playback gaps. An offset on a buffer boundary maps to the next buffer's start,
+ * so a word never lights up during the silence before its audio.
+ */
+function spanTimeAt(spans: AudioSpan[], offset: number): number {
+  let remaining = offset;
+  for (const span of spans) {
+    if (remaining < span.duration) return span.start + remaining;
+    remaining -= span.duration;
+  }
+  const last = spans[spans.length - 1];
+  return last.start + last.duration;
+}
+
+/**
+ * Builds absolute word timings from aligned segments. Words whose audio hasn't
+ * arrived yet are placed at the end of the known audio, so they never light up early.
+ * While `streaming`, the last segment may still be receiving audio, so its words
+ * are spaced at no faster than a plausible speaking rate.
+ */
+export function buildWordTimings(segments: TimelineSegment[], streaming = false): WordTiming[] {
+  const timings: WordTiming[] = [];
+  let audioEnd = 0;
+
+  segments.forEach((segment, index) => {
+    if (segment.spans.length === 0) {
+      for (const word of segment.words) timings.push({ word, start: audioEnd, end: audioEnd });
+      return;
+    }
+
+    const voiced = segment.spans.reduce((sum, span) => sum + span.duration, 0);
+    const lastSpan = segment.spans[segment.spans.length - 1];
+    audioEnd = Math.max(audioEnd, lastSpan.start + lastSpan.duration);
+    if (segment.words.length === 0) return;
+
+    const weights = segment.words.map(estimateSyllables);
+    const weightSum = weights.reduce((a, b) => a + b, 0);
+    const isTail = streaming && index === segments.length - 1;
+    const total = isTail ? Math.max(voiced, weightSum * MIN_SECONDS_PER_SYLLABLE) : voiced;
+    let offset = 0;
+    segment.words.forEach((word, i) => {
+      const share = (weights[i] / weightSum) * total;
+      timings.push({ word, start: spanTimeAt(segment.spans, offset), end: spanTimeAt(segment.spans, offset + share) });
+      offset += share;
+    });
+  });
+  return timings;
+}
+
+/** Index of the word being spoken at `time`, or -1 before the first word. */
+export function alignWordIndex(timings: WordTiming[], time: number): number {
+  let lo = 0;
+  let hi = timings.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (timings[mid].start <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+/** Accumulates one AI turn's transcription chunks and scheduled audio buffers. */
+export class TurnTimeline {
+  private segments: TimelineSegment[] = [];
+  private cachedTimings: WordTiming[] | null = null;
+  private allWords: string[] = [];
+  private complete = false;
+
+  get words(): readonly string[] {
+    return this.allWords;
+  }
+
+  get audioDuration(): number {
+    return this.segments.reduce((sum, s) => sum + s.spans.reduce((t, span) => t + span.duration, 0), 0);
+  }
+
+  // Audio always extends the latest segment; a transcription chunk opens a new
+  // segment only once the latest one has both words and audio, so transcripts
+  // that arrive slightly before or after their audio still pair up.
+  addTranscription(text: string) {
+    const words = splitWords(text);
+    if (words.length === 0) return;
+    let segment = this.segments[this.segments.length - 1];
+    if (!segment || (segment.words.length > 0 && segment.spans.length > 0)) {
+      segment = { words: [], spans: [] };
+      this.segments.push(segment);
+    }
+    segment.words.push(...words);
+    this.allWords.push(...words);
+    this.complete = false;
+    this.cachedTimings = null;
+  }
+
+  addAudio(start: number, duration: number) {
+    let segment = this.segments[this.segments.length - 1];
+    if (!segment) {
+      segment = { words: [], spans: [] };
+      this.segments.push(segment);
+    }
+    segment.spans.push({ start, duration });
+    this.complete = false;
+    this.cachedTimings = null;
+  }
+
+  /** Called on `turnComplete`: no more audio is coming, so the last chunk can use its real duration. */
+  markComplete() {
+    this.complete = true;
+    this.cachedTimings = null;
+  }
+
+  get timings(): WordTiming[] {
+    if (!this.cachedTimings) this.cachedTimings = buildWordTimings(this.segments, !this.complete);
+    return this.cachedTimings;
+  }
+
+  reset() {
+    this.segments = [];
+    this.allWords = [];
+    this.complete = false;
+    this.cachedTimings = null;
+  }
+}
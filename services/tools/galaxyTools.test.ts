@@ -0,0 +1,104 @@
+import type { FunctionCall } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { runSceneCommand, SceneCommandError, SceneCommandTarget } from '../../scene/commands';
+import type { Galaxy } from '../../scene/galaxy';
+import { BUILT_IN_THEMES } from '../../scene/themes';
+import { galaxyTool, parseToolCall, toolResponse } from './galaxyTools';
+
+const call = (name: string, args?: Record<string, unknown>): FunctionCall => ({ id: 'call-1', name, args });
+
+describe('parseToolCall', () => {
+  it.each([
+    ['setTheme', { theme: 'nebula' }, { name: 'setTheme', themeId: 'nebula' }],
+    ['morphTo', { shape: 'torus' }, { name: 'morphTo', formation: { kind: 'torus' } }],
+    ['morphTo', { shape: 'auto' }, { name: 'morphTo', formation: null }],
+    ['morphTo', { shape: 'spiral' }, { name: 'morphTo', formation: { kind: 'spiral', arms: undefined } }],
+    ['morphTo', { shape: 'spiral', arms: 3.4 }, { name: 'morphTo', formation: { kind: 'spiral', arms: 3 } }],
+    ['morphTo', { shape: 'text', text: '  hello ' }, { name: 'morphTo', formation: { kind: 'text', text: 'HELLO' } }],
+    ['setRotationSpeed', { speed: 2 }, { name: 'setRotationSpeed', speed: 2 }],
+    ['spawnShootingStar', undefined, { name: 'spawnShootingStar', count: 1 }],
+    ['spawnShootingStar', { count: 3 }, { name: 'spawnShootingStar', count: 3 }],
+    ['setZoom', { zoom: 1.5 }, { name: 'setZoom', zoom: 1.5 }],
+  ])('accepts %s %j', (name, args, expected) => {
+    expect(parseToolCall(call(name, args))).toEqual(expected);
+  });
+
+  it.each([
+    ['morphTo', { shape: 'spiral', arms: 40 }, { name: 'morphTo', formation: { kind: 'spiral', arms: 8 } }],
+    ['morphTo', { shape: 'spiral', arms: -2 }, { name: 'morphTo', formation: { kind: 'spiral', arms: 1 } }],
+    ['morphTo', { shape: 'text', text: 'supercalifragilistic' }, { name: 'morphTo', formation: { kind: 'text', text: 'SUPERCALIFRA' } }],
+    ['setRotationSpeed', { speed: 99 }, { name: 'setRotationSpeed', speed: 5 }],
+    ['setRotationSpeed', { speed: -1 }, { name: 'setRotationSpeed', speed: 0 }],
+    ['spawnShootingStar', { count: 100 }, { name: 'spawnShootingStar', count: 5 }],
+    ['spawnShootingStar', { count: 0 }, { name: 'spawnShootingStar', count: 1 }],
+    ['setZoom', { zoom: 10 }, { name: 'setZoom', zoom: 2.5 }],
+    ['setZoom', { zoom: 0 }, { name: 'setZoom', zoom: 0.5 }],
+  ])('clamps %s %j into range', (name, args, expected) => {
+    expect(parseToolCall(call(name, args))).toEqual(expected);
+  });
+
+  it.each([
+    ['setTheme', {}, /"theme" must be a theme id/],
+    ['setTheme', { theme: 3 }, /"theme" must be a theme id/],
+    ['morphTo', {}, /Unknown shape "undefined"/],
+    ['morphTo', { shape: 'cube' }, /Unknown shape "cube"/],
+    ['morphTo', { shape: 'text' }, /"text" is required/],
+    ['morphTo', { shape: 'text', text: '   ' }, /"text" is required/],
+    ['morphTo', { shape: 'spiral', arms: 'three' }, /"arms" must be a number/],
+    ['setRotationSpeed', {}, /"speed" must be a number/],
+    ['setRotationSpeed', { speed: '2' }, /"speed" must be a number/],
+    ['spawnShootingStar', { count: Infinity }, /"count" must be a number/],
+    ['setZoom', { zoom: NaN }, /"zoom" must be a number/],
+    ['deleteEverything', {}, /Unknown function "deleteEverything"/],
+  ])('rejects %s %j', (name, args, message) => {
+    expect(() => parseToolCall(call(name, args))).toThrow(SceneCommandError);
+    expect(() => parseToolCall(call(name, args))).toThrow(message);
+  });
+});
+
+describe('toolResponse', () => {
+  it('wraps a result as output', () => {
+    expect(toolResponse(call('setZoom'), { result: { zoom: 2 } })).toEqual({
+      id: 'call-1',
+      name: 'setZoom',
+      response: { output: { zoom: 2 } },
+    });
+  });
+
+  it('wraps a failure as an error', () => {
+    expect(toolResponse(call('setTheme'), { error: 'Unknown theme "plaid"' })).toEqual({
+      id: 'call-1',
+      name: 'setTheme',
+      response: { error: 'Unknown theme "plaid"' },
+    });
+  });
+});
+
+describe('galaxyTool', () => {
+  it('offers exactly the given themes', () => {
+    const setTheme = galaxyTool(BUILT_IN_THEMES).functionDeclarations?.find(d => d.name === 'setTheme');
+    expect(setTheme?.parameters?.properties?.theme.enum).toEqual(BUILT_IN_THEMES.map(t => t.id));
+  });
+});
+
+describe('runSceneCommand', () => {
+  const target = (applied: string[]): SceneCommandTarget => ({
+    galaxy: {} as Galaxy,
+    themes: BUILT_IN_THEMES,
+    applyTheme: theme => applied.push(theme.id),
+    pinFormation: async () => {},
+  });
+
+  it('applies a known theme', async () => {
+    const applied: string[] = [];
+    const theme = BUILT_IN_THEMES[1];
+    await expect(runSceneCommand(target(applied), { name: 'setTheme', themeId: theme.id })).resolves.toEqual({ theme: theme.name });
+    expect(applied).toEqual([theme.id]);
+  });
+
+  it('rejects a theme it does not have', async () => {
+    const applied: string[] = [];
+    await expect(runSceneCommand(target(applied), { name: 'setTheme', themeId: 'plaid' })).rejects.toThrow(/Unknown theme "plaid"/);
+    expect(applied).toEqual([]);
+  });
+});
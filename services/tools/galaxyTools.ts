@@ -0,0 +1,144 @@
+import { FunctionCall, FunctionResponse, Tool, Type } from '@google/genai';
+import { MAX_ROTATION_SPEED, MAX_ZOOM, MIN_ZOOM } from '../../scene/galaxy';
+import { SceneCommand, SceneCommandError, SceneCommandResult } from '../../scene/commands';
+import type { FormationSpec } from '../../scene/formations';
+import type { GalaxyTheme } from '../../scene/themes';
+
+// --- Galaxy Tools ---
+// Function declarations that let the model change the galaxy it claims to be,
+// and the translation of its tool calls into typed scene commands.
+
+const MORPH_SHAPES = ['sphere', 'spiral', 'disc', 'torus', 'ring', 'text', 'auto'] as const;
+const MAX_SHOOTING_STARS = 5;
+// Longer words don't fit across the view as particles
+const MAX_FORMATION_TEXT = 12;
+
+/** The Live config tool for these themes; theme ids are offered as an enum. */
+export function galaxyTool(themes: GalaxyTheme[]): Tool {
+  return {
+    functionDeclarations: [
+      {
+        name: 'setTheme',
+        description: `Recolours the galaxy. Available themes: ${themes.map(t => `${t.id} (${t.name})`).join(', ')}.`,
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            theme: { type: Type.STRING, enum: themes.map(t => t.id), description: 'Theme id.' },
+          },
+          required: ['theme'],
+        },
+      },
+      {
+        name: 'morphTo',
+        description: 'Reshapes the galaxy\'s particles. The shape holds until changed again; "auto" returns to shapes that follow the conversation.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            shape: { type: Type.STRING, enum: [...MORPH_SHAPES] },
+            text: { type: Type.STRING, description: `Word to spell when shape is "text", at most ${MAX_FORMATION_TEXT} characters.` },
+            arms: { type: Type.INTEGER, description: 'Number of arms when shape is "spiral" (1 to 8).' },
+          },
+          required: ['shape'],
+        },
+      },
+      {
+        name: 'setRotationSpeed',
+        description: `Sets how fast the galaxy swirls, as a multiple of its normal speed: 0 stops it, 1 is normal, ${MAX_ROTATION_SPEED} is the fastest.`,
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            speed: { type: Type.NUMBER, minimum: 0, maximum: MAX_ROTATION_SPEED },
+          },
+          required: ['speed'],
+        },
+      },
+      {
+        name: 'spawnShootingStar',
+        description: 'Sends shooting stars streaking across the galaxy.',
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            count: { type: Type.INTEGER, minimum: 1, maximum: MAX_SHOOTING_STARS, description: 'How many, default 1.' },
+          },
+        },
+      },
+      {
+        name: 'setZoom',
+        description: `Moves the viewer closer or further: 1 is the normal view, ${MIN_ZOOM} is far away, ${MAX_ZOOM} is close up.`,
+        parameters: {
+          type: Type.OBJECT,
+          properties: {
+            zoom: { type: Type.NUMBER, minimum: MIN_ZOOM, maximum: MAX_ZOOM },
+          },
+          required: ['zoom'],
+        },
+      },
+    ],
+  };
+}
+
+const numberArg = (args: Record<string, unknown>, key: string): number => {
+  const value = args[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new SceneCommandError(`"${key}" must be a number`);
+  return value;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function formationFromArgs(args: Record<string, unknown>): FormationSpec | null {
+  const shape = args.shape;
+  switch (shape) {
+    case 'auto':
+      return null;
+    case 'spiral': {
+      const arms = args.arms === undefined ? undefined : Math.round(numberArg(args, 'arms'));
+      return { kind: 'spiral', arms: arms === undefined ? undefined : clamp(arms, 1, 8) };
+    }
+    case 'text': {
+      const text = typeof args.text === 'string' ? args.text.trim().toUpperCase() : '';
+      if (!text) throw new SceneCommandError('"text" is required when shape is "text"');
+      return { kind: 'text', text: text.slice(0, MAX_FORMATION_TEXT).trim() };
+    }
+    case 'sphere':
+    case 'disc':
+    case 'torus':
+    case 'ring':
+      return { kind: shape };
+    default:
+      throw new SceneCommandError(`Unknown shape "${String(shape)}"`);
+  }
+}
+
+/**
+ * Validates a tool call's arguments, clamping numbers into the ranges the
+ * declarations advertise; throws SceneCommandError for anything the scene can't do.
+ */
+export function parseToolCall(call: FunctionCall): SceneCommand {
+  const args = call.args ?? {};
+  switch (call.name) {
+    case 'setTheme':
+      if (typeof args.theme !== 'string') throw new SceneCommandError('"theme" must be a theme id');
+      return { name: 'setTheme', themeId: args.theme };
+    case 'morphTo':
+      return { name: 'morphTo', formation: formationFromArgs(args) };
+    case 'setRotationSpeed':
+      return { name: 'setRotationSpeed', speed: clamp(numberArg(args, 'speed'), 0, MAX_ROTATION_SPEED) };
+    case 'spawnShootingStar': {
+      const count = args.count === undefined ? 1 : Math.round(numberArg(args, 'count'));
+      return { name: 'spawnShootingStar', count: clamp(count, 1, MAX_SHOOTING_STARS) };
+    }
+    case 'setZoom':
+      return { name: 'setZoom', zoom: clamp(numberArg(args, 'zoom'), MIN_ZOOM, MAX_ZOOM) };
+    default:
+      throw new SceneCommandError(`Unknown function "${call.name}"`);
+  }
+}
+
+/** Wraps a command's outcome in the shape the Live API expects for `sendToolResponse`. */
+export function toolResponse(call: FunctionCall, outcome: { result: SceneCommandResult } | { error: string }): FunctionResponse {
+  return {
+    id: call.id,
+    name: call.name,
+    response: 'error' in outcome ? { error: outcome.error } : { output: outcome.result },
+  };
+}
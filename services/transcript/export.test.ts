@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { formatClock, formatSrtTime, toJSON, toMarkdown, toSRT } from './export';
+import type { TranscriptEntry } from './transcript';
+
+const words = (start: number, duration: number, count: number) =>
+  Array.from({ length: count }, (_, i) => ({ word: `w${i}`, start: start + i * duration, end: start + (i + 1) * duration }));
+
+const entry = (fields: Partial<TranscriptEntry> & Pick<TranscriptEntry, 'speaker' | 'start' | 'end'>): TranscriptEntry => ({
+  id: 1,
+  text: fields.words ? fields.words.map(w => w.word).join(' ') : '',
+  ...fields,
+});
+
+describe('formatSrtTime', () => {
+  it.each([
+    [0, '00:00:00,000'],
+    [1.5, '00:00:01,500'],
+    [3661.007, '01:01:01,007'],
+    [36000, '10:00:00,000'],
+    // Rounds to the nearest millisecond, carrying into the seconds
+    [59.9996, '00:01:00,000'],
+    [-2, '00:00:00,000'],
+  ])('formats %d as %s', (seconds, expected) => {
+    expect(formatSrtTime(seconds)).toBe(expected);
+  });
+});
+
+describe('formatClock', () => {
+  it.each([
+    [0, '00:00'],
+    [65.9, '01:05'],
+    [600, '10:00'],
+  ])('formats %d as %s', (seconds, expected) => {
+    expect(formatClock(seconds)).toBe(expected);
+  });
+});
+
+describe('toSRT', () => {
+  it('numbers cues in time order, five timed words to a cue', () => {
+    const srt = toSRT([
+      entry({ speaker: 'ai', start: 2.5, end: 4.25, words: words(2.5, 0.25, 7) }),
+      entry({ speaker: 'user', start: 1, end: 2, text: 'hello there' }),
+    ]);
+    expect(srt).toBe([
+      '1\n00:00:01,000 --> 00:00:02,000\nYou: hello there\n',
+      '2\n00:00:02,500 --> 00:00:03,750\nw0 w1 w2 w3 w4\n',
+      '3\n00:00:03,750 --> 00:00:04,250\nw5 w6\n',
+    ].join('\n'));
+  });
+
+  it('spreads an entry without word timings evenly, at least 0.8 s a cue', () => {
+    const text = Array.from({ length: 12 }, (_, i) => `u${i}`).join(' ');
+    const srt = toSRT([entry({ speaker: 'user', start: 0, end: 2, text })]);
+    expect(srt).toBe([
+      '1\n00:00:00,000 --> 00:00:00,800\nYou: u0 u1 u2 u3 u4\n',
+      '2\n00:00:00,800 --> 00:00:01,600\nYou: u5 u6 u7 u8 u9\n',
+      '3\n00:00:01,600 --> 00:00:02,400\nYou: u10 u11\n',
+    ].join('\n'));
+  });
+
+  it('ends a cue where the next one starts', () => {
+    const srt = toSRT([
+      entry({ speaker: 'ai', start: 0, end: 3, words: [{ word: 'interrupted', start: 0, end: 3 }], interrupted: true }),
+      entry({ speaker: 'user', start: 1, end: 1.2, text: 'wait' }),
+    ]);
+    expect(srt).toBe([
+      '1\n00:00:00,000 --> 00:00:01,000\ninterrupted\n',
+      '2\n00:00:01,000 --> 00:00:01,800\nYou: wait\n',
+    ].join('\n'));
+  });
+
+  it('gives an instantaneous cue half a second', () => {
+    const srt = toSRT([entry({ speaker: 'ai', start: 5, end: 5, words: [{ word: 'blip', start: 5, end: 5 }] })]);
+    expect(srt).toBe('1\n00:00:05,000 --> 00:00:05,500\nblip\n');
+  });
+
+  it('is empty for an empty transcript', () => {
+    expect(toSRT([])).toBe('');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('labels speakers, stamps times and marks interruptions', () => {
+    const markdown = toMarkdown([
+      entry({ speaker: 'user', start: 3, end: 4, text: 'Who are you?' }),
+      entry({ speaker: 'ai', start: 65, end: 70, text: 'I am the galaxy.', interrupted: true }),
+    ]);
+    expect(markdown).toBe([
+      '# Conversation Transcript',
+      '',
+      '**You** `00:03`',
+      '',
+      'Who are you?',
+      '',
+      '**Entity** `01:05` _(interrupted)_',
+      '',
+      'I am the galaxy.',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('toJSON', () => {
+  it('wraps the entries with a version and export time', () => {
+    const entries = [entry({ speaker: 'ai', start: 0, end: 1, words: words(0, 0.5, 2) })];
+    const parsed = JSON.parse(toJSON(entries));
+    expect(parsed.version).toBe(1);
+    expect(Number.isNaN(Date.parse(parsed.exportedAt))).toBe(false);
+    expect(parsed.entries).toEqual(entries);
+  });
+});
@@ -0,0 +1,98 @@
+import type { TranscriptEntry } from './transcript';
+import { KINETIC_CHUNK_SIZE } from '../teleprompter/kinetic';
+
+// --- Transcript Exporters ---
+
+const SPEAKER_LABELS = { user: 'You', ai: 'Entity' } as const;
+
+// Matches the teleprompter's on-screen chunking so subtitles read the same
+export const SUBTITLE_WORDS_PER_CUE = KINETIC_CHUNK_SIZE;
+
+const pad = (n: number, width = 2) => String(Math.floor(n)).padStart(width, '0');
+
+export function formatSrtTime(seconds: number): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  return `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)},${pad(ms % 1000, 3)}`;
+}
+
+/** Minutes and seconds into the session, as shown in the transcript panel and Markdown export. */
+export function formatClock(seconds: number): string {
+  return `${pad(seconds / 60)}:${pad(seconds % 60)}`;
+}
+
+export function toJSON(entries: TranscriptEntry[]): string {
+  return JSON.stringify({ version: 1, exportedAt: new Date().toISOString(), entries }, null, 2);
+}
+
+export function toMarkdown(entries: TranscriptEntry[]): string {
+  const lines = ['# Conversation Transcript', ''];
+  for (const entry of entries) {
+    const note = entry.interrupted ? ' _(interrupted)_' : '';
+    lines.push(`**${SPEAKER_LABELS[entry.speaker]}** \`${formatClock(entry.start)}\`${note}`, '', entry.text, '');
+  }
+  return lines.join('\n');
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function cuesFor(entry: TranscriptEntry): Cue[] {
+  const prefix = entry.speaker === 'user' ? `${SPEAKER_LABELS.user}: ` : '';
+
+  if (entry.words && entry.words.length > 0) {
+    const cues: Cue[] = [];
+    for (let i = 0; i < entry.words.length; i += SUBTITLE_WORDS_PER_CUE) {
+      const group = entry.words.slice(i, i + SUBTITLE_WORDS_PER_CUE);
+      cues.push({
+        start: group[0].start,
+        end: group[group.length - 1].end,
+        text: prefix + group.map(w => w.word).join(' '),
+      });
+    }
+    return cues;
+  }
+
+  // No audio-aligned timing (user speech): spread chunks evenly over the entry
+  const words = entry.text.split(/\s+/).filter(Boolean);
+  const groups = Math.max(1, Math.ceil(words.length / SUBTITLE_WORDS_PER_CUE));
+  const span = Math.max(entry.end - entry.start, groups * 0.8);
+  return Array.from({ length: groups }, (_, g) => ({
+    start: entry.start + (span * g) / groups,
+    end: entry.start + (span * (g + 1)) / groups,
+    text: prefix + words.slice(g * SUBTITLE_WORDS_PER_CUE, (g + 1) * SUBTITLE_WORDS_PER_CUE).join(' '),
+  }));
+}
+
+export function toSRT(entries: TranscriptEntry[]): string {
+  const cues = entries.flatMap(cuesFor).sort((a, b) => a.start - b.start);
+  return cues
+    .map((cue, i) => {
+      // Keep cues from overlapping the next one and give instantaneous cues a readable minimum
+      const next = cues[i + 1];
+      let end = Math.max(cue.end, cue.start + 0.5);
+      if (next) end = Math.min(end, next.start);
+      return `${i + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(Math.max(end, cue.start))}\n${cue.text}\n`;
+    })
+    .join('\n');
+}
+
+export type TranscriptFormat = 'json' | 'md' | 'srt';
+
+const EXPORTERS: Record<TranscriptFormat, { render: (entries: TranscriptEntry[]) => string; mime: string }> = {
+  json: { render: toJSON, mime: 'application/json' },
+  md: { render: toMarkdown, mime: 'text/markdown' },
+  srt: { render: toSRT, mime: 'application/x-subrip' },
+};
+
+export function downloadTranscript(entries: TranscriptEntry[], format: TranscriptFormat) {
+  const { render, mime } = EXPORTERS[format];
+  const url = URL.createObjectURL(new Blob([render(entries)], { type: mime }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `sonic-entity-transcript-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Transcript } from './transcript';
+
+const words = [
+  { word: 'Hello', start: 1, end: 1.4 },
+  { word: 'there.', start: 1.4, end: 2 },
+];
+
+describe('Transcript', () => {
+  it('closes the user entry when the AI answers', () => {
+    const transcript = new Transcript();
+    transcript.append('user', 'Hi', 0);
+    transcript.append('ai', 'Hello', 0.5);
+    expect(transcript.isOpen('user')).toBe(false);
+    expect(transcript.snapshot.map(entry => [entry.speaker, entry.text])).toEqual([['user', 'Hi'], ['ai', 'Hello']]);
+  });
+
+  it('keeps word timings for an AI turn the user talks over', () => {
+    const transcript = new Transcript();
+    transcript.append('ai', 'Hello', 0.5);
+    // The user's transcription lands before the AI's turn completes
+    transcript.append('user', 'Wait', 1.2);
+    expect(transcript.isOpen('ai')).toBe(true);
+    transcript.append('ai', 'there.', 1.3);
+    transcript.close('ai', 2.5, { words });
+
+    const [ai, user] = transcript.snapshot;
+    expect(ai).toMatchObject({ speaker: 'ai', text: 'Hello there.', start: 1, end: 2, words });
+    expect(user).toMatchObject({ speaker: 'user', text: 'Wait' });
+  });
+
+  it('marks an interrupted AI turn', () => {
+    const transcript = new Transcript();
+    transcript.append('ai', 'Hello', 0.5);
+    transcript.close('ai', 0.8, { words: words.slice(0, 1), interrupted: true });
+    expect(transcript.snapshot[0]).toMatchObject({ interrupted: true, end: 1.4 });
+  });
+});
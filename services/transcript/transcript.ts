@@ -0,0 +1,90 @@
+import { splitWords, WordTiming } from '../teleprompter/wordTimeline';
+
+// --- Conversation Transcript Model ---
+// All times are seconds since the session started. AI entries also carry the
+// teleprompter's word timings so exports line up with what was highlighted.
+
+export type Speaker = 'user' | 'ai';
+
+export interface TranscriptEntry {
+  id: number;
+  speaker: Speaker;
+  text: string;
+  start: number;
+  end: number;
+  /** Word timings for AI turns, rebased to session time. */
+  words?: WordTiming[];
+  interrupted?: boolean;
+}
+
+export class Transcript {
+  private entries: TranscriptEntry[] = [];
+  private open: Partial<Record<Speaker, TranscriptEntry>> = {};
+  private nextId = 1;
+  private listeners = new Set<(entries: TranscriptEntry[]) => void>();
+
+  /** Snapshot safe to hand to React state. */
+  get snapshot(): TranscriptEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  subscribe(listener: (entries: TranscriptEntry[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private emit() {
+    const snapshot = this.snapshot;
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  /**
+   * Appends a streamed transcription chunk to the speaker's open entry, opening
+   * one if needed. The AI speaking ends the user's entry, but the user's
+   * transcription doesn't end the AI's: that stays open until the turn
+   * completes or is interrupted, so its close still gets the word timings.
+   */
+  append(speaker: Speaker, text: string, time: number) {
+    if (splitWords(text).length === 0) return;
+
+    // The AI answering means the user has finished their turn
+    if (speaker === 'ai' && this.open.user) this.close('user', time);
+
+    let entry = this.open[speaker];
+    if (!entry) {
+      entry = { id: this.nextId++, speaker, text: '', start: time, end: time };
+      this.entries.push(entry);
+      this.open[speaker] = entry;
+    }
+    entry.text = entry.text ? `${entry.text} ${text.trim()}` : text.trim();
+    entry.end = Math.max(entry.end, time);
+    this.emit();
+  }
+
+  /** Closes the speaker's open entry, attaching final word timings for AI turns. */
+  close(speaker: Speaker, time: number, details: Pick<TranscriptEntry, 'words' | 'interrupted'> = {}) {
+    const entry = this.open[speaker];
+    if (!entry) return;
+    delete this.open[speaker];
+
+    if (details.words && details.words.length > 0) {
+      entry.words = details.words;
+      entry.start = details.words[0].start;
+      entry.end = Math.max(details.words[details.words.length - 1].end, entry.start);
+    } else {
+      entry.end = Math.max(entry.end, time);
+    }
+    if (details.interrupted) entry.interrupted = true;
+    this.emit();
+  }
+
+  isOpen(speaker: Speaker): boolean {
+    return Boolean(this.open[speaker]);
+  }
+
+  clear() {
+    this.entries = [];
+    this.open = {};
+    this.emit();
+  }
+}
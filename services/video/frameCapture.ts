@@ -0,0 +1,142 @@
+import type { Blob as GenAIBlob } from '@google/genai';
+
+// --- Camera & Screen Frame Capture ---
+// Samples a camera or screen-share stream at a low frame rate and JPEG-encodes
+// each frame for `sendRealtimeInput({ video })`. A tiny thumbnail of the same
+// frame is handed out too, for cheap colour analysis.
+
+export type VideoSource = 'camera' | 'screen';
+
+export interface FrameCaptureOptions {
+  /** Frames sent per second; the Live API samples video at about 1 fps. */
+  framesPerSecond?: number;
+  /** Frames wider than this are scaled down before encoding. */
+  maxWidth?: number;
+  /** JPEG quality, 0–1. */
+  quality?: number;
+}
+
+export interface CapturedFrame {
+  blob: GenAIBlob;
+  /** The frame at THUMBNAIL_SIZE × THUMBNAIL_SIZE. */
+  thumbnail: ImageData;
+}
+
+export interface FrameCapture {
+  readonly source: VideoSource;
+  /** The live stream, for a preview `<video>`. */
+  readonly stream: MediaStream;
+  setFramesPerSecond(framesPerSecond: number): void;
+  stop(): void;
+}
+
+export const FRAME_RATES = [0.5, 1, 2];
+const DEFAULT_FRAMES_PER_SECOND = 1;
+const DEFAULT_MAX_WIDTH = 768;
+const DEFAULT_QUALITY = 0.7;
+const THUMBNAIL_SIZE = 24;
+
+const requestStream = (source: VideoSource) =>
+  source === 'screen'
+    ? navigator.mediaDevices.getDisplayMedia({ video: true, audio: false })
+    : navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } }, audio: false });
+
+function toBase64Jpeg(canvas: HTMLCanvasElement, quality: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (!blob) {
+        reject(new Error('Could not encode video frame.'));
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result).slice(String(reader.result).indexOf(',') + 1));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    }, 'image/jpeg', quality);
+  });
+}
+
+/**
+ * Asks for the camera or a screen to share and calls `onFrame` at the chosen
+ * rate until stopped. `onEnded` fires if the user stops sharing from the
+ * browser's own controls.
+ */
+export async function startFrameCapture(
+  source: VideoSource,
+  onFrame: (frame: CapturedFrame) => void,
+  onEnded: () => void,
+  { framesPerSecond = DEFAULT_FRAMES_PER_SECOND, maxWidth = DEFAULT_MAX_WIDTH, quality = DEFAULT_QUALITY }: FrameCaptureOptions = {},
+): Promise<FrameCapture> {
+  const stream = await requestStream(source);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  try {
+    await video.play();
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    throw err;
+  }
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  const thumbnailCanvas = document.createElement('canvas');
+  thumbnailCanvas.width = THUMBNAIL_SIZE;
+  thumbnailCanvas.height = THUMBNAIL_SIZE;
+  const thumbnailCtx = thumbnailCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || !thumbnailCtx) {
+    stream.getTracks().forEach(track => track.stop());
+    throw new Error('Could not create a 2D canvas for video capture.');
+  }
+
+  let stopped = false;
+  let encoding = false;
+  const sample = async () => {
+    // A slow encode skips frames rather than queueing them
+    if (stopped || encoding || video.videoWidth === 0) return;
+    encoding = true;
+    try {
+      const scale = Math.min(1, maxWidth / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      thumbnailCtx.drawImage(canvas, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+      const thumbnail = thumbnailCtx.getImageData(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+      const data = await toBase64Jpeg(canvas, quality);
+      if (!stopped) onFrame({ blob: { data, mimeType: 'image/jpeg' }, thumbnail });
+    } catch (err) {
+      console.warn('Video frame capture failed:', err);
+    } finally {
+      encoding = false;
+    }
+  };
+  const startTimer = (rate: number) => window.setInterval(sample, 1000 / Math.max(0.1, rate));
+  let timer = startTimer(framesPerSecond);
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    window.clearInterval(timer);
+    stream.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  };
+  // Screen shares can be ended from the browser's "Stop sharing" bar
+  stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+    if (stopped) return;
+    stop();
+    onEnded();
+  });
+
+  return {
+    source,
+    stream,
+    // Changing rate keeps the stream, so a screen share isn't re-prompted
+    setFramesPerSecond: (rate) => {
+      if (stopped) return;
+      window.clearInterval(timer);
+      timer = startTimer(rate);
+    },
+    stop,
+  };
+}
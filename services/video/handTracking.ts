@@ -0,0 +1,131 @@
+import type { HandLandmarker, NormalizedLandmark } from '@mediapipe/tasks-vision';
+
+// --- Hand Tracking ---
+// Follows the visitor's hands through the webcam with MediaPipe's hand
+// landmarker, which runs on-device (WASM, GPU where available); no frames leave
+// the browser. The library is a locked dependency, imported lazily so it only
+// loads when hand tracking is first switched on. Its WASM and the model aren't
+// JavaScript the bundler can take in: they come from HAND_WASM_URL and
+// HAND_MODEL_URL, which default to pinned versions and can point at copies
+// the app serves itself.
+
+// Must match the @mediapipe/tasks-vision version in package.json and the import map
+const TASKS_VISION_VERSION = '0.10.14';
+const HAND_WASM_URL = process.env.HAND_WASM_URL || `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${TASKS_VISION_VERSION}/wasm`;
+const HAND_MODEL_URL = process.env.HAND_MODEL_URL
+  || 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task';
+
+export interface TrackedHand {
+  /** Palm centre in the mirrored camera view, 0–1 from the left. */
+  x: number;
+  /** Palm centre, 0–1 from the top. */
+  y: number;
+  /** Thumb and index fingertips touching. */
+  pinching: boolean;
+}
+
+export interface HandTracker {
+  /** The webcam stream the hands are tracked in, for a preview `<video>`. */
+  readonly stream: MediaStream;
+  stop(): void;
+}
+
+// Landmark indices in MediaPipe's 21-point hand model
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_TIP = 8;
+const MIDDLE_KNUCKLE = 9;
+// Fingertip gap, relative to palm length, below which thumb and index count as pinched
+const PINCH_RATIO = 0.35;
+const MAX_HANDS = 2;
+const DETECTIONS_PER_SECOND = 30;
+
+let landmarkerPromise: Promise<HandLandmarker> | null = null;
+
+// Loaded once and kept; switching tracking off and on again shouldn't refetch the model
+function loadHandLandmarker(): Promise<HandLandmarker> {
+  landmarkerPromise ??= (async () => {
+    const vision = await import('@mediapipe/tasks-vision');
+    const fileset = await vision.FilesetResolver.forVisionTasks(HAND_WASM_URL);
+    return vision.HandLandmarker.createFromOptions(fileset, {
+      baseOptions: { modelAssetPath: HAND_MODEL_URL, delegate: 'GPU' },
+      runningMode: 'VIDEO',
+      numHands: MAX_HANDS,
+    });
+  })().catch((err) => {
+    landmarkerPromise = null;
+    throw err;
+  });
+  return landmarkerPromise;
+}
+
+const distance = (a: NormalizedLandmark, b: NormalizedLandmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+function toTrackedHand(landmarks: NormalizedLandmark[]): TrackedHand {
+  const wrist = landmarks[WRIST];
+  const knuckle = landmarks[MIDDLE_KNUCKLE];
+  const palmLength = Math.max(1e-3, distance(wrist, knuckle));
+  return {
+    // Mirrored, so moving a hand right moves it right on screen
+    x: 1 - (wrist.x + knuckle.x) / 2,
+    y: (wrist.y + knuckle.y) / 2,
+    pinching: distance(landmarks[THUMB_TIP], landmarks[INDEX_TIP]) / palmLength < PINCH_RATIO,
+  };
+}
+
+/**
+ * Opens the webcam and calls `onHands` with every hand in view, about 30
+ * times a second, until stopped. Rejects if the camera is refused or the model
+ * can't be loaded.
+ */
+export async function startHandTracking(onHands: (hands: TrackedHand[]) => void): Promise<HandTracker> {
+  const [loaded, opened] = await Promise.allSettled([
+    loadHandLandmarker(),
+    navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 640 }, height: { ideal: 480 } }, audio: false }),
+  ]);
+  // Either can fail without the other; don't leave the camera on for a model that never came
+  if (opened.status === 'rejected') throw opened.reason;
+  const stream = opened.value;
+  if (loaded.status === 'rejected') {
+    stream.getTracks().forEach(track => track.stop());
+    throw loaded.reason;
+  }
+  const landmarker = loaded.value;
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  try {
+    await video.play();
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    throw err;
+  }
+
+  let stopped = false;
+  let lastVideoTime = -1;
+  const detect = () => {
+    // Only new camera frames are worth a detection
+    if (stopped || video.readyState < 2 || video.currentTime === lastVideoTime) return;
+    lastVideoTime = video.currentTime;
+    try {
+      const { landmarks } = landmarker.detectForVideo(video, performance.now());
+      onHands(landmarks.map(toTrackedHand));
+    } catch (err) {
+      console.warn('Hand detection failed:', err);
+    }
+  };
+  const timer = window.setInterval(detect, 1000 / DETECTIONS_PER_SECOND);
+
+  return {
+    stream,
+    stop: () => {
+      if (stopped) return;
+      stopped = true;
+      window.clearInterval(timer);
+      stream.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+      onHands([]);
+    },
+  };
+}
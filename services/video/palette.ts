@@ -0,0 +1,37 @@
+// --- Dominant Frame Colours ---
+// Buckets a small frame into a coarse colour cube and returns the most common
+// buckets' average colours, favouring saturated pixels so a grey wall or a
+// dark room doesn't wash the galaxy out.
+
+const BITS = 3;
+const LEVELS = 1 << BITS;
+const SHIFT = 8 - BITS;
+
+/** Up to `count` dominant colours as `#rrggbb`, most dominant first; empty for a blank frame. */
+export function dominantColors({ data }: ImageData, count = 3): string[] {
+  const buckets = new Map<number, { weight: number; r: number; g: number; b: number }>();
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    // Near-black pixels carry no colour worth copying
+    if (max < 24) continue;
+    const saturation = (max - min) / max;
+    const weight = 0.15 + saturation;
+
+    const key = ((r >> SHIFT) * LEVELS + (g >> SHIFT)) * LEVELS + (b >> SHIFT);
+    const bucket = buckets.get(key) ?? { weight: 0, r: 0, g: 0, b: 0 };
+    bucket.weight += weight;
+    bucket.r += r * weight;
+    bucket.g += g * weight;
+    bucket.b += b * weight;
+    buckets.set(key, bucket);
+  }
+
+  const hex = (value: number) => Math.round(value).toString(16).padStart(2, '0');
+  return [...buckets.values()]
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, count)
+    .map(({ weight, r, g, b }) => `#${hex(r / weight)}${hex(g / weight)}${hex(b / weight)}`);
+}
@@ -0,0 +1,26 @@
+import { GoogleGenAI } from '@google/genai';
+import type { VoiceConnectOptions, VoiceSession, VoiceSessionProvider } from './types';
+
+export const DEFAULT_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+
+export class GeminiVoiceProvider implements VoiceSessionProvider {
+  readonly label = 'Gemini Live API';
+  private readonly ai: GoogleGenAI;
+
+  constructor(apiKey: string | undefined, private readonly model: string = DEFAULT_LIVE_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  connect({ callbacks, config }: VoiceConnectOptions): Promise<VoiceSession> {
+    return this.ai.live.connect({
+      model: this.model,
+      callbacks: {
+        onopen: () => callbacks.onopen?.(),
+        onmessage: callbacks.onmessage,
+        onerror: (e: ErrorEvent) => callbacks.onerror?.(e),
+        onclose: (e: CloseEvent) => callbacks.onclose?.(e),
+      },
+      config,
+    });
+  }
+}
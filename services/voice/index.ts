@@ -0,0 +1,21 @@
+import { GeminiVoiceProvider } from './geminiProvider';
+import { MockLiveProvider } from './mockLiveProvider';
+import type { VoiceSessionProvider } from './types';
+
+export * from './types';
+export { GeminiVoiceProvider, DEFAULT_LIVE_MODEL } from './geminiProvider';
+export { MockLiveProvider, DEFAULT_MOCK_LIVE_URL, parseServerMessage } from './mockLiveProvider';
+export { ReplayProvider } from './replayProvider';
+export { withReconnect } from './reconnect';
+export type { ReconnectOptions } from './reconnect';
+
+/**
+ * Picks the voice backend from the build environment.
+ * Set VOICE_PROVIDER=mock in .env.local to develop against `npm run mock-server`.
+ */
+export function createVoiceProvider(model?: string): VoiceSessionProvider {
+  if (process.env.VOICE_PROVIDER === 'mock') {
+    return new MockLiveProvider(process.env.MOCK_LIVE_URL || undefined);
+  }
+  return new GeminiVoiceProvider(process.env.API_KEY, model);
+}
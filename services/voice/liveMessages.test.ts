@@ -0,0 +1,192 @@
+// @vitest-environment jsdom
+import type { FunctionCall, LiveServerMessage } from '@google/genai';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TurnTimeline } from '../teleprompter/wordTimeline';
+import { Transcript } from '../transcript/transcript';
+import { createLiveMessageHandler, LiveMessageHandler } from './liveMessages';
+import { MockLiveProvider } from './mockLiveProvider';
+import type { VoiceSession } from './types';
+import { MockLiveScript, MockLiveServer, startMockLiveServer } from './testing/mockLiveServer';
+
+// The mock server voices each word for 0.32 s of 16-bit PCM at 24 kHz
+const SECONDS_PER_WORD = 0.32;
+const OUTPUT_CLOCK_START = 2;
+
+// Stands in for the output context: nothing really plays, and the clock only moves when told to
+function fakePlayback() {
+  const started: { when: number; duration: number }[] = [];
+  const playback = {
+    currentTime: 5,
+    decode: async (base64: string) => ({ duration: atob(base64).length / 2 / 24000 }) as AudioBuffer,
+    start: (buffer: AudioBuffer, when: number) => {
+      started.push({ when, duration: buffer.duration });
+    },
+    stopAll: vi.fn(),
+  };
+  return { playback, started };
+}
+
+function setup() {
+  const timeline = new TurnTimeline();
+  const transcript = new Transcript();
+  const { playback, started } = fakePlayback();
+  const toolCalls: FunctionCall[] = [];
+  const onInterrupted = vi.fn();
+  const handler = createLiveMessageHandler({
+    timeline,
+    transcript,
+    playback,
+    sessionNow: () => 1,
+    outputClockStart: OUTPUT_CLOCK_START,
+    onToolCalls: calls => toolCalls.push(...calls),
+    onInterrupted,
+  });
+  return { handler, timeline, transcript, playback, started, toolCalls, onInterrupted };
+}
+
+const totalDuration = (started: { duration: number }[]) => started.reduce((sum, s) => sum + s.duration, 0);
+
+describe('createLiveMessageHandler', () => {
+  let server: MockLiveServer | null = null;
+  let session: VoiceSession | null = null;
+
+  afterEach(async () => {
+    session?.close();
+    session = null;
+    await server?.stop();
+    server = null;
+  });
+
+  // Feeds every message the mock server sends through the handler, in order, until `done` says stop
+  const play = async (script: MockLiveScript, handler: LiveMessageHandler, done: (message: LiveServerMessage) => boolean) => {
+    server = await startMockLiveServer({ script });
+    let queue = Promise.resolve();
+    await new Promise<void>((resolve) => {
+      new MockLiveProvider(server!.url).connect({
+        config: {},
+        callbacks: {
+          onmessage: (message) => {
+            queue = queue.then(() => handler.handle(message)).then(() => {
+              if (done(message)) resolve();
+            });
+          },
+        },
+      }).then(connected => {
+        session = connected;
+      });
+    });
+    await queue;
+  };
+
+  it('plays a scripted turn into the transcript, timeline and speakers', async () => {
+    const { handler, timeline, transcript, started, toolCalls, onInterrupted } = setup();
+    await play({
+      loop: false,
+      idleGapMs: 60000,
+      turns: [{
+        user: 'Who are you?',
+        toolCalls: [{ name: 'spawnShootingStar', args: { count: 2 } }],
+        chunks: ['Hello there.', 'I am the galaxy.'],
+      }],
+    }, handler, message => Boolean(message.serverContent?.turnComplete));
+
+    expect(toolCalls).toEqual([{ id: 'mock-call-0-0', name: 'spawnShootingStar', args: { count: 2 } }]);
+
+    // Audio queues back to back from the output clock, covering every word
+    expect(started[0].when).toBe(5);
+    started.slice(1).forEach((s, i) => expect(s.when).toBeCloseTo(started[i].when + started[i].duration, 9));
+    expect(totalDuration(started)).toBeCloseTo(6 * SECONDS_PER_WORD, 3);
+
+    expect(timeline.words).toEqual(['Hello', 'there.', 'I', 'am', 'the', 'galaxy.']);
+    expect(onInterrupted).not.toHaveBeenCalled();
+
+    // The closed AI entry carries the teleprompter's timings, rebased to session time
+    const [user, ai] = transcript.snapshot;
+    expect(user).toMatchObject({ speaker: 'user', text: 'Who are you?' });
+    expect(ai).toMatchObject({ speaker: 'ai', text: 'Hello there. I am the galaxy.' });
+    expect(ai.interrupted).toBeUndefined();
+    expect(ai.words?.map(w => w.word)).toEqual(timeline.words);
+    expect(ai.start).toBeCloseTo(5 - OUTPUT_CLOCK_START, 9);
+    expect(ai.end).toBeCloseTo(5 - OUTPUT_CLOCK_START + 6 * SECONDS_PER_WORD, 3);
+    expect(transcript.isOpen('ai')).toBe(false);
+  });
+
+  it('stops the audio on an interruption and starts the next turn afresh', async () => {
+    const { handler, timeline, transcript, playback, started, onInterrupted } = setup();
+    let startedBeforeCut = 0;
+    onInterrupted.mockImplementation(() => {
+      startedBeforeCut = started.length;
+    });
+    let turns = 0;
+    await play({
+      loop: false,
+      idleGapMs: 0,
+      turns: [
+        { chunks: ['Hello there.'], interruptAfterMs: 100 },
+        { chunks: ['Still here.'] },
+      ],
+    }, handler, (message) => {
+      if (message.serverContent?.turnComplete) turns += 1;
+      return turns === 2;
+    });
+
+    expect(playback.stopAll).toHaveBeenCalledTimes(1);
+    expect(onInterrupted).toHaveBeenCalledTimes(1);
+
+    // The mock streams a whole turn up front, so its entry had closed before the interruption arrived
+    const [first, second] = transcript.snapshot;
+    expect(first).toMatchObject({ speaker: 'ai', text: 'Hello there.' });
+    expect(first.words?.map(w => w.word)).toEqual(['Hello', 'there.']);
+    expect(second).toMatchObject({ speaker: 'ai', text: 'Still here.' });
+    expect(second.interrupted).toBeUndefined();
+
+    // The interruption emptied the queue, so the next turn starts from the clock rather than after the cut audio
+    const secondTurn = started.slice(startedBeforeCut);
+    expect(startedBeforeCut).toBeGreaterThan(0);
+    expect(secondTurn[0].when).toBe(5);
+    expect(totalDuration(secondTurn)).toBeCloseTo(2 * SECONDS_PER_WORD, 3);
+    expect(timeline.words).toEqual(['Still', 'here.']);
+    expect(second.words?.map(w => w.word)).toEqual(['Still', 'here.']);
+  });
+
+  it('closes an entry cut off mid-turn as interrupted, with the words it got to', async () => {
+    const { handler, timeline, transcript, playback, onInterrupted } = setup();
+    await handler.handle({ serverContent: { outputTranscription: { text: 'Hello there' } } } as LiveServerMessage);
+    await handler.handle({ serverContent: { interrupted: true } } as LiveServerMessage);
+
+    const [ai] = transcript.snapshot;
+    expect(ai).toMatchObject({ speaker: 'ai', text: 'Hello there', interrupted: true });
+    expect(ai.words?.map(w => w.word)).toEqual(['Hello', 'there']);
+    expect(transcript.isOpen('ai')).toBe(false);
+    expect(timeline.words).toEqual([]);
+    expect(playback.stopAll).toHaveBeenCalledTimes(1);
+    expect(onInterrupted).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the AI entry open across a teleprompter reset, with only the words since', async () => {
+    const { handler, timeline, transcript } = setup();
+    await handler.handle({ serverContent: { outputTranscription: { text: 'One two' } } } as LiveServerMessage);
+    handler.resetTurn();
+    expect(timeline.words).toEqual([]);
+
+    await handler.handle({ serverContent: { outputTranscription: { text: 'three' } } } as LiveServerMessage);
+    await handler.handle({ serverContent: { turnComplete: true } } as LiveServerMessage);
+    const [ai] = transcript.snapshot;
+    expect(ai.text).toBe('One two three');
+    expect(ai.words?.map(w => w.word)).toEqual(['three']);
+  });
+
+  it('logs audio that fails to decode and carries on', async () => {
+    const { handler, playback, started, timeline } = setup();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    playback.decode = async () => {
+      throw new Error('bad audio');
+    };
+    const audio = { serverContent: { modelTurn: { parts: [{ inlineData: { data: 'AAAA' } }] }, turnComplete: true } };
+    await handler.handle(audio as LiveServerMessage);
+    expect(error).toHaveBeenCalledWith('Audio playback error', expect.any(Error));
+    expect(started).toEqual([]);
+    expect(timeline.words).toEqual([]);
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,112 @@
+import type { FunctionCall, LiveServerMessage } from '@google/genai';
+import type { TurnTimeline } from '../teleprompter/wordTimeline';
+import type { Transcript } from '../transcript/transcript';
+
+// --- Live Message Handling ---
+// Turns the Live API's message stream into the conversation's side effects:
+// transcript entries, the teleprompter's timeline, gapless audio scheduling,
+// turn completion and interruption. Everything it touches is injected, so it
+// runs the same against the scene's audio graph or a test's fakes.
+
+/** Where the AI's audio goes. Times are on the output context's clock, in seconds. */
+export interface LivePlayback {
+  readonly currentTime: number;
+  /** Decodes one base64 chunk of 24 kHz PCM16. */
+  decode: (base64: string) => Promise<AudioBuffer>;
+  start: (buffer: AudioBuffer, when: number) => void;
+  /** Stops everything started so far, playing or still scheduled. */
+  stopAll: () => void;
+}
+
+export interface LiveMessageSinks {
+  timeline: TurnTimeline;
+  transcript: Transcript;
+  playback: LivePlayback;
+  /** Seconds since the session started, the transcript's clock. */
+  sessionNow: () => number;
+  /** The output clock's reading when the session started; exported word timings are relative to it. */
+  outputClockStart: number;
+  onToolCalls: (calls: FunctionCall[]) => void;
+  /** Runs once the AI's entry is closed, its audio stopped and the turn reset. */
+  onInterrupted: () => void;
+}
+
+export interface LiveMessageHandler {
+  handle: (message: LiveServerMessage) => Promise<void>;
+  /** Forgets the current turn's words, once it's been interrupted or has finished playing. */
+  resetTurn: () => void;
+}
+
+export function createLiveMessageHandler(sinks: LiveMessageSinks): LiveMessageHandler {
+  const { timeline, transcript, playback } = sinks;
+  // Where the open AI entry's words start in the timeline
+  let aiWordOffset = 0;
+  let nextStartTime = 0;
+
+  // Closes the AI's transcript entry with the same word timings the teleprompter used
+  const closeAiEntry = (interrupted = false) => {
+    if (!transcript.isOpen('ai')) return;
+    const words = timeline.timings.slice(aiWordOffset).map(w => ({
+      word: w.word,
+      start: w.start - sinks.outputClockStart,
+      end: w.end - sinks.outputClockStart,
+    }));
+    transcript.close('ai', sinks.sessionNow(), { words, interrupted });
+  };
+
+  const resetTurn = () => {
+    timeline.reset();
+    aiWordOffset = 0;
+  };
+
+  const playAudio = async (base64Audio: string) => {
+    try {
+      const audioBuffer = await playback.decode(base64Audio);
+      // Chunks play back to back, unless the queue has run dry
+      if (nextStartTime === 0 || nextStartTime < playback.currentTime) {
+        nextStartTime = playback.currentTime;
+      }
+      playback.start(audioBuffer, nextStartTime);
+      // Pair the buffer with the transcription chunk it voices, at its real start time
+      timeline.addAudio(nextStartTime, audioBuffer.duration);
+      nextStartTime += audioBuffer.duration;
+    } catch (e) {
+      console.error('Audio playback error', e);
+    }
+  };
+
+  const handle = async (message: LiveServerMessage) => {
+    if (message.toolCall?.functionCalls?.length) {
+      sinks.onToolCalls(message.toolCall.functionCalls);
+    }
+
+    if (message.serverContent?.inputTranscription) {
+      transcript.append('user', message.serverContent.inputTranscription.text ?? '', sinks.sessionNow());
+    }
+
+    if (message.serverContent?.outputTranscription) {
+      const text = message.serverContent.outputTranscription.text ?? '';
+      if (!transcript.isOpen('ai')) aiWordOffset = timeline.words.length;
+      transcript.append('ai', text, sinks.sessionNow());
+      timeline.addTranscription(text);
+    }
+
+    const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio) await playAudio(base64Audio);
+
+    if (message.serverContent?.turnComplete) {
+      timeline.markComplete();
+      closeAiEntry();
+    }
+
+    if (message.serverContent?.interrupted) {
+      closeAiEntry(true);
+      resetTurn();
+      playback.stopAll();
+      nextStartTime = 0;
+      sinks.onInterrupted();
+    }
+  };
+
+  return { handle, resetTurn };
+}
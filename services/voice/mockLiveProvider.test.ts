@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import type { LiveServerMessage } from '@google/genai';
+import { afterEach, describe, expect, it } from 'vitest';
+import { MockLiveProvider, parseServerMessage } from './mockLiveProvider';
+import type { VoiceSession } from './types';
+import { MockLiveServer, startMockLiveServer } from './testing/mockLiveServer';
+
+const SCRIPT = {
+  loop: false,
+  idleGapMs: 60000,
+  turns: [{
+    user: 'Who are you?',
+    toolCalls: [{ name: 'spawnShootingStar', args: { count: 2 } }],
+    chunks: ['Hello there.'],
+  }],
+};
+
+// The mock server voices each word for 0.32 s of 16-bit PCM at 24 kHz
+const BYTES_PER_WORD = Math.round(0.32 * 24000) * 2;
+
+describe('parseServerMessage', () => {
+  it('hydrates a LiveServerMessage so getters work', () => {
+    const message = parseServerMessage(JSON.stringify({
+      serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: 'AAAA' } }] } },
+    }));
+    expect(message.data).toBe('AAAA');
+  });
+});
+
+describe('MockLiveProvider', () => {
+  let server: MockLiveServer | null = null;
+  let session: VoiceSession | null = null;
+
+  afterEach(async () => {
+    session?.close();
+    session = null;
+    await server?.stop();
+    server = null;
+  });
+
+  it('delivers a scripted turn through onmessage in Live API order', async () => {
+    server = await startMockLiveServer({ script: SCRIPT });
+    const messages: LiveServerMessage[] = [];
+    let opened = false;
+    const turnComplete = new Promise<void>((resolve) => {
+      new MockLiveProvider(server!.url).connect({
+        config: {},
+        callbacks: {
+          onopen: () => {
+            opened = true;
+          },
+          onmessage: (message) => {
+            messages.push(message);
+            if (message.serverContent?.turnComplete) resolve();
+          },
+        },
+      }).then(connected => {
+        session = connected;
+      });
+    });
+    await turnComplete;
+
+    expect(opened).toBe(true);
+    expect(messages[0].setupComplete).toBeDefined();
+    expect(messages[1].serverContent?.inputTranscription?.text).toBe('Who are you?');
+    expect(messages[2].toolCall?.functionCalls).toEqual([{ id: 'mock-call-0-0', name: 'spawnShootingStar', args: { count: 2 } }]);
+    expect(messages[3].serverContent?.outputTranscription?.text).toBe(' Hello there.');
+
+    // The audio follows its transcript, and the SDK getter reassembles it
+    const audio = messages.slice(4, -1);
+    expect(audio.length).toBeGreaterThan(0);
+    const bytes = audio.reduce((sum, message) => sum + atob(message.data ?? '').length, 0);
+    expect(bytes).toBe(2 * BYTES_PER_WORD);
+  });
+
+  it('sends typed messages and tool responses to the server', async () => {
+    server = await startMockLiveServer({ script: SCRIPT });
+    const transcripts: string[] = [];
+    session = await new MockLiveProvider(server.url).connect({
+      config: {},
+      callbacks: {
+        onmessage: (message) => {
+          const text = message.serverContent?.outputTranscription?.text;
+          if (text) transcripts.push(text);
+        },
+      },
+    });
+
+    session.sendToolResponse({ functionResponses: [{ id: 'mock-call-0-0', name: 'spawnShootingStar', response: { ok: true } }] });
+    session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: 'make it rain' }] }] });
+    await server.waitForLog(/tool response: .*mock-call-0-0/);
+    await server.waitForLog(/typed message: make it rain/);
+    await expect.poll(() => transcripts).toContain(' make it rain');
+  });
+
+  it('reports the close once the session is closed', async () => {
+    server = await startMockLiveServer({ script: SCRIPT });
+    const closed = new Promise<CloseEvent>((resolve) => {
+      new MockLiveProvider(server!.url).connect({
+        config: {},
+        callbacks: { onmessage: () => {}, onclose: resolve },
+      }).then(connected => connected.close());
+    });
+    expect((await closed).type).toBe('close');
+  });
+
+  it('rejects when nothing is listening', async () => {
+    await expect(new MockLiveProvider('ws://localhost:9').connect({ config: {}, callbacks: { onmessage: () => {} } }))
+      .rejects.toThrow(/unreachable/);
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  LiveServerMessage,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import type { VoiceConnectOptions, VoiceSession, VoiceSessionProvider } from './types';
+
+export const DEFAULT_MOCK_LIVE_URL = 'ws://localhost:8787';
+
+// --- Local Live API Stand-in ---
+// Talks to scripts/mock-live-server.mjs, which replays scripted PCM and
+// outputTranscription messages in the same JSON shape the Live API uses.
+class MockLiveSession implements VoiceSession {
+  constructor(private readonly socket: WebSocket) {}
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify({ realtimeInput: params }));
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    if (this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify({ clientContent: params }));
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    if (this.socket.readyState !== WebSocket.OPEN) return;
+    this.socket.send(JSON.stringify({ toolResponse: params }));
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+export function parseServerMessage(raw: string): LiveServerMessage {
+  // Mirror the SDK: hydrate a real LiveServerMessage so getters like `.data` work
+  return Object.assign(new LiveServerMessage(), JSON.parse(raw));
+}
+
+export class MockLiveProvider implements VoiceSessionProvider {
+  readonly label = 'Mock Live Server';
+
+  constructor(private readonly url: string = DEFAULT_MOCK_LIVE_URL) {}
+
+  connect({ callbacks, config }: VoiceConnectOptions): Promise<VoiceSession> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      let opened = false;
+
+      socket.addEventListener('open', () => {
+        opened = true;
+        socket.send(JSON.stringify({ setup: { config } }));
+        callbacks.onopen?.();
+        resolve(new MockLiveSession(socket));
+      });
+      socket.addEventListener('message', async (event: MessageEvent) => {
+        const raw = typeof event.data === 'string' ? event.data : await (event.data as Blob).text();
+        callbacks.onmessage(parseServerMessage(raw));
+      });
+      socket.addEventListener('error', () => {
+        const error = new ErrorEvent('error', { message: `Mock Live server unreachable at ${this.url}` });
+        callbacks.onerror?.(error);
+        if (!opened) reject(new Error(error.message));
+      });
+      socket.addEventListener('close', (e: CloseEvent) => callbacks.onclose?.(e));
+    });
+  }
+}
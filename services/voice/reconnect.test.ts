@@ -0,0 +1,175 @@
+// @vitest-environment jsdom
+import type { LiveConnectConfig, LiveSendRealtimeInputParameters } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockLiveProvider } from './mockLiveProvider';
+import { withReconnect } from './reconnect';
+import type { VoiceSession, VoiceSessionCallbacks, VoiceSessionProvider } from './types';
+import { MockLiveServer, startMockLiveServer } from './testing/mockLiveServer';
+
+interface Connection {
+  config: LiveConnectConfig;
+  callbacks: VoiceSessionCallbacks;
+  sent: LiveSendRealtimeInputParameters[];
+}
+
+/** Wraps `inner` to record each connection's config and the realtime input sent down it. */
+function recordingProvider(inner: VoiceSessionProvider) {
+  const connections: Connection[] = [];
+  const provider: VoiceSessionProvider = {
+    label: inner.label,
+    connect: async (options) => {
+      const connection: Connection = { config: options.config, callbacks: options.callbacks, sent: [] };
+      const session = await inner.connect(options);
+      connections.push(connection);
+      return {
+        sendRealtimeInput: (params) => {
+          connection.sent.push(params);
+          session.sendRealtimeInput(params);
+        },
+        sendClientContent: (params) => session.sendClientContent(params),
+        sendToolResponse: (params) => session.sendToolResponse(params),
+        close: () => session.close(),
+      };
+    },
+  };
+  return { provider, connections };
+}
+
+const micChunk = (n: number): LiveSendRealtimeInputParameters => ({
+  audio: { data: btoa(String.fromCharCode(n).repeat(1024)), mimeType: 'audio/pcm;rate=16000' },
+});
+
+describe('withReconnect', () => {
+  // Accepts connections in memory and drops them on demand
+  let accept = true;
+  const fake: VoiceSessionProvider = {
+    label: 'Fake',
+    connect: async ({ callbacks }) => {
+      if (!accept) throw new Error('refused');
+      return {
+        sendRealtimeInput: () => {},
+        sendClientContent: () => {},
+        sendToolResponse: () => {},
+        close: () => callbacks.onclose?.(new CloseEvent('close')),
+      };
+    },
+  };
+
+  beforeEach(() => {
+    accept = true;
+    vi.useFakeTimers();
+    // The low end of the jitter, so delays are exact
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const connect = async (settings: Parameters<typeof withReconnect>[1]) => {
+    const { provider, connections } = recordingProvider(fake);
+    const delays: number[] = [];
+    const onerror = vi.fn();
+    const onclose = vi.fn();
+    const session = await withReconnect(provider, settings).connect({
+      config: {},
+      callbacks: { onmessage: () => {}, onreconnecting: (_attempt, delayMs) => delays.push(delayMs), onerror, onclose },
+    });
+    const drop = () => connections[connections.length - 1].callbacks.onclose?.(new CloseEvent('close', { code: 1006 }));
+    return { session, connections, delays, onerror, onclose, drop };
+  };
+
+  it('backs off exponentially up to the ceiling, then gives up', async () => {
+    const { delays, onerror, onclose, drop } = await connect({ baseDelayMs: 100, maxDelayMs: 1000, maxAttempts: 6 });
+    accept = false;
+    drop();
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(delays).toEqual([50, 100, 200, 400, 500, 500]);
+    expect(onerror).toHaveBeenCalledWith(expect.objectContaining({ message: 'Could not reconnect after 6 attempts' }));
+    expect(onclose).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs out of attempts when every reconnection is dropped straight away', async () => {
+    const { connections, onerror, drop } = await connect({ baseDelayMs: 100, maxAttempts: 3, stableAfterMs: 5000 });
+    drop();
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(1000);
+      drop();
+    }
+    expect(connections).toHaveLength(4);
+    expect(onerror).toHaveBeenCalledWith(expect.objectContaining({ message: 'Could not reconnect after 3 attempts' }));
+  });
+
+  it('starts counting attempts again once a reconnection has held', async () => {
+    const { delays, drop } = await connect({ baseDelayMs: 100, stableAfterMs: 5000 });
+    drop();
+    await vi.advanceTimersByTimeAsync(1000);
+    drop();
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(5000);
+    drop();
+    expect(delays).toEqual([50, 100, 50]);
+  });
+});
+
+describe('withReconnect against the mock Live server', () => {
+  let server: MockLiveServer | null = null;
+  let session: VoiceSession | null = null;
+
+  afterEach(async () => {
+    session?.close();
+    session = null;
+    await server?.stop();
+    server = null;
+  });
+
+  it('survives a dropped socket, replaying buffered mic audio on the resumed session', async () => {
+    // The turn ends, and its resumption handle arrives, a little over a second in; the drop comes after
+    server = await startMockLiveServer({
+      script: { loop: false, idleGapMs: 60000, turns: [{ chunks: ['Hi.'] }] },
+      dropAfterMs: 2000,
+    });
+    const { provider, connections } = recordingProvider(new MockLiveProvider(server.url));
+    const backoff: { attempt: number; delayMs: number }[] = [];
+    const buffered = [micChunk(1), micChunk(2), micChunk(3)];
+
+    const reconnected = new Promise<void>((resolve) => {
+      withReconnect(provider, { baseDelayMs: 200 }).connect({
+        config: {},
+        callbacks: {
+          onmessage: () => {},
+          onreconnecting: (attempt, delayMs) => {
+            backoff.push({ attempt, delayMs });
+            // Mic audio keeps coming while the socket is down
+            buffered.forEach(chunk => session?.sendRealtimeInput(chunk));
+          },
+          onreconnected: resolve,
+        },
+      }).then(connected => {
+        session = connected;
+      });
+    });
+    await reconnected;
+
+    // One attempt, with a jittered delay between half and all of the base delay
+    expect(backoff).toHaveLength(1);
+    expect(backoff[0].attempt).toBe(1);
+    expect(backoff[0].delayMs).toBeGreaterThanOrEqual(100);
+    expect(backoff[0].delayMs).toBeLessThanOrEqual(200);
+
+    // The second connection resumes the first's session and gets the gap's audio, in order
+    expect(connections).toHaveLength(2);
+    expect(connections[0].config.sessionResumption).toEqual({});
+    expect(connections[1].config.sessionResumption).toEqual({ handle: 'mock-turn-1' });
+    expect(connections[0].sent).toEqual([]);
+    expect(connections[1].sent).toEqual(buffered);
+    await server.waitForLog(/resuming mock-turn-1 at turn 1/);
+
+    // The server heard all three kilobyte chunks on the resumed connection
+    session?.close();
+    session = null;
+    await server.waitForLog(/client disconnected \(3\.0 KiB of mic audio received\)/);
+  });
+});
@@ -0,0 +1,223 @@
+import type {
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import type { VoiceConnectOptions, VoiceSession, VoiceSessionCallbacks, VoiceSessionProvider } from './types';
+
+// --- Automatic Reconnection ---
+// Keeps a Live conversation alive across dropped sockets and server GoAways:
+// reconnects with exponential backoff, buffers realtime input during the gap,
+// and resumes the server-side session from the latest resumption handle.
+
+export interface ReconnectOptions {
+  /** Attempts per outage before giving up and reporting an error. */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /**
+   * How long a reconnection must stay up before the outage counts as over and
+   * the attempt count starts again, so a server that accepts and then drops
+   * every connection still runs out of attempts.
+   */
+  stableAfterMs?: number;
+  /** Realtime input chunks kept during an outage; the oldest are dropped first. */
+  maxBufferedInputs?: number;
+  /** Ask the server for resumption handles and reconnect with the latest one. */
+  resumption?: boolean;
+  /** Enable sliding-window context compression so long conversations don't hit the context limit. */
+  compression?: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10000;
+const DEFAULT_STABLE_AFTER_MS = 5000;
+// About ten seconds of 4096-sample chunks at 16 kHz
+const DEFAULT_MAX_BUFFERED_INPUTS = 40;
+
+type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+class ReconnectingSession implements VoiceSession {
+  private session: VoiceSession | null = null;
+  private state: ConnectionState = 'connecting';
+  /** Bumped per connection so late events from a dead socket are ignored. */
+  private generation = 0;
+  private attempt = 0;
+  private retryTimer: number | null = null;
+  private stableTimer: number | null = null;
+  private resumptionHandle: string | undefined;
+  private buffered: LiveSendRealtimeInputParameters[] = [];
+  /** Typed turns sent during an outage; never dropped, since each is something the user said. */
+  private pendingContent: LiveSendClientContentParameters[] = [];
+
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly stableAfterMs: number;
+  private readonly maxBufferedInputs: number;
+
+  constructor(
+    private readonly provider: VoiceSessionProvider,
+    private readonly options: VoiceConnectOptions,
+    private readonly settings: ReconnectOptions,
+  ) {
+    this.maxAttempts = settings.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.baseDelayMs = settings.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = settings.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.stableAfterMs = settings.stableAfterMs ?? DEFAULT_STABLE_AFTER_MS;
+    this.maxBufferedInputs = settings.maxBufferedInputs ?? DEFAULT_MAX_BUFFERED_INPUTS;
+  }
+
+  private get callbacks() {
+    return this.options.callbacks;
+  }
+
+  private config(): LiveConnectConfig {
+    const config: LiveConnectConfig = { ...this.options.config };
+    if (this.settings.resumption !== false) {
+      // An empty config still asks the server to send handles
+      config.sessionResumption = this.resumptionHandle ? { handle: this.resumptionHandle } : {};
+    }
+    if (this.settings.compression !== false && !config.contextWindowCompression) {
+      config.contextWindowCompression = { slidingWindow: {} };
+    }
+    return config;
+  }
+
+  private wrapCallbacks(generation: number, first: boolean): VoiceSessionCallbacks {
+    const isCurrent = () => generation === this.generation;
+    return {
+      ...this.callbacks,
+      // Reconnections report through onreconnected instead, once buffered input is flushed
+      onopen: first ? this.callbacks.onopen : undefined,
+      onmessage: (message: LiveServerMessage) => {
+        if (!isCurrent()) return;
+        const update = message.sessionResumptionUpdate;
+        if (update?.resumable && update.newHandle) this.resumptionHandle = update.newHandle;
+        // The server is about to drop us; move to a fresh connection while we still can
+        if (message.goAway && this.state === 'open') this.session?.close();
+        this.callbacks.onmessage(message);
+      },
+      onerror: (e: ErrorEvent) => {
+        if (!isCurrent()) return;
+        // Errors on an established connection are followed by a close, which decides whether to retry
+        if (this.state === 'open' || this.state === 'reconnecting') console.warn('Live connection error:', e.message);
+        else this.callbacks.onerror?.(e);
+      },
+      onclose: (e: CloseEvent) => {
+        if (!isCurrent()) return;
+        if (this.state === 'open') this.scheduleReconnect();
+        // A failed attempt also rejects its connect(), which schedules the next one
+        else if (this.state !== 'reconnecting') this.callbacks.onclose?.(e);
+      },
+    };
+  }
+
+  async open(): Promise<this> {
+    this.session = await this.provider.connect({ config: this.config(), callbacks: this.wrapCallbacks(this.generation, true) });
+    if (this.state === 'connecting') this.state = 'open';
+    return this;
+  }
+
+  private clearStableTimer() {
+    if (this.stableTimer !== null) window.clearTimeout(this.stableTimer);
+    this.stableTimer = null;
+  }
+
+  private scheduleReconnect() {
+    this.session = null;
+    this.clearStableTimer();
+    this.attempt++;
+    if (this.attempt > this.maxAttempts) {
+      this.state = 'closed';
+      this.callbacks.onerror?.(new ErrorEvent('error', { message: `Could not reconnect after ${this.maxAttempts} attempts` }));
+      this.callbacks.onclose?.(new CloseEvent('close', { reason: 'Reconnection failed' }));
+      return;
+    }
+
+    this.state = 'reconnecting';
+    // Exponential backoff with jitter, so many clients don't retry in lockstep
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** (this.attempt - 1));
+    const delayMs = Math.round(ceiling * (0.5 + Math.random() * 0.5));
+    this.callbacks.onreconnecting?.(this.attempt, delayMs);
+    this.retryTimer = window.setTimeout(() => this.reconnect(), delayMs);
+  }
+
+  private async reconnect() {
+    this.retryTimer = null;
+    if (this.state !== 'reconnecting') return;
+    const generation = ++this.generation;
+    try {
+      const session = await this.provider.connect({ config: this.config(), callbacks: this.wrapCallbacks(generation, false) });
+      if (this.state !== 'reconnecting' || generation !== this.generation) {
+        session.close();
+        return;
+      }
+      this.session = session;
+      this.state = 'open';
+      this.stableTimer = window.setTimeout(() => {
+        this.stableTimer = null;
+        this.attempt = 0;
+      }, this.stableAfterMs);
+      const pending = this.buffered;
+      const content = this.pendingContent;
+      this.buffered = [];
+      this.pendingContent = [];
+      content.forEach(params => session.sendClientContent(params));
+      pending.forEach(params => session.sendRealtimeInput(params));
+      this.callbacks.onreconnected?.();
+    } catch (err) {
+      console.warn(`Reconnect attempt ${this.attempt} failed:`, err);
+      if (this.state === 'reconnecting' && generation === this.generation) this.scheduleReconnect();
+    }
+  }
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    if (this.state === 'open' && this.session) {
+      this.session.sendRealtimeInput(params);
+      return;
+    }
+    if (this.state !== 'reconnecting') return;
+    // Video frames are stale by the time the gap closes, and would crowd out the audio
+    if (params.video) return;
+    this.buffered.push(params);
+    if (this.buffered.length > this.maxBufferedInputs) this.buffered.shift();
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    if (this.state === 'open' && this.session) this.session.sendClientContent(params);
+    else if (this.state === 'reconnecting') this.pendingContent.push(params);
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    // Answers to calls made on a dropped connection have nowhere to go, so they aren't buffered
+    if (this.state === 'open' && this.session) this.session.sendToolResponse(params);
+  }
+
+  close() {
+    if (this.state === 'closed') return;
+    const wasReconnecting = this.state === 'reconnecting';
+    this.state = 'closed';
+    this.buffered = [];
+    this.pendingContent = [];
+    if (this.retryTimer !== null) window.clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.clearStableTimer();
+    if (this.session) this.session.close();
+    // With no live socket there's no close event to forward, so report it ourselves
+    else if (wasReconnecting) this.callbacks.onclose?.(new CloseEvent('close', { reason: 'Closed while reconnecting' }));
+    this.session = null;
+  }
+}
+
+/** Wraps a live provider so its sessions survive dropped connections. */
+export function withReconnect(provider: VoiceSessionProvider, settings: ReconnectOptions = {}): VoiceSessionProvider {
+  return {
+    label: provider.label,
+    requiresMicrophone: provider.requiresMicrophone,
+    connect: (options: VoiceConnectOptions) => new ReconnectingSession(provider, options, settings).open(),
+  };
+}
@@ -0,0 +1,66 @@
+import type { LiveSendClientContentParameters, LiveSendRealtimeInputParameters, LiveSendToolResponseParameters } from '@google/genai';
+import type { Recording } from '../recording/recording';
+import type { VoiceConnectOptions, VoiceSession, VoiceSessionProvider } from './types';
+import { parseServerMessage } from './mockLiveProvider';
+
+// --- Recorded Session Playback ---
+// Re-emits a recording's server messages at their original offsets, so replay
+// runs through exactly the same playback, analyser and teleprompter path as live.
+class ReplaySession implements VoiceSession {
+  private timers: number[] = [];
+  private closed = false;
+
+  constructor(private readonly recording: Recording, private readonly options: VoiceConnectOptions) {}
+
+  start() {
+    const { callbacks } = this.options;
+    for (const event of this.recording.events) {
+      this.timers.push(window.setTimeout(() => {
+        if (event.kind === 'server') {
+          // Round-trip through JSON so each replay gets a fresh, hydrated LiveServerMessage
+          callbacks.onmessage(parseServerMessage(JSON.stringify(event.message)));
+        } else if (event.kind === 'text') {
+          callbacks.onreplaytext?.(event.text);
+        } else {
+          callbacks.onreplayinput?.(event.media);
+        }
+      }, event.t));
+    }
+    // Give the final audio buffers time to drain before reporting the end
+    this.timers.push(window.setTimeout(() => this.close(), this.recording.durationMs + 5000));
+  }
+
+  sendRealtimeInput(_params: LiveSendRealtimeInputParameters) {
+    // Nothing is listening during a replay
+  }
+
+  sendClientContent(_params: LiveSendClientContentParameters) {
+    // Typed turns were recorded along with the rest
+  }
+
+  sendToolResponse(_params: LiveSendToolResponseParameters) {
+    // The recorded session already got its answers
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.timers.forEach(id => window.clearTimeout(id));
+    this.timers = [];
+    this.options.callbacks.onclose?.(new CloseEvent('close', { reason: 'Replay finished' }));
+  }
+}
+
+export class ReplayProvider implements VoiceSessionProvider {
+  readonly label = 'Recorded Session';
+  readonly requiresMicrophone = false;
+
+  constructor(private readonly recording: Recording) {}
+
+  async connect(options: VoiceConnectOptions): Promise<VoiceSession> {
+    const session = new ReplaySession(this.recording, options);
+    options.callbacks.onopen?.();
+    session.start();
+    return session;
+  }
+}
@@ -0,0 +1,90 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// --- Mock Live Server for Tests ---
+// Runs scripts/mock-live-server.mjs in a child process on a free port, so
+// tests talk to the same stand-in the app does, over a real WebSocket.
+
+const SERVER_SCRIPT = resolve(dirname(fileURLToPath(import.meta.url)), '../../../scripts/mock-live-server.mjs');
+const START_TIMEOUT_MS = 5000;
+
+export interface MockLiveScript {
+  loop?: boolean;
+  idleGapMs?: number;
+  turns: { chunks: string[]; user?: string; toolCalls?: { name: string; args: Record<string, unknown> }[]; interruptAfterMs?: number }[];
+}
+
+export interface MockLiveServer {
+  readonly url: string;
+  /** Everything the server has logged so far, one entry per line. */
+  readonly log: string[];
+  /** Resolves with the first logged line matching `pattern`, waiting for it if need be. */
+  waitForLog: (pattern: RegExp, timeoutMs?: number) => Promise<string>;
+  stop: () => Promise<void>;
+}
+
+export interface MockLiveServerOptions {
+  script: MockLiveScript;
+  /** Drops every connection this long after setup, without a close frame. */
+  dropAfterMs?: number;
+}
+
+export async function startMockLiveServer({ script, dropAfterMs = 0 }: MockLiveServerOptions): Promise<MockLiveServer> {
+  const dir = mkdtempSync(join(tmpdir(), 'mock-live-'));
+  const scriptFile = join(dir, 'script.json');
+  writeFileSync(scriptFile, JSON.stringify(script));
+
+  const child: ChildProcess = spawn(process.execPath, [SERVER_SCRIPT, scriptFile], {
+    env: { ...process.env, MOCK_LIVE_PORT: '0', MOCK_LIVE_DROP_AFTER_MS: String(dropAfterMs) },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+
+  const log: string[] = [];
+  const watchers = new Set<() => void>();
+  let partial = '';
+  child.stdout?.setEncoding('utf8');
+  child.stdout?.on('data', (chunk: string) => {
+    const lines = (partial + chunk).split('\n');
+    partial = lines.pop() ?? '';
+    log.push(...lines);
+    watchers.forEach(check => check());
+  });
+
+  const waitForLog = (pattern: RegExp, timeoutMs = START_TIMEOUT_MS) => new Promise<string>((resolveLine, reject) => {
+    const check = () => {
+      const line = log.find(entry => pattern.test(entry));
+      if (!line) return false;
+      watchers.delete(check);
+      clearTimeout(timer);
+      resolveLine(line);
+      return true;
+    };
+    const timer = setTimeout(() => {
+      watchers.delete(check);
+      reject(new Error(`Mock Live server never logged ${pattern}; it logged:\n${log.join('\n')}`));
+    }, timeoutMs);
+    if (!check()) watchers.add(check);
+  });
+
+  const stop = () => new Promise<void>((resolveStop) => {
+    rmSync(dir, { recursive: true, force: true });
+    if (child.exitCode !== null || child.signalCode !== null) {
+      resolveStop();
+      return;
+    }
+    child.once('exit', () => resolveStop());
+    child.kill();
+  });
+
+  try {
+    const listening = await waitForLog(/listening on ws:\/\/localhost:\d+/);
+    const port = Number(/localhost:(\d+)/.exec(listening)?.[1]);
+    return { url: `ws://localhost:${port}`, log, waitForLog, stop };
+  } catch (err) {
+    await stop();
+    throw err;
+  }
+}
@@ -0,0 +1,49 @@
+import type {
+  Blob as GenAIBlob,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveServerMessage,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+
+// --- Voice Backend Contract ---
+// Every backend speaks the Live API message shape, so the scene's onmessage
+// handling is identical whether it's talking to Gemini or a local stand-in.
+
+export interface VoiceSessionCallbacks {
+  onopen?: () => void;
+  onmessage: (message: LiveServerMessage) => void;
+  onerror?: (e: ErrorEvent) => void;
+  onclose?: (e: CloseEvent) => void;
+  /** User audio replayed from a recording, for backends that don't listen to a live mic. */
+  onreplayinput?: (media: GenAIBlob) => void;
+  /** A message the user typed, replayed from a recording. */
+  onreplaytext?: (text: string) => void;
+  /** The connection dropped and attempt `attempt` will start in `delayMs` (see withReconnect). */
+  onreconnecting?: (attempt: number, delayMs: number) => void;
+  /** A dropped connection is back; buffered input has been flushed. */
+  onreconnected?: () => void;
+}
+
+export interface VoiceConnectOptions {
+  callbacks: VoiceSessionCallbacks;
+  config: LiveConnectConfig;
+}
+
+export interface VoiceSession {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  /** Sends conversation turns, e.g. a message the user typed. */
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  /** Answers the server's `toolCall` function calls, matched by id. */
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+export interface VoiceSessionProvider {
+  /** Human readable backend name, surfaced in the HUD while connecting. */
+  readonly label: string;
+  /** False for backends that never listen (e.g. replays); defaults to true. */
+  readonly requiresMicrophone?: boolean;
+  connect(options: VoiceConnectOptions): Promise<VoiceSession>;
+}
@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.VOICE_PROVIDER': JSON.stringify(env.VOICE_PROVIDER),
+        'process.env.MOCK_LIVE_URL': JSON.stringify(env.MOCK_LIVE_URL),
+        'process.env.HAND_WASM_URL': JSON.stringify(env.HAND_WASM_URL),
+        'process.env.HAND_MODEL_URL': JSON.stringify(env.HAND_MODEL_URL)
       },
       resolve: {
         alias: {